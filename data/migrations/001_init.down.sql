@@ -0,0 +1,8 @@
+-- Drops the tables of the original schema, and every book and account with them
+DROP TABLE BOOKS;
+
+DROP TABLE Account_Credential;
+
+DROP TABLE Account;
+
+DROP TABLE Demo;
@@ -27,6 +27,7 @@ CREATE TABLE
         FOREIGN KEY (Account_ID) REFERENCES Account (Account_ID)
     );
 
+-- BOOKS is seeded from data/books.csv by npm run seed, once every migration is applied
 CREATE TABLE
     BOOKS (
         id SERIAL PRIMARY KEY,
@@ -45,20 +46,3 @@ CREATE TABLE
         image_small_url TEXT
     );
 
-COPY books (
-    isbn13,
-    authors,
-    publication_year,
-    title,
-    rating_avg,
-    rating_count,
-    rating_1_star,
-    rating_2_star,
-    rating_3_star,
-    rating_4_star,
-    rating_5_star,
-    image_url,
-    image_small_url
-)
-FROM
-    '/docker-entrypoint-initdb.d/books.csv' DELIMITER ',' CSV HEADER;
\ No newline at end of file
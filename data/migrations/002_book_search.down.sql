@@ -0,0 +1,8 @@
+DROP INDEX books_authors_trgm_idx;
+
+DROP INDEX books_title_trgm_idx;
+
+ALTER TABLE BOOKS
+DROP COLUMN search_vector;
+
+DROP EXTENSION IF EXISTS pg_trgm;
@@ -0,0 +1,16 @@
+-- Full-text and fuzzy search over the title and authors of BOOKS.
+-- The 'simple' configuration is used so author names are not stemmed.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE BOOKS
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(authors, '')), 'B')
+) STORED;
+
+CREATE INDEX books_search_vector_idx ON BOOKS USING GIN (search_vector);
+
+-- Trigram indexes back the typo tolerant matching and the ILIKE filters of /library/search
+CREATE INDEX books_title_trgm_idx ON BOOKS USING GIN (title gin_trgm_ops);
+
+CREATE INDEX books_authors_trgm_idx ON BOOKS USING GIN (authors gin_trgm_ops);
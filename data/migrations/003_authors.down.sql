@@ -0,0 +1,12 @@
+-- BOOKS.authors still has every author, only the normalized copy is dropped
+DROP TRIGGER books_delete_orphan_authors ON BOOKS;
+
+DROP FUNCTION delete_orphan_authors();
+
+DROP TRIGGER books_sync_authors ON BOOKS;
+
+DROP FUNCTION sync_book_authors();
+
+DROP TABLE book_authors;
+
+DROP TABLE authors;
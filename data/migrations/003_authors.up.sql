@@ -0,0 +1,64 @@
+-- Normalizes the comma separated BOOKS.authors column into authors and book_authors.
+-- BOOKS.authors stays the source of truth: a trigger keeps book_authors in step with it.
+CREATE TABLE
+    authors (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE
+    );
+
+CREATE TABLE
+    book_authors (
+        book_id INT NOT NULL,
+        author_id INT NOT NULL,
+        position INT NOT NULL,
+        PRIMARY KEY (book_id, author_id),
+        FOREIGN KEY (book_id) REFERENCES BOOKS (id) ON DELETE CASCADE,
+        FOREIGN KEY (author_id) REFERENCES authors (id) ON DELETE CASCADE
+    );
+
+CREATE INDEX book_authors_author_id_idx ON book_authors (author_id);
+
+CREATE INDEX authors_name_trgm_idx ON authors USING GIN (name gin_trgm_ops);
+
+-- Splits NEW.authors on commas, creating any author that does not exist yet.
+-- position keeps the order the authors are credited in.
+CREATE FUNCTION sync_book_authors() RETURNS trigger AS $$
+BEGIN
+    DELETE FROM book_authors WHERE book_id = NEW.id;
+
+    INSERT INTO authors (name)
+    SELECT DISTINCT trim(split.name)
+    FROM unnest(string_to_array(NEW.authors, ',')) AS split(name)
+    WHERE trim(split.name) <> ''
+    ON CONFLICT (name) DO NOTHING;
+
+    INSERT INTO book_authors (book_id, author_id, position)
+    SELECT NEW.id, authors.id, min(split.position)
+    FROM unnest(string_to_array(NEW.authors, ',')) WITH ORDINALITY AS split(name, position)
+    JOIN authors ON authors.name = trim(split.name)
+    GROUP BY authors.id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_sync_authors
+AFTER INSERT OR UPDATE OF authors ON BOOKS
+FOR EACH ROW EXECUTE FUNCTION sync_book_authors();
+
+-- Authors left without any book are removed
+CREATE FUNCTION delete_orphan_authors() RETURNS trigger AS $$
+BEGIN
+    DELETE FROM authors
+    WHERE NOT EXISTS (SELECT 1 FROM book_authors WHERE author_id = authors.id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_delete_orphan_authors
+AFTER UPDATE OF authors OR DELETE ON BOOKS
+FOR EACH STATEMENT EXECUTE FUNCTION delete_orphan_authors();
+
+-- Populate the new tables from the existing books
+UPDATE BOOKS SET authors = authors;
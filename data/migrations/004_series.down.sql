@@ -0,0 +1,14 @@
+-- The series stay embedded in BOOKS.title, only the extracted copy is dropped
+DROP TRIGGER books_delete_orphan_series ON BOOKS;
+
+DROP FUNCTION delete_orphan_series();
+
+DROP TRIGGER books_parse_series ON BOOKS;
+
+DROP FUNCTION parse_book_series();
+
+ALTER TABLE BOOKS
+DROP COLUMN series_position,
+DROP COLUMN series_id;
+
+DROP TABLE series;
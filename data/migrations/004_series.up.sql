@@ -0,0 +1,59 @@
+-- Extracts the series embedded in titles such as "The Hunger Games (The Hunger Games, #1)".
+-- A trigger keeps series_id and series_position in step with BOOKS.title.
+CREATE TABLE
+    series (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE
+    );
+
+ALTER TABLE BOOKS
+ADD COLUMN series_id INT REFERENCES series (id) ON DELETE SET NULL,
+ADD COLUMN series_position NUMERIC;
+
+CREATE INDEX books_series_id_idx ON BOOKS (series_id, series_position);
+
+-- The position is the number after '#', e.g. 2.5 for "(Beautiful, #2.5)". Collections such as
+-- "(1Q84, #1-2)" or "(Sookie Stackhouse, #4.1, #4.3)" belong to the series without a position.
+CREATE FUNCTION parse_book_series() RETURNS trigger AS $$
+DECLARE
+    parts TEXT[];
+BEGIN
+    parts := regexp_match(NEW.title, '\(([^()]*?),?\s*#(\d+(?:\.\d+)?)([^()]*)\)\s*$');
+
+    IF parts IS NULL OR trim(parts[1]) = '' THEN
+        NEW.series_id := NULL;
+        NEW.series_position := NULL;
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO series (name) VALUES (trim(parts[1])) ON CONFLICT (name) DO NOTHING;
+    SELECT id INTO NEW.series_id FROM series WHERE name = trim(parts[1]);
+    NEW.series_position := CASE
+        WHEN parts[3] ~ '^\s*(-|,\s*#)' THEN NULL
+        ELSE parts[2]::NUMERIC
+    END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_parse_series
+BEFORE INSERT OR UPDATE OF title ON BOOKS
+FOR EACH ROW EXECUTE FUNCTION parse_book_series();
+
+-- Series left without any book are removed
+CREATE FUNCTION delete_orphan_series() RETURNS trigger AS $$
+BEGIN
+    DELETE FROM series
+    WHERE NOT EXISTS (SELECT 1 FROM BOOKS WHERE series_id = series.id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_delete_orphan_series
+AFTER UPDATE OF title OR DELETE ON BOOKS
+FOR EACH STATEMENT EXECUTE FUNCTION delete_orphan_series();
+
+-- Populate the new columns from the existing books
+UPDATE BOOKS SET title = title;
@@ -0,0 +1,5 @@
+-- Access tokens issued before sessions existed have no session to check, so every token
+-- issued with one stops working once this is undone
+DROP TABLE Refresh_Token;
+
+DROP TABLE Account_Session;
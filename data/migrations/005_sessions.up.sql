@@ -0,0 +1,24 @@
+-- A session is one login of an account and the family of refresh tokens rotated from it.
+-- Revoking a session logs it out: its access tokens and refresh tokens stop working.
+CREATE TABLE
+    Account_Session (
+        Session_ID SERIAL PRIMARY KEY,
+        Account_ID INT NOT NULL,
+        Created_At TIMESTAMPTZ NOT NULL DEFAULT now(),
+        Revoked_At TIMESTAMPTZ,
+        FOREIGN KEY (Account_ID) REFERENCES Account (Account_ID) ON DELETE CASCADE
+    );
+
+CREATE INDEX account_session_account_id_idx ON Account_Session (Account_ID);
+
+-- Only a hash of each refresh token is stored. A token is used once: refreshing marks it
+-- used and issues the next token of the session.
+CREATE TABLE
+    Refresh_Token (
+        Token_ID SERIAL PRIMARY KEY,
+        Session_ID INT NOT NULL,
+        Token_Hash CHAR(64) NOT NULL UNIQUE,
+        Expires_At TIMESTAMPTZ NOT NULL,
+        Used_At TIMESTAMPTZ,
+        FOREIGN KEY (Session_ID) REFERENCES Account_Session (Session_ID) ON DELETE CASCADE
+    );
@@ -0,0 +1,4 @@
+-- Only single round sha256 hashes can be checked without Hash_Algorithm, so the accounts whose
+-- password was hashed otherwise cannot log in until their password is reset
+ALTER TABLE Account_Credential
+    DROP COLUMN Hash_Algorithm;
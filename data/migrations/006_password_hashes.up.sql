@@ -0,0 +1,8 @@
+-- Records how each password hash was made, so the hashing can be made stronger over time.
+-- Existing rows are single round sha256(password + salt) hashes and are upgraded on login.
+-- New rows must always say how they were hashed, hence no default once backfilled.
+ALTER TABLE Account_Credential
+    ADD COLUMN Hash_Algorithm VARCHAR(255) NOT NULL DEFAULT 'sha256';
+
+ALTER TABLE Account_Credential
+    ALTER COLUMN Hash_Algorithm DROP DEFAULT;
@@ -0,0 +1,13 @@
+-- Only a hash of each password reset token is stored. A token can be used once, and only
+-- until it expires.
+CREATE TABLE
+    Password_Reset (
+        Reset_ID SERIAL PRIMARY KEY,
+        Account_ID INT NOT NULL,
+        Token_Hash CHAR(64) NOT NULL UNIQUE,
+        Expires_At TIMESTAMPTZ NOT NULL,
+        Used_At TIMESTAMPTZ,
+        FOREIGN KEY (Account_ID) REFERENCES Account (Account_ID) ON DELETE CASCADE
+    );
+
+CREATE INDEX password_reset_account_id_idx ON Password_Reset (Account_ID);
@@ -0,0 +1,11 @@
+-- Takes the ratings given here away from BOOKS before dropping them, leaving the seeded
+-- Goodreads counts
+DELETE FROM user_ratings;
+
+DROP TRIGGER user_ratings_sync_books ON user_ratings;
+
+DROP FUNCTION sync_book_ratings();
+
+DROP FUNCTION apply_book_rating(INT, SMALLINT, INT);
+
+DROP TABLE user_ratings;
@@ -0,0 +1,54 @@
+-- The star rating each user gave a book. The BOOKS rating columns start from the seeded
+-- Goodreads counts and a trigger adds, moves or takes away each user rating, so they always
+-- describe the Goodreads ratings plus the ratings given here.
+CREATE TABLE
+    user_ratings (
+        account_id INT NOT NULL,
+        book_id INT NOT NULL,
+        rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (account_id, book_id),
+        FOREIGN KEY (account_id) REFERENCES Account (Account_ID) ON DELETE CASCADE,
+        FOREIGN KEY (book_id) REFERENCES BOOKS (id) ON DELETE CASCADE
+    );
+
+CREATE INDEX user_ratings_book_id_idx ON user_ratings (book_id);
+
+-- Adds (delta = 1) or takes away (delta = -1) one rating of a book. The average is moved
+-- rather than recomputed from the star columns, which the seeded counts do not add up to.
+CREATE FUNCTION apply_book_rating(target INT, stars SMALLINT, delta INT) RETURNS void AS $$
+BEGIN
+    UPDATE BOOKS SET
+        rating_avg = CASE
+            WHEN coalesce(rating_count, 0) + delta > 0
+            THEN (coalesce(rating_avg, 0) * coalesce(rating_count, 0) + delta * stars)
+                / (coalesce(rating_count, 0) + delta)
+        END,
+        rating_count = coalesce(rating_count, 0) + delta,
+        rating_1_star = coalesce(rating_1_star, 0) + CASE WHEN stars = 1 THEN delta ELSE 0 END,
+        rating_2_star = coalesce(rating_2_star, 0) + CASE WHEN stars = 2 THEN delta ELSE 0 END,
+        rating_3_star = coalesce(rating_3_star, 0) + CASE WHEN stars = 3 THEN delta ELSE 0 END,
+        rating_4_star = coalesce(rating_4_star, 0) + CASE WHEN stars = 4 THEN delta ELSE 0 END,
+        rating_5_star = coalesce(rating_5_star, 0) + CASE WHEN stars = 5 THEN delta ELSE 0 END
+    WHERE id = target;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs in the same transaction as the change to user_ratings, so BOOKS can never disagree with it
+CREATE FUNCTION sync_book_ratings() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM apply_book_rating(OLD.book_id, OLD.rating, -1);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM apply_book_rating(NEW.book_id, NEW.rating, 1);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER user_ratings_sync_books
+AFTER INSERT OR DELETE OR UPDATE OF rating ON user_ratings
+FOR EACH ROW EXECUTE FUNCTION sync_book_ratings();
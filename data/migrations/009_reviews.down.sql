@@ -0,0 +1,9 @@
+DROP TRIGGER review_votes_sync_reviews ON review_votes;
+
+DROP FUNCTION sync_review_helpful_count();
+
+DROP TABLE review_reports;
+
+DROP TABLE review_votes;
+
+DROP TABLE reviews;
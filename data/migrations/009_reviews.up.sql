@@ -0,0 +1,68 @@
+-- Written reviews of books. Each account can review a book once. Moderators hide reviews
+-- instead of deleting them, recording who hid the review and why.
+CREATE TABLE
+    reviews (
+        id SERIAL PRIMARY KEY,
+        book_id INT NOT NULL,
+        account_id INT NOT NULL,
+        body TEXT NOT NULL,
+        helpful_count INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        hidden_at TIMESTAMPTZ,
+        hidden_by INT,
+        hidden_reason TEXT,
+        UNIQUE (book_id, account_id),
+        FOREIGN KEY (book_id) REFERENCES BOOKS (id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES Account (Account_ID) ON DELETE CASCADE,
+        FOREIGN KEY (hidden_by) REFERENCES Account (Account_ID) ON DELETE SET NULL
+    );
+
+CREATE INDEX reviews_account_id_idx ON reviews (account_id);
+
+CREATE INDEX reviews_book_newest_idx ON reviews (book_id, id DESC);
+
+CREATE INDEX reviews_book_helpful_idx ON reviews (book_id, helpful_count DESC, id DESC);
+
+-- One helpful vote per account and review
+CREATE TABLE
+    review_votes (
+        review_id INT NOT NULL,
+        account_id INT NOT NULL,
+        PRIMARY KEY (review_id, account_id),
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES Account (Account_ID) ON DELETE CASCADE
+    );
+
+CREATE INDEX review_votes_account_id_idx ON review_votes (account_id);
+
+-- One report per account and review, for moderators to look at
+CREATE TABLE
+    review_reports (
+        review_id INT NOT NULL,
+        account_id INT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (review_id, account_id),
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE,
+        FOREIGN KEY (account_id) REFERENCES Account (Account_ID) ON DELETE CASCADE
+    );
+
+CREATE INDEX review_reports_account_id_idx ON review_reports (account_id);
+
+-- Keeps reviews.helpful_count equal to the number of votes, so reviews can be sorted by it
+CREATE FUNCTION sync_review_helpful_count() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE reviews SET helpful_count = helpful_count + 1 WHERE id = NEW.review_id;
+    ELSE
+        UPDATE reviews SET helpful_count = helpful_count - 1 WHERE id = OLD.review_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER review_votes_sync_reviews
+AFTER INSERT OR DELETE ON review_votes
+FOR EACH ROW EXECUTE FUNCTION sync_review_helpful_count();
@@ -0,0 +1,9 @@
+DROP TRIGGER account_create_default_shelves ON Account;
+
+DROP FUNCTION create_default_shelves();
+
+DROP FUNCTION add_default_shelves(INT);
+
+DROP TABLE shelf_books;
+
+DROP TABLE shelves;
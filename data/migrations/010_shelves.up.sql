@@ -0,0 +1,53 @@
+-- Reading lists. Every account gets the three default shelves of Goodreads, which can be
+-- shared but not renamed or deleted, and can add shelves of its own.
+CREATE TABLE
+    shelves (
+        id SERIAL PRIMARY KEY,
+        account_id INT NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        is_default BOOLEAN NOT NULL DEFAULT false,
+        is_public BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        UNIQUE (account_id, name),
+        FOREIGN KEY (account_id) REFERENCES Account (Account_ID) ON DELETE CASCADE
+    );
+
+-- A book on a shelf and how far the reader got with it
+CREATE TABLE
+    shelf_books (
+        shelf_id INT NOT NULL,
+        book_id INT NOT NULL,
+        added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        current_page INT CHECK (current_page >= 0),
+        progress_percent NUMERIC(5, 2) CHECK (progress_percent BETWEEN 0 AND 100),
+        started_on DATE,
+        finished_on DATE CHECK (finished_on >= started_on),
+        PRIMARY KEY (shelf_id, book_id),
+        FOREIGN KEY (shelf_id) REFERENCES shelves (id) ON DELETE CASCADE,
+        FOREIGN KEY (book_id) REFERENCES BOOKS (id) ON DELETE CASCADE
+    );
+
+CREATE INDEX shelf_books_book_id_idx ON shelf_books (book_id);
+
+CREATE FUNCTION add_default_shelves(account INT) RETURNS void AS $$
+BEGIN
+    INSERT INTO shelves (account_id, name, is_default)
+    SELECT account, defaults.name, true
+    FROM unnest(ARRAY['Want to Read', 'Currently Reading', 'Read']) AS defaults(name);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION create_default_shelves() RETURNS trigger AS $$
+BEGIN
+    PERFORM add_default_shelves(NEW.account_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER account_create_default_shelves
+AFTER INSERT ON Account
+FOR EACH ROW EXECUTE FUNCTION create_default_shelves();
+
+-- Give the existing accounts their default shelves
+SELECT add_default_shelves(account_id) FROM Account;
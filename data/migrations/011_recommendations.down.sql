@@ -0,0 +1,5 @@
+DROP MATERIALIZED VIEW book_similarity;
+
+DROP VIEW books_read;
+
+DROP VIEW book_likes;
@@ -0,0 +1,48 @@
+-- Book recommendations from what readers rated and shelved. The similarity between books is a
+-- materialized view so it is not recomputed on every request. Refresh it offline, e.g. nightly:
+--     REFRESH MATERIALIZED VIEW CONCURRENTLY book_similarity;
+
+-- The books each account liked: rated 4 stars or more, or shelved without rating it below 3
+CREATE VIEW book_likes AS
+SELECT account_id, book_id
+FROM user_ratings
+WHERE rating >= 4
+UNION
+SELECT shelves.account_id, shelf_books.book_id
+FROM shelf_books
+JOIN shelves ON shelves.id = shelf_books.shelf_id
+WHERE NOT EXISTS (
+    SELECT 1 FROM user_ratings
+    WHERE user_ratings.account_id = shelves.account_id
+        AND user_ratings.book_id = shelf_books.book_id
+        AND user_ratings.rating < 3
+);
+
+-- The books each account has read: rated, on its "Read" shelf or finished on any shelf
+CREATE VIEW books_read AS
+SELECT account_id, book_id
+FROM user_ratings
+UNION
+SELECT shelves.account_id, shelf_books.book_id
+FROM shelf_books
+JOIN shelves ON shelves.id = shelf_books.shelf_id
+WHERE (shelves.is_default AND shelves.name = 'Read') OR shelf_books.finished_on IS NOT NULL;
+
+-- One row for every pair of books liked by the same reader. score is the cosine similarity of
+-- the books' readers: the readers who liked both over the geometric mean of the readers of each.
+CREATE MATERIALIZED VIEW book_similarity AS
+WITH readers AS (
+    SELECT book_id, count(*) AS total FROM book_likes GROUP BY book_id
+)
+SELECT liked.book_id, also_liked.book_id AS similar_book_id,
+    count(*)::int AS shared_readers,
+    (count(*) / sqrt(liked_readers.total * also_liked_readers.total))::float AS score
+FROM book_likes AS liked
+JOIN book_likes AS also_liked
+    ON also_liked.account_id = liked.account_id AND also_liked.book_id <> liked.book_id
+JOIN readers AS liked_readers ON liked_readers.book_id = liked.book_id
+JOIN readers AS also_liked_readers ON also_liked_readers.book_id = also_liked.book_id
+GROUP BY liked.book_id, also_liked.book_id, liked_readers.total, also_liked_readers.total;
+
+-- REFRESH ... CONCURRENTLY needs a unique index
+CREATE UNIQUE INDEX book_similarity_pkey ON book_similarity (book_id, similar_book_id);
@@ -0,0 +1,6 @@
+DROP TRIGGER books_version ON BOOKS;
+
+DROP FUNCTION bump_book_version();
+
+ALTER TABLE BOOKS
+DROP COLUMN version;
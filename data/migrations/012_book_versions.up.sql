@@ -0,0 +1,20 @@
+-- Every book has a version that goes up whenever the book changes. It is sent as the ETag of
+-- the book, so an edit sent with If-Match can tell whether someone else changed it first.
+ALTER TABLE BOOKS
+ADD COLUMN version INT NOT NULL DEFAULT 1;
+
+-- Runs after the other BEFORE UPDATE triggers of BOOKS (they fire in name order), so it sees
+-- the row as it will be stored
+CREATE FUNCTION bump_book_version() RETURNS trigger AS $$
+BEGIN
+    IF NEW IS DISTINCT FROM OLD THEN
+        NEW.version := OLD.version + 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER books_version
+BEFORE UPDATE ON BOOKS
+FOR EACH ROW EXECUTE FUNCTION bump_book_version();
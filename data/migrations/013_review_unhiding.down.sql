@@ -0,0 +1,9 @@
+-- Reviews that were shown again lose who hid them and why, as they did before
+UPDATE reviews
+SET hidden_at = NULL, hidden_by = NULL, hidden_reason = NULL
+WHERE NOT is_hidden;
+
+ALTER TABLE reviews
+DROP COLUMN unhidden_by,
+DROP COLUMN unhidden_at,
+DROP COLUMN is_hidden;
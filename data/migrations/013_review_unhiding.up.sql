@@ -0,0 +1,10 @@
+-- Showing a hidden review again used to clear who hid it and why. Reviews keep those now and
+-- also record who showed them again, so is_hidden alone says whether a review is hidden.
+ALTER TABLE reviews
+ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN unhidden_at TIMESTAMPTZ,
+ADD COLUMN unhidden_by INT REFERENCES Account (Account_ID) ON DELETE SET NULL;
+
+UPDATE reviews
+SET is_hidden = true
+WHERE hidden_at IS NOT NULL;
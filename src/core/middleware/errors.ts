@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+import { IErrorBody, NotFoundError } from '../models/error.model';
+import { errorFunctions } from '../utilities/errorUtils';
+
+/**
+ * Gives every request an id, sent back as X-Request-Id and in the body of errors, so a
+ * client reporting an error can point at its request in the logs.
+ */
+export const assignRequestId = (
+    request: Request,
+    response: Response,
+    next: NextFunction
+) => {
+    const requestId = randomUUID();
+    response.locals.requestId = requestId;
+    response.set('X-Request-Id', requestId);
+    next();
+};
+
+/**
+ * Wraps an async handler so whatever it throws, or rejects with, is passed on to the error
+ * handler instead of leaving the request without an answer.
+ *
+ * @param handler the async handler
+ * @returns the handler for the router
+ */
+export const asyncHandler =
+    <R extends Request>(
+        handler: (
+            request: R,
+            response: Response,
+            next: NextFunction
+        ) => Promise<unknown>
+    ) =>
+    (request: R, response: Response, next: NextFunction) => {
+        handler(request, response, next).catch(next);
+    };
+
+/**
+ * Answers requests that no route matched. Must be used after every route.
+ */
+export const handleNotFound = (
+    request: Request,
+    response: Response,
+    next: NextFunction
+) => {
+    next(new NotFoundError(`No route for ${request.method} ${request.path}`));
+};
+
+/**
+ * Answers every error passed on by a route with the error envelope. Must be the last
+ * middleware of the app.
+ */
+export const handleErrors = (
+    error: unknown,
+    request: Request,
+    response: Response,
+    // express knows an error handler by its four parameters
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    next: NextFunction
+) => {
+    const apiError = errorFunctions.toApiError(error);
+    const requestId: string = response.locals.requestId;
+    // the client is told about its own mistakes, only failures of the server are logged
+    if (apiError.status >= 500) {
+        console.error(
+            `Error on ${request.method} ${request.originalUrl} [${requestId}]`
+        );
+        console.error(error);
+    }
+    // a response that has started can only be cut off, which tells the client it failed
+    if (response.headersSent) {
+        return response.destroy();
+    }
+
+    const body: IErrorBody = {
+        error: {
+            code: apiError.code,
+            message: apiError.message,
+            details: apiError.details,
+            requestId,
+        },
+    };
+    response.status(apiError.status).send(body);
+};
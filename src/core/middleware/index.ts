@@ -1,5 +1,29 @@
-import { checkToken } from './jwt';
+import { checkToken, checkOptionalToken } from './jwt';
 
 import { checkParamsIdToJwtId } from './verificationChecks';
 
-export { checkToken, checkParamsIdToJwtId };
+import { requireRole } from './roles';
+
+import { validate } from './validate';
+
+import { matchIsbn13 } from './isbn';
+
+import {
+    assignRequestId,
+    asyncHandler,
+    handleNotFound,
+    handleErrors,
+} from './errors';
+
+export {
+    checkToken,
+    checkOptionalToken,
+    checkParamsIdToJwtId,
+    requireRole,
+    validate,
+    matchIsbn13,
+    assignRequestId,
+    asyncHandler,
+    handleNotFound,
+    handleErrors,
+};
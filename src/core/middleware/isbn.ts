@@ -0,0 +1,25 @@
+import { NextFunction, Response } from 'express';
+
+import { IValidRequest } from '../models/validation.model';
+import { bookRepository } from '../repositories/bookRepository';
+
+/**
+ * Replaces the isbn13 route parameter with the isbn13 under which the library keeps the book,
+ * so an ISBN-10, or the full ISBN-13 of a book that lost its last digit, finds the book. An
+ * isbn13 that matches no book is left as it was. Must run after validate, and only on routes
+ * that read: a route that changes data takes the exact isbn13, so it cannot change another book.
+ */
+export const matchIsbn13 = (
+    request: IValidRequest,
+    response: Response,
+    next: NextFunction
+) => {
+    const isbn13 = request.valid.params.isbn13 as string;
+    bookRepository
+        .matchIsbn13(isbn13)
+        .then((stored) => {
+            request.valid.params.isbn13 = stored ?? isbn13;
+            next();
+        })
+        .catch(next);
+};
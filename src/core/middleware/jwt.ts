@@ -2,6 +2,8 @@ import jwt, { JwtPayload } from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 
 import { IJwtRequest } from '../models/JwtRequest.model';
+import { UnauthorizedError } from '../models/error.model';
+import { sessionFunctions } from '../utilities/sessionUtils';
 
 const config = {
     secret: process.env.JSON_WEB_TOKEN,
@@ -23,20 +25,43 @@ export const checkToken = (
         }
 
         jwt.verify(token, config.secret, (error, decoded: JwtPayload) => {
-            if (error) {
-                response.status(403).json({
-                    success: false,
-                    message: 'Token is not valid',
-                });
-            } else {
-                request.claims = decoded;
-                next();
+            // a token stops working as soon as its session is logged out
+            if (error || !Number.isInteger(decoded.sid)) {
+                return next(new UnauthorizedError('Token is not valid'));
             }
+            sessionFunctions
+                .isSessionActive(decoded.sid)
+                .then((active) => {
+                    if (active) {
+                        request.claims = decoded;
+                        next();
+                    } else {
+                        next(new UnauthorizedError('Token is not valid'));
+                    }
+                })
+                .catch(next);
         });
     } else {
-        response.status(401).json({
-            success: false,
-            message: 'Auth token is not supplied',
-        });
+        next(new UnauthorizedError('Auth token is not supplied'));
+    }
+};
+
+/**
+ * Checks the token of a request that may also be sent without one, as for a route that shows
+ * more to a signed in user. A request without a token goes on without claims, one with a
+ * token that is not valid is rejected as by checkToken.
+ */
+export const checkOptionalToken = (
+    request: IJwtRequest,
+    response: Response,
+    next: NextFunction
+) => {
+    if (
+        request.headers['x-access-token'] === undefined &&
+        request.headers['authorization'] === undefined
+    ) {
+        next();
+    } else {
+        checkToken(request, response, next);
     }
 };
@@ -0,0 +1,24 @@
+import { NextFunction, Response } from 'express';
+
+import { IJwtRequest } from '../models/JwtRequest.model';
+import { Role } from '../models/role.model';
+import { ForbiddenError, UnauthorizedError } from '../models/error.model';
+
+/**
+ * Creates a middleware function that only lets requests through when the role in their
+ * token is one of the given roles. Must run after checkToken.
+ *
+ * @param {Role[]} roles the roles allowed to continue
+ * @returns the middleware function
+ */
+export const requireRole =
+    (...roles: Role[]) =>
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        if (request.claims === undefined) {
+            next(new UnauthorizedError('Auth token is not supplied'));
+        } else if (roles.includes(Number(request.claims.role))) {
+            next();
+        } else {
+            next(new ForbiddenError('Your role does not permit this action'));
+        }
+    };
@@ -0,0 +1,55 @@
+import { NextFunction, Response } from 'express';
+
+import {
+    IRequestSchema,
+    IValidationError,
+    IValidRequest,
+    RequestLocation,
+} from '../models/validation.model';
+import { ValidationError } from '../models/error.model';
+import { schemaFunctions } from '../utilities/schemaUtils';
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+/**
+ * Creates a middleware function that checks the route parameters, query string and body of a
+ * request against a schema of schemaFunctions rules, and puts the converted values into
+ * request.valid. Fields that are not in the schema are left alone. Once every field is valid,
+ * the checks of the schema compare the fields with each other. A request with invalid fields is
+ * answered with a ValidationError whose details list all of them, its message being that of the
+ * first one.
+ *
+ * @param {IRequestSchema} schema the rules of the fields of the request
+ * @returns the middleware function
+ */
+export const validate =
+    (schema: IRequestSchema) =>
+    (request: IValidRequest, response: Response, next: NextFunction) => {
+        const errors: IValidationError[] = [];
+        const valid = { params: {}, query: {}, body: {} };
+
+        for (const location of LOCATIONS) {
+            const result = schemaFunctions.checkFields(
+                schema[location] ?? {},
+                request[location] ?? {}
+            );
+            valid[location] = result.values;
+            errors.push(
+                ...result.errors.map((error) => ({ location, ...error }))
+            );
+        }
+
+        if (errors.length == 0) {
+            for (const check of schema.checks ?? []) {
+                const error = check(valid);
+                if (error !== undefined) errors.push(error);
+            }
+        }
+
+        if (errors.length == 0) {
+            request.valid = valid as IValidRequest['valid'];
+            next();
+        } else {
+            next(new ValidationError(errors[0].message, errors));
+        }
+    };
@@ -1,15 +1,24 @@
 import { NextFunction, Response } from 'express';
 import { IJwtRequest } from '../models/JwtRequest.model';
+import { Role } from '../models/role.model';
+import { ForbiddenError } from '../models/error.model';
 
+/**
+ * Only lets requests through when the id route parameter is the id of the user in their
+ * token, or when that user is an admin. Must run after checkToken.
+ */
 export const checkParamsIdToJwtId = (
     request: IJwtRequest,
     response: Response,
     next: NextFunction
 ) => {
-    if (request.params.id !== request.claims.id) {
-        response.status(400).send({
-            message: 'Credentials do not match for this user.',
-        });
+    // route parameters are strings while the claims hold numbers
+    if (
+        Number(request.params.id) === Number(request.claims.id) ||
+        Number(request.claims.role) === Role.Admin
+    ) {
+        next();
+    } else {
+        next(new ForbiddenError('Credentials do not match for this user.'));
     }
-    next();
 };
@@ -0,0 +1,102 @@
+/**
+ * The number of ratings of a book with each number of stars.
+ */
+export interface IRatingDistribution {
+    1: number;
+    2: number;
+    3: number;
+    4: number;
+    5: number;
+}
+
+export interface IBookRatings {
+    average: number | null;
+    count: number;
+    // the average weighted towards the library-wide mean when the book has few ratings
+    weighted: number;
+    distribution: IRatingDistribution;
+}
+
+export interface IBookImages {
+    large: string;
+    small: string;
+}
+
+export interface IBookSeries {
+    id: number;
+    name: string;
+    // null for collections such as "#1-3"
+    position: number | null;
+}
+
+/**
+ * A book as every library route sends it.
+ */
+export interface IBook {
+    isbn13: string;
+    title: string;
+    authors: string[];
+    publicationYear: number;
+    ratings: IBookRatings;
+    images: IBookImages;
+    series: IBookSeries | null;
+}
+
+/**
+ * A book as read from BOOKS with bookFunctions.columns.
+ */
+export interface IBookRow {
+    isbn13: string;
+    title: string;
+    authors: string[];
+    publication_year: number;
+    rating_avg: number | null;
+    rating_count: number;
+    rating_1_star: number;
+    rating_2_star: number;
+    rating_3_star: number;
+    rating_4_star: number;
+    rating_5_star: number;
+    weighted_rating: number;
+    image_url: string;
+    image_small_url: string;
+    series: IBookSeries | null;
+}
+
+// The per-star rating count columns of BOOKS, from 1 star to 5 stars
+export const STAR_COLUMNS: (keyof IBookRow)[] = [
+    'rating_1_star',
+    'rating_2_star',
+    'rating_3_star',
+    'rating_4_star',
+    'rating_5_star',
+];
+
+/**
+ * A book as read from BOOKS along with its id and version.
+ */
+export interface IStoredBookRow extends IBookRow {
+    id: number;
+    version: number;
+}
+
+/**
+ * A recommended book, with its score and the reason it was picked.
+ */
+export interface IRecommendedBookRow extends IBookRow {
+    score: number;
+    reason: string;
+}
+
+export type BookField = keyof IBook;
+
+// The fields a client can ask for with ?fields=
+export const BOOK_FIELDS: BookField[] = [
+    'isbn13',
+    'title',
+    'authors',
+    'publicationYear',
+    'ratings',
+    'images',
+    'series',
+];
@@ -0,0 +1,53 @@
+/**
+ * A book as it is written to BOOKS by an import or /library/add. Only the rating columns are
+ * optional.
+ */
+export interface IImportedBook {
+    isbn13: string;
+    authors: string;
+    publication_year: number;
+    title: string;
+    rating_avg?: number;
+    rating_count?: number;
+    rating_1_star?: number;
+    rating_2_star?: number;
+    rating_3_star?: number;
+    rating_4_star?: number;
+    rating_5_star?: number;
+    image_url: string;
+    image_small_url: string;
+}
+
+/**
+ * The columns of BOOKS an import writes and an export reads, in the order an export lists them.
+ */
+export const BOOK_COLUMNS: (keyof IImportedBook)[] = [
+    'isbn13',
+    'authors',
+    'publication_year',
+    'title',
+    'rating_avg',
+    'rating_count',
+    'rating_1_star',
+    'rating_2_star',
+    'rating_3_star',
+    'rating_4_star',
+    'rating_5_star',
+    'image_url',
+    'image_small_url',
+];
+
+export interface IImportError {
+    line: number;
+    isbn13: string | null;
+    message: string;
+}
+
+export interface IImportReport {
+    dryRun: boolean;
+    inserted: number;
+    updated: number;
+    skipped: number;
+    errors: IImportError[];
+    errorsTruncated: boolean;
+}
@@ -0,0 +1,40 @@
+import { IBookRow } from './book.model';
+import { ISort } from './pagination.model';
+
+export type BookSortColumn =
+    | 'rating_avg'
+    | 'rating_count'
+    | 'weighted_rating'
+    | 'publication_year'
+    | 'title'
+    | 'relevance';
+
+export interface IBookSearchFilters {
+    query?: string;
+    author?: string;
+    title?: string;
+    yearMin?: number;
+    yearMax?: number;
+    ratingMin?: number;
+    ratingMax?: number;
+    ratingCountMin?: number;
+    isbnPrefix?: string;
+}
+
+export interface IBookSort extends ISort {
+    column: BookSortColumn;
+}
+
+export interface IBookSearch {
+    filters: IBookSearchFilters;
+    sort: IBookSort;
+}
+
+/**
+ * A book found by a search, with the id its cursors are made from and, for a search by text,
+ * how well it matches.
+ */
+export interface ISearchedBookRow extends IBookRow {
+    id: number;
+    relevance?: number;
+}
@@ -0,0 +1,64 @@
+import { IBookRow } from './book.model';
+
+/**
+ * The number of books and ratings in the library, and the rating counts summed over every book.
+ */
+export interface IRatingTotalsRow {
+    book_count: number;
+    rating_count: number;
+    // the average of every rating, null while there are none
+    rating_avg: number | null;
+    rating_1_star: number;
+    rating_2_star: number;
+    rating_3_star: number;
+    rating_4_star: number;
+    rating_5_star: number;
+}
+
+/**
+ * The number of books whose average rating is in a half star step.
+ */
+export interface IRatingStepRow {
+    from: number;
+    to: number;
+    books: number;
+}
+
+/**
+ * The best rated books published in a decade.
+ */
+export interface IDecadeBooksRow {
+    decade: number;
+    books: IBookRow[];
+}
+
+export interface IAuthorStatsRow {
+    id: number;
+    name: string;
+    book_count: number;
+    rating_count: number;
+    rating_avg: number | null;
+}
+
+export interface IPublicationYearsRow {
+    min: number;
+    max: number;
+    median: number;
+}
+
+export interface IDecadeCountRow {
+    decade: number;
+    books: number;
+}
+
+/**
+ * Everything /library/stats reports, as read from BOOKS.
+ */
+export interface IBookStatistics {
+    totals: IRatingTotalsRow;
+    averages: IRatingStepRow[];
+    decades: IDecadeBooksRow[];
+    authors: IAuthorStatsRow[];
+    years: IPublicationYearsRow;
+    yearsByDecade: IDecadeCountRow[];
+}
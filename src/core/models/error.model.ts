@@ -0,0 +1,91 @@
+/**
+ * The machine-readable codes of the errors the API answers with. Clients should rely on the
+ * code of an error rather than on the wording of its message.
+ */
+export type ErrorCode =
+    | 'BAD_REQUEST'
+    | 'VALIDATION_FAILED'
+    | 'MALFORMED_JSON'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'PRECONDITION_FAILED'
+    | 'UNSUPPORTED_MEDIA_TYPE'
+    | 'ALREADY_EXISTS'
+    | 'REFERENCE_NOT_FOUND'
+    | 'CONSTRAINT_VIOLATION'
+    | 'INVALID_VALUE'
+    | 'SERVICE_UNAVAILABLE'
+    | 'INTERNAL_ERROR';
+
+/**
+ * The body of every error response.
+ */
+export interface IErrorBody {
+    error: {
+        code: ErrorCode;
+        message: string;
+        // more about the error, e.g. every invalid field of a request, or null
+        details: unknown;
+        // the X-Request-Id of the response, to find the request in the logs
+        requestId: string;
+    };
+}
+
+/**
+ * An error that is answered with its status and code. Throw it from a handler wrapped with
+ * asyncHandler, or pass it to next, and the error handler sends it.
+ */
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        readonly code: ErrorCode,
+        message: string,
+        readonly details: unknown = null
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class BadRequestError extends ApiError {
+    constructor(message: string, details?: unknown) {
+        super(400, 'BAD_REQUEST', message, details);
+    }
+}
+
+export class ValidationError extends ApiError {
+    constructor(message: string, details?: unknown) {
+        super(400, 'VALIDATION_FAILED', message, details);
+    }
+}
+
+export class UnauthorizedError extends ApiError {
+    constructor(message: string) {
+        super(401, 'UNAUTHORIZED', message);
+    }
+}
+
+export class ForbiddenError extends ApiError {
+    constructor(message: string) {
+        super(403, 'FORBIDDEN', message);
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string) {
+        super(404, 'NOT_FOUND', message);
+    }
+}
+
+export class PreconditionFailedError extends ApiError {
+    constructor(message: string, details?: unknown) {
+        super(412, 'PRECONDITION_FAILED', message, details);
+    }
+}
+
+export class UnsupportedMediaTypeError extends ApiError {
+    constructor(message: string) {
+        super(415, 'UNSUPPORTED_MEDIA_TYPE', message);
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * An author or a series as sent back, with the number of books credited to it.
+ */
+export interface IFacetRow {
+    id: number;
+    name: string;
+    book_count: number;
+}
+
+/**
+ * An author as sent back, with the rating of their books weighted by how many ratings each
+ * book has.
+ */
+export interface IAuthorRow extends IFacetRow {
+    rating_count: number;
+    rating_avg: number | null;
+}
@@ -1,4 +1,159 @@
 import { IJwtRequest } from './JwtRequest.model';
-import { IUser } from './user.model';
+import { IUser, IAccountRow, ICredentialRow } from './user.model';
+import { Role, PERMISSIONS } from './role.model';
+import {
+    IRatingDistribution,
+    IBookRatings,
+    IBookImages,
+    IBookSeries,
+    IBook,
+    IBookRow,
+    IStoredBookRow,
+    IRecommendedBookRow,
+    STAR_COLUMNS,
+    BookField,
+    BOOK_FIELDS,
+} from './book.model';
+import {
+    IRatingTotalsRow,
+    IRatingStepRow,
+    IDecadeBooksRow,
+    IAuthorStatsRow,
+    IPublicationYearsRow,
+    IDecadeCountRow,
+    IBookStatistics,
+} from './bookStats.model';
+import {
+    BookSortColumn,
+    IBookSearchFilters,
+    IBookSort,
+    IBookSearch,
+    ISearchedBookRow,
+} from './bookSearch.model';
+import {
+    SortDirection,
+    ISort,
+    ICursor,
+    IPageRequest,
+    IPagination,
+} from './pagination.model';
+import { IMailMessage, IMailer } from './mail.model';
+import {
+    BOOK_COLUMNS,
+    IImportedBook,
+    IImportError,
+    IImportReport,
+} from './bookImport.model';
+import {
+    FieldCheck,
+    IField,
+    FieldSchema,
+    IRequestSchema,
+    RequestLocation,
+    RequestCheck,
+    ValidFields,
+    IValidRequest,
+    IValidationError,
+} from './validation.model';
+import {
+    ErrorCode,
+    IErrorBody,
+    ApiError,
+    BadRequestError,
+    ValidationError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    PreconditionFailedError,
+    UnsupportedMediaTypeError,
+} from './error.model';
+import { IMigration, IMigrationStatus } from './migration.model';
+import {
+    IShelfRow,
+    IShelfSummaryRow,
+    IShelfProgress,
+    IShelfBookRow,
+    IShelfWithBooksRow,
+} from './shelf.model';
+import {
+    IReviewRow,
+    IReportedReviewRow,
+    IModeratedReviewRow,
+} from './review.model';
+import { IFacetRow, IAuthorRow } from './facet.model';
+import { IRefreshTokenRow } from './session.model';
 
-export { IJwtRequest, IUser };
+export {
+    IJwtRequest,
+    IUser,
+    IAccountRow,
+    ICredentialRow,
+    Role,
+    PERMISSIONS,
+    IRatingDistribution,
+    IBookRatings,
+    IBookImages,
+    IBookSeries,
+    IBook,
+    IBookRow,
+    IStoredBookRow,
+    IRecommendedBookRow,
+    STAR_COLUMNS,
+    BookField,
+    BOOK_FIELDS,
+    IRatingTotalsRow,
+    IRatingStepRow,
+    IDecadeBooksRow,
+    IAuthorStatsRow,
+    IPublicationYearsRow,
+    IDecadeCountRow,
+    IBookStatistics,
+    BookSortColumn,
+    SortDirection,
+    IBookSearchFilters,
+    IBookSort,
+    IBookSearch,
+    ISearchedBookRow,
+    ISort,
+    ICursor,
+    IPageRequest,
+    IPagination,
+    IMailMessage,
+    IMailer,
+    BOOK_COLUMNS,
+    IImportedBook,
+    IImportError,
+    IImportReport,
+    FieldCheck,
+    IField,
+    FieldSchema,
+    IRequestSchema,
+    RequestLocation,
+    RequestCheck,
+    ValidFields,
+    IValidRequest,
+    IValidationError,
+    ErrorCode,
+    IErrorBody,
+    ApiError,
+    BadRequestError,
+    ValidationError,
+    UnauthorizedError,
+    ForbiddenError,
+    NotFoundError,
+    PreconditionFailedError,
+    UnsupportedMediaTypeError,
+    IMigration,
+    IMigrationStatus,
+    IShelfRow,
+    IShelfSummaryRow,
+    IShelfProgress,
+    IShelfBookRow,
+    IShelfWithBooksRow,
+    IReviewRow,
+    IReportedReviewRow,
+    IModeratedReviewRow,
+    IFacetRow,
+    IAuthorRow,
+    IRefreshTokenRow,
+};
@@ -0,0 +1,12 @@
+export interface IMailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Something that can deliver mail, such as an email service or the in memory outbox.
+ */
+export interface IMailer {
+    send(message: IMailMessage): Promise<void>;
+}
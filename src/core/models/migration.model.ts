@@ -0,0 +1,21 @@
+/**
+ * A numbered change to the schema, read from its up and down files in data/migrations,
+ * e.g. 003_authors.up.sql and 003_authors.down.sql.
+ */
+export interface IMigration {
+    version: number;
+    name: string;
+    // the paths of the SQL files that apply and undo the migration
+    upFile: string;
+    downFile: string;
+}
+
+/**
+ * Whether a migration has been applied to the database, as listed by migrate status.
+ */
+export interface IMigrationStatus {
+    version: number;
+    name: string;
+    // null while the migration is pending
+    appliedAt: Date | null;
+}
@@ -0,0 +1,26 @@
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface ISort {
+    column: string;
+    direction: SortDirection;
+}
+
+export interface ICursor {
+    sort: ISort;
+    value: string | number | null;
+    id: number;
+    before: boolean;
+}
+
+export interface IPageRequest {
+    limit: number;
+    cursor?: ICursor;
+    includeTotal: boolean;
+}
+
+export interface IPagination {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    estimatedTotal?: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * A review as sent back.
+ */
+export interface IReviewRow {
+    id: number;
+    isbn13: string;
+    username: string;
+    body: string;
+    helpful_count: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * A review in the moderation queue, with the reports about it.
+ */
+export interface IReportedReviewRow extends IReviewRow {
+    report_count: number;
+    reasons: string[];
+}
+
+/**
+ * A review with its moderation details, only sent back to moderators.
+ */
+export interface IModeratedReviewRow extends IReviewRow {
+    is_hidden: boolean;
+    hidden_at: Date | null;
+    hidden_by: number | null;
+    hidden_reason: string | null;
+    unhidden_at: Date | null;
+    unhidden_by: number | null;
+}
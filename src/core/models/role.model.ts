@@ -0,0 +1,48 @@
+/**
+ * The Account_Role values stored for an account. A lower number is a more privileged role.
+ */
+export enum Role {
+    Admin = 1,
+    Moderator = 2,
+    Editor = 3,
+    Contributor = 4,
+    Member = 5,
+}
+
+/**
+ * The roles allowed to perform each protected action. Reading the library needs no account.
+ *
+ * | action                     | Admin | Moderator | Editor | Contributor | Member |
+ * | -------------------------- | ----- | --------- | ------ | ----------- | ------ |
+ * | read books                 |   x   |     x     |   x    |      x      |   x    |
+ * | rate a book                |   x   |     x     |   x    |      x      |   x    |
+ * | write or react to reviews  |   x   |     x     |   x    |      x      |   x    |
+ * | hide reviews               |   x   |     x     |        |             |        |
+ * | add a book                 |   x   |     x     |   x    |      x      |        |
+ * | edit a book or its ratings |   x   |     x     |   x    |             |        |
+ * | delete books               |   x   |           |        |             |        |
+ * | import books               |   x   |           |        |             |        |
+ * | assign roles               |   x   |           |        |             |        |
+ */
+export const PERMISSIONS = {
+    rateBook: [
+        Role.Admin,
+        Role.Moderator,
+        Role.Editor,
+        Role.Contributor,
+        Role.Member,
+    ],
+    writeReview: [
+        Role.Admin,
+        Role.Moderator,
+        Role.Editor,
+        Role.Contributor,
+        Role.Member,
+    ],
+    moderateReviews: [Role.Admin, Role.Moderator],
+    addBook: [Role.Admin, Role.Moderator, Role.Editor, Role.Contributor],
+    editBook: [Role.Admin, Role.Moderator, Role.Editor],
+    deleteBook: [Role.Admin],
+    importBooks: [Role.Admin],
+    assignRoles: [Role.Admin],
+};
@@ -0,0 +1,13 @@
+/**
+ * A refresh token, with the session it belongs to and the account signed in to the session.
+ */
+export interface IRefreshTokenRow {
+    token_id: number;
+    used_at: Date | null;
+    expired: boolean;
+    session_id: number;
+    revoked_at: Date | null;
+    account_id: number;
+    firstname: string;
+    account_role: number;
+}
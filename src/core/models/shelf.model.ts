@@ -0,0 +1,57 @@
+import { IBookRow } from './book.model';
+
+/**
+ * A shelf as read from shelves.
+ */
+export interface IShelfRow {
+    id: number;
+    account_id: number;
+    name: string;
+    is_default: boolean;
+    is_public: boolean;
+}
+
+/**
+ * A shelf as sent back, with the number of books on it.
+ */
+export interface IShelfSummaryRow {
+    id: number;
+    name: string;
+    is_default: boolean;
+    is_public: boolean;
+    created_at: Date;
+    book_count: number;
+}
+
+/**
+ * The progress a reader records for a book on a shelf. null clears a value.
+ */
+export interface IShelfProgress {
+    current_page?: number | null;
+    progress_percent?: number | null;
+    started_on?: string | null;
+    finished_on?: string | null;
+}
+
+/**
+ * A book on a shelf, as read from BOOKS with bookFunctions.columns, with the progress recorded
+ * for it.
+ */
+export interface IShelfBookRow extends IBookRow {
+    added_at: Date;
+    current_page: number | null;
+    progress_percent: number | null;
+    started_on: string | null;
+    finished_on: string | null;
+}
+
+/**
+ * A shelf together with its books, the most recently added first.
+ */
+export interface IShelfWithBooksRow {
+    id: number;
+    name: string;
+    is_default: boolean;
+    is_public: boolean;
+    books: IShelfBookRow[];
+}
@@ -1,8 +1,35 @@
+import { Role } from './role.model';
+
 export interface IUser {
     id: number;
     email: string;
     firstname: string;
-    lastname: string | null;
-    username: string | null;
-    phone: number | null;
+    lastname: string;
+    username: string;
+    phone: string;
+    role: Role;
+}
+
+/**
+ * An account as read from Account.
+ */
+export interface IAccountRow {
+    account_id: number;
+    firstname: string;
+    lastname: string;
+    username: string;
+    email: string;
+    phone: string;
+    account_role: Role;
+}
+
+/**
+ * The password of an account as read from Account_Credential.
+ */
+export interface ICredentialRow {
+    credential_id: number;
+    account_id: number;
+    salted_hash: string;
+    salt: string;
+    hash_algorithm: string;
 }
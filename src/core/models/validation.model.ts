@@ -0,0 +1,63 @@
+import { Request } from 'express';
+
+/**
+ * The outcome of checking one value of a request: the value converted to what the route works
+ * with, or why it was rejected. validate words the message itself when there is none.
+ */
+export type FieldCheck<T> =
+    { valid: true; value: T } | { valid: false; message?: string };
+
+/**
+ * The rule for one field of a request.
+ */
+export interface IField<T> {
+    check: (value: unknown) => FieldCheck<T>;
+    // a field that may be left out gets the default value, if there is one
+    optional: boolean;
+    defaultValue?: T;
+    // the name of the field in its message, e.g. "book title", when not the field itself
+    label?: string;
+    // the message of an invalid value, instead of the one validate would word
+    message?: string;
+}
+
+export type FieldSchema = Record<string, IField<unknown>>;
+
+export type RequestLocation = 'params' | 'query' | 'body';
+
+/**
+ * A check of fields against each other, e.g. that a range does not end before it starts. It
+ * gets the converted values of the fields and returns what is wrong, if anything.
+ */
+export type RequestCheck = (
+    valid: Record<RequestLocation, Record<string, unknown>>
+) => IValidationError | undefined;
+
+/**
+ * The rules for the route parameters, query string and body of a request.
+ */
+export interface IRequestSchema {
+    params?: FieldSchema;
+    query?: FieldSchema;
+    body?: FieldSchema;
+    // run once every field is valid on its own
+    checks?: RequestCheck[];
+}
+
+// The values of the fields of a schema, each converted by its rule
+export type ValidFields<F> = F extends FieldSchema
+    ? { [K in keyof F]: F[K] extends IField<infer T> ? T : never }
+    : Record<string, never>;
+
+export interface IValidRequest<
+    S extends IRequestSchema = IRequestSchema,
+> extends Request {
+    // set by validate, only has the fields of the schema
+    valid: { [L in RequestLocation]: ValidFields<S[L]> };
+}
+
+export interface IValidationError {
+    location: RequestLocation;
+    field: string;
+    message: string;
+}
@@ -0,0 +1,239 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { IPasswordHash } from '../utilities/credentialingUtils';
+import { IAccountRow, ICredentialRow, IUser } from '../models/user.model';
+import { Role } from '../models/role.model';
+
+// The columns of Account that make up an IUser
+const USER_COLUMNS = `account_id AS id, email, firstname, lastname, username, phone, account_role AS role`;
+
+// The columns of Account a user may change on their profile
+type ProfileField = 'firstname' | 'lastname' | 'username' | 'email' | 'phone';
+
+/**
+ * Adds an account. A trigger gives it its default shelves.
+ *
+ * @param {Omit<IAccountRow, 'account_id'>} account the columns of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the id of the account
+ */
+const create = async (
+    account: Omit<IAccountRow, 'account_id'>,
+    db: Queryable = pool
+): Promise<number> => {
+    const { rows } = await db.query(
+        'INSERT INTO Account(firstname, lastname, username, email, phone, account_role) VALUES ($1, $2, $3, $4, $5, $6) RETURNING account_id',
+        [
+            account.firstname,
+            account.lastname,
+            account.username,
+            account.email,
+            account.phone,
+            account.account_role,
+        ]
+    );
+    return rows[0].account_id;
+};
+
+/**
+ * @param {string} email the email of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the account, or undefined when there is none with the email
+ */
+const findByEmail = async (
+    email: string,
+    db: Queryable = pool
+): Promise<IAccountRow | undefined> => {
+    const { rows } = await db.query('SELECT * FROM Account WHERE email = $1', [
+        email,
+    ]);
+    return rows[0];
+};
+
+/**
+ * Finds an account along with its password, to sign in with.
+ *
+ * @param {string} email the email of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns a row for each password of the account, none when there is no account with the email
+ */
+const findCredentialsByEmail = async (
+    email: string,
+    db: Queryable = pool
+): Promise<(IAccountRow & ICredentialRow)[]> => {
+    const { rows } = await db.query(
+        `SELECT Account.*, Account_Credential.credential_id, Account_Credential.salted_hash,
+            Account_Credential.salt, Account_Credential.hash_algorithm
+         FROM Account_Credential
+         INNER JOIN Account ON Account_Credential.account_id = Account.account_id
+         WHERE Account.email = $1`,
+        [email]
+    );
+    return rows;
+};
+
+/**
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the passwords of the account
+ */
+const findCredentials = async (
+    accountId: number,
+    db: Queryable = pool
+): Promise<ICredentialRow[]> => {
+    const { rows } = await db.query(
+        'SELECT * FROM Account_Credential WHERE account_id = $1',
+        [accountId]
+    );
+    return rows;
+};
+
+/**
+ * Stores the password of a new account.
+ *
+ * @param {number} accountId the id of the account
+ * @param {IPasswordHash} hash the hash of the password, from credentialingFunctions.hashPassword
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const createCredential = async (
+    accountId: number,
+    hash: IPasswordHash,
+    db: Queryable = pool
+) => {
+    await db.query(
+        'INSERT INTO Account_Credential(account_id, salted_hash, salt, hash_algorithm) VALUES ($1, $2, $3, $4)',
+        [accountId, hash.saltedHash, hash.salt, hash.algorithm]
+    );
+};
+
+/**
+ * Replaces a password, as when it is changed or its hash is upgraded.
+ *
+ * @param {number} credentialId the id of the stored password
+ * @param {IPasswordHash} hash the hash of the new password
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const updateCredential = async (
+    credentialId: number,
+    hash: IPasswordHash,
+    db: Queryable = pool
+) => {
+    await db.query(
+        'UPDATE Account_Credential SET salted_hash = $1, salt = $2, hash_algorithm = $3 WHERE credential_id = $4',
+        [hash.saltedHash, hash.salt, hash.algorithm, credentialId]
+    );
+};
+
+/**
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the user, or undefined when there is no account with the id
+ */
+const findUser = async (
+    accountId: number,
+    db: Queryable = pool
+): Promise<IUser | undefined> => {
+    const { rows } = await db.query<IUser>(
+        `SELECT ${USER_COLUMNS} FROM Account WHERE account_id = $1`,
+        [accountId]
+    );
+    return rows[0];
+};
+
+/**
+ * Changes some of the profile of an account.
+ *
+ * @param {number} accountId the id of the account
+ * @param {Partial<Record<ProfileField, string>>} changes the new values, at least one
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the user as it is now, or undefined when there is no account with the id
+ */
+const updateProfile = async (
+    accountId: number,
+    changes: Partial<Record<ProfileField, string>>,
+    db: Queryable = pool
+): Promise<IUser | undefined> => {
+    // the columns come from a fixed list, so they are safe to interpolate
+    const fields = Object.keys(changes) as ProfileField[];
+    const { rows } = await db.query<IUser>(
+        `UPDATE Account
+            SET ${fields.map((field, index) => `${field} = $${index + 2}`).join(', ')}
+            WHERE account_id = $1
+            RETURNING ${USER_COLUMNS}`,
+        [accountId, ...fields.map((field) => changes[field])]
+    );
+    return rows[0];
+};
+
+/**
+ * @param {number} accountId the id of the account
+ * @param {Role} role the new role of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the user as it is now, or undefined when there is no account with the id
+ */
+const updateRole = async (
+    accountId: number,
+    role: Role,
+    db: Queryable = pool
+): Promise<IUser | undefined> => {
+    const { rows } = await db.query<IUser>(
+        `UPDATE Account SET account_role = $2 WHERE account_id = $1 RETURNING ${USER_COLUMNS}`,
+        [accountId, role]
+    );
+    return rows[0];
+};
+
+/**
+ * Deletes an account. Its passwords are deleted with it, its sessions by cascade.
+ *
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the deleted user, or undefined when there was no account with the id
+ */
+const remove = async (
+    accountId: number,
+    db: Queryable = pool
+): Promise<IUser | undefined> => {
+    const { rows } = await db.query<IUser>(
+        `WITH credential AS (
+            DELETE FROM Account_Credential WHERE account_id = $1
+         )
+         DELETE FROM Account WHERE account_id = $1
+         RETURNING ${USER_COLUMNS}`,
+        [accountId]
+    );
+    return rows[0];
+};
+
+/**
+ * Replaces the password of an account, as when it is reset.
+ *
+ * @param {number} accountId the id of the account
+ * @param {IPasswordHash} hash the hash of the new password
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const updateCredentialOf = async (
+    accountId: number,
+    hash: IPasswordHash,
+    db: Queryable = pool
+) => {
+    await db.query(
+        'UPDATE Account_Credential SET salted_hash = $1, salt = $2, hash_algorithm = $3 WHERE account_id = $4',
+        [hash.saltedHash, hash.salt, hash.algorithm, accountId]
+    );
+};
+
+const accountRepository = {
+    create,
+    findByEmail,
+    findUser,
+    updateProfile,
+    updateRole,
+    remove,
+    findCredentialsByEmail,
+    findCredentials,
+    createCredential,
+    updateCredential,
+    updateCredentialOf,
+};
+
+export { accountRepository };
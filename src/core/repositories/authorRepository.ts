@@ -0,0 +1,20 @@
+import { createFacetRepository } from './facetRepository';
+import { IAuthorRow } from '../models/facet.model';
+
+// One row per author with the number of books and the rating of those books, weighted by
+// how many ratings each book has. Books are listed oldest first.
+const authorRepository = createFacetRepository<IAuthorRow>({
+    table: 'authors',
+    summary: `SELECT authors.id, authors.name,
+                count(BOOKS.id)::int AS book_count,
+                coalesce(sum(BOOKS.rating_count), 0)::int AS rating_count,
+                round((sum(BOOKS.rating_avg * BOOKS.rating_count) / nullif(sum(BOOKS.rating_count), 0))::numeric, 2)::float AS rating_avg
+              FROM authors
+              LEFT JOIN book_authors ON book_authors.author_id = authors.id
+              LEFT JOIN BOOKS ON BOOKS.id = book_authors.book_id`,
+    books: `JOIN book_authors ON book_authors.book_id = BOOKS.id
+            WHERE book_authors.author_id = $1`,
+    booksOrder: 'publication_year, title',
+});
+
+export { authorRepository };
@@ -0,0 +1,496 @@
+import { Pool } from 'pg';
+
+import { pool, Queryable, withTransaction } from '../utilities/sql_conn';
+import { bookFunctions } from '../utilities/bookUtils';
+import { bookSearchFunctions } from '../utilities/bookSearchUtils';
+import { paginationFunctions } from '../utilities/paginationUtils';
+import { IBookRow, IStoredBookRow, STAR_COLUMNS } from '../models/book.model';
+import { IBookSearch, ISearchedBookRow } from '../models/bookSearch.model';
+import { IBookStatistics } from '../models/bookStats.model';
+import { BOOK_COLUMNS, IImportedBook } from '../models/bookImport.model';
+import { IPageRequest } from '../models/pagination.model';
+
+// The number of top books listed for each decade and of authors listed in the stats
+const STATS_TOP_BOOKS = 5;
+const STATS_TOP_AUTHORS = 20;
+
+// The number of books read from the cursor of an export at a time
+const FETCH_SIZE = 500;
+
+// The decade of a book's publication year, e.g. 1990 for 1997
+const DECADE = '(floor(publication_year / 10.0) * 10)::int';
+
+const STATS_QUERIES = {
+    totals: `SELECT count(*)::int AS book_count,
+                coalesce(sum(rating_count), 0)::float AS rating_count,
+                round((sum(rating_avg * rating_count) / nullif(sum(rating_count), 0))::numeric, 2)::float AS rating_avg,
+                ${STAR_COLUMNS.map((column) => `coalesce(sum(${column}), 0)::float AS ${column}`).join(', ')}
+            FROM BOOKS`,
+    // rating_avg in steps of half a star, 5 stars counts towards the last step
+    averages: `SELECT step::float AS "from", (step + 0.5)::float AS "to", count(*)::int AS books
+            FROM (SELECT least(floor(rating_avg * 2) / 2, 4.5) AS step FROM BOOKS WHERE rating_avg IS NOT NULL) AS steps
+            GROUP BY step
+            ORDER BY step`,
+    // the books are only read in full once they made the top of their decade
+    decades: `SELECT decade, json_agg(to_json(top) ORDER BY rank) AS books
+            FROM (
+                SELECT *, row_number() OVER (PARTITION BY decade ORDER BY weighted_rating DESC, id) AS rank
+                FROM (
+                    SELECT id, ${DECADE} AS decade, ${bookSearchFunctions.weightedRating('BOOKS')} AS weighted_rating
+                    FROM BOOKS
+                    WHERE publication_year IS NOT NULL
+                ) AS books
+            ) AS ranked
+            CROSS JOIN LATERAL (SELECT ${bookFunctions.columns('BOOKS')} FROM BOOKS WHERE BOOKS.id = ranked.id) AS top
+            WHERE rank <= ${STATS_TOP_BOOKS}
+            GROUP BY decade
+            ORDER BY decade`,
+    authors: `SELECT authors.id, authors.name,
+                count(BOOKS.id)::int AS book_count,
+                coalesce(sum(BOOKS.rating_count), 0)::int AS rating_count,
+                round((sum(BOOKS.rating_avg * BOOKS.rating_count) / nullif(sum(BOOKS.rating_count), 0))::numeric, 2)::float AS rating_avg
+            FROM authors
+            JOIN book_authors ON book_authors.author_id = authors.id
+            JOIN BOOKS ON BOOKS.id = book_authors.book_id
+            GROUP BY authors.id
+            ORDER BY rating_count DESC, authors.name
+            LIMIT ${STATS_TOP_AUTHORS}`,
+    years: `SELECT min(publication_year) AS min, max(publication_year) AS max,
+                percentile_disc(0.5) WITHIN GROUP (ORDER BY publication_year) AS median
+            FROM BOOKS`,
+    yearsByDecade: `SELECT ${DECADE} AS decade, count(*)::int AS books
+            FROM BOOKS
+            WHERE publication_year IS NOT NULL
+            GROUP BY decade
+            ORDER BY decade`,
+};
+
+/**
+ * Finds a page of the books matching a search, plus one more to tell whether there is a next
+ * page, for paginationFunctions.toPage.
+ *
+ * @param {IBookSearch} search the filters and sort order
+ * @param {IPageRequest} page the page asked for
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the books, with their relevance when searching by text
+ */
+const search = async (
+    search: IBookSearch,
+    page: IPageRequest,
+    db: Queryable = pool
+): Promise<ISearchedBookRow[]> => {
+    const where = bookSearchFunctions.buildSearchWhere(search.filters);
+    const keyset = paginationFunctions.buildKeyset(
+        search.sort,
+        page,
+        where.values.length + 1
+    );
+    const relevance = where.relevance
+        ? `, ${where.relevance} AS relevance`
+        : '';
+    // the keyset applies to the outer query so it can also page by the computed relevance.
+    // the sort column and direction come from a fixed list, so they are safe to interpolate
+    const theQuery = `SELECT * FROM (
+                            SELECT id, ${bookFunctions.columns('BOOKS')}${relevance}
+                            FROM BOOKS
+                            ${bookSearchFunctions.toWhereClause(where.conditions)}
+                        ) AS matches
+                        ${bookSearchFunctions.toWhereClause(keyset.conditions)}
+                        ${keyset.orderBy}
+                        ${keyset.limit}`;
+
+    const { rows } = await db.query(theQuery, [
+        ...where.values,
+        ...keyset.values,
+    ]);
+    return rows;
+};
+
+/**
+ * Estimates how many books match a search by asking the query planner. This is an estimate,
+ * but unlike count(*) it does not have to scan the table.
+ *
+ * @param {IBookSearch} search the filters of the search
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the estimated number of books
+ */
+const estimateTotal = async (
+    search: IBookSearch,
+    db: Queryable = pool
+): Promise<number> => {
+    const where = bookSearchFunctions.buildSearchWhere(search.filters);
+    const { rows } = await db.query(
+        `EXPLAIN (FORMAT JSON) SELECT 1 FROM BOOKS ${bookSearchFunctions.toWhereClause(where.conditions)}`,
+        where.values
+    );
+    return rows[0]['QUERY PLAN'][0]['Plan']['Plan Rows'];
+};
+
+/**
+ * Reads the books matching a search through a server-side cursor, so only one batch of books
+ * is held in memory at a time. The books are read in the order of the search and, like an
+ * import, only have the columns of BOOKS.
+ *
+ * @param {IBookSearch} search the filters and sort order of the search
+ * @param {(books: Record<string, unknown>[]) => Promise<boolean>} onBatch called with each
+ * batch of books, resolves to false to stop reading, for instance when the client has gone away
+ * @param {Pool} db the pool to read the books from, a cursor needs a transaction of its own
+ * @returns true when every book was read, false when onBatch stopped the reading
+ */
+const streamBooks = (
+    search: IBookSearch,
+    onBatch: (books: Record<string, unknown>[]) => Promise<boolean>,
+    db: Pool = pool
+): Promise<boolean> => {
+    const where = bookSearchFunctions.buildSearchWhere(search.filters);
+    const relevance = where.relevance
+        ? `, ${where.relevance} AS relevance`
+        : '';
+    const weightedRating =
+        search.sort.column === 'weighted_rating'
+            ? `, ${bookSearchFunctions.weightedRating('BOOKS')} AS weighted_rating`
+            : '';
+    // the sort column and direction come from a fixed list, so they are safe to interpolate
+    const { column, direction } = search.sort;
+    // isbn13 is stored as a number, which drops the leading zeros of an isbn13 like 0635517080452
+    const columns = BOOK_COLUMNS.map((name) =>
+        name === 'isbn13' ? `lpad(isbn13::text, 13, '0') AS isbn13` : name
+    );
+    const theQuery = `SELECT ${columns.join(', ')}
+                      FROM (
+                          SELECT *${weightedRating}${relevance}
+                          FROM BOOKS
+                          ${bookSearchFunctions.toWhereClause(where.conditions)}
+                      ) AS matches
+                      ORDER BY ${column} IS NULL, ${column} ${direction}, id ${direction}`;
+
+    // a cursor only lives as long as its transaction
+    return withTransaction(async (client) => {
+        await client.query('SET TRANSACTION READ ONLY');
+        await client.query(
+            `DECLARE book_export NO SCROLL CURSOR FOR ${theQuery}`,
+            where.values
+        );
+        let books: Record<string, unknown>[];
+        let reading = true;
+        do {
+            ({ rows: books } = await client.query(
+                `FETCH ${FETCH_SIZE} FROM book_export`
+            ));
+            if (books.length > 0) reading = await onBatch(books);
+        } while (reading && books.length == FETCH_SIZE);
+        return reading;
+    }, db);
+};
+
+/**
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the book, or undefined when there is none with the isbn13
+ */
+const findByIsbn13 = async (
+    isbn13: string,
+    db: Queryable = pool
+): Promise<IStoredBookRow | undefined> => {
+    const { rows } = await db.query(
+        `SELECT id, ${bookFunctions.columns('BOOKS')}, version FROM BOOKS WHERE isbn13 = $1`,
+        [isbn13]
+    );
+    return rows[0];
+};
+
+/**
+ * Finds the isbn13 under which the library keeps a book. Most books imported from Goodreads
+ * lost the last digit of their isbn13, so when no book has the isbn13 itself, the one book
+ * whose isbn13 has the same first 12 digits is taken.
+ *
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the stored isbn13, or undefined when no book, or more than one, matches
+ */
+const matchIsbn13 = async (
+    isbn13: string,
+    db: Queryable = pool
+): Promise<string | undefined> => {
+    const { rows } = await db.query<{ isbn13: string }>(
+        `SELECT isbn13::text FROM BOOKS
+            WHERE isbn13 BETWEEN $1::bigint / 10 * 10 AND $1::bigint / 10 * 10 + 9
+            ORDER BY isbn13 = $1::bigint DESC`,
+        [isbn13]
+    );
+    if (rows.length == 1 || rows[0]?.isbn13 === isbn13) {
+        return rows[0].isbn13;
+    }
+    return undefined;
+};
+
+/**
+ * Finds which of some isbn13s the library has a book with, without falling back on the first
+ * 12 digits as matchIsbn13 does.
+ *
+ * @param {string[]} isbn13s the isbn13s to look for
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the isbn13s the library has a book with, zero-padded to 13 digits
+ */
+const findExistingIsbn13s = async (
+    isbn13s: string[],
+    db: Queryable = pool
+): Promise<string[]> => {
+    const { rows } = await db.query<{ isbn13: string }>(
+        `SELECT lpad(isbn13::text, 13, '0') AS isbn13
+         FROM BOOKS
+         WHERE isbn13 = ANY($1::BIGINT[])`,
+        [isbn13s]
+    );
+    return rows.map((row) => row.isbn13);
+};
+
+/**
+ * @param {string} title the exact title of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the book, or undefined when there is none with the title
+ */
+const findByTitle = async (
+    title: string,
+    db: Queryable = pool
+): Promise<IBookRow | undefined> => {
+    const { rows } = await db.query(
+        `SELECT ${bookFunctions.columns('BOOKS')} FROM BOOKS WHERE title = $1`,
+        [title]
+    );
+    return rows[0];
+};
+
+/**
+ * Adds a book. Its authors and series are filled in by triggers.
+ *
+ * @param {IImportedBook} book the columns of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the book as stored
+ */
+const create = async (
+    book: IImportedBook,
+    db: Queryable = pool
+): Promise<IStoredBookRow> => {
+    await db.query(
+        `INSERT INTO BOOKS(isbn13, authors, publication_year, title, rating_avg, rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star, rating_5_star, image_url, image_small_url)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+            book.isbn13,
+            book.authors,
+            book.publication_year,
+            book.title,
+            book.rating_avg,
+            book.rating_count,
+            book.rating_1_star,
+            book.rating_2_star,
+            book.rating_3_star,
+            book.rating_4_star,
+            book.rating_5_star,
+            book.image_url,
+            book.image_small_url,
+        ]
+    );
+    return findByIsbn13(book.isbn13, db);
+};
+
+/**
+ * Changes some columns of a book, unless it is no longer at one of the versions given. The
+ * version is checked in the update itself, so no one can change the book in between.
+ *
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Partial<IImportedBook>} changes the new values of the columns to change
+ * @param {number[] | null} versions the versions the book may be at, null for any
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns whether the book was changed, and the book as it is now, undefined when there is none
+ */
+const update = async (
+    isbn13: string,
+    changes: Partial<IImportedBook>,
+    versions: number[] | null,
+    db: Queryable = pool
+): Promise<{ updated: boolean; book: IStoredBookRow | undefined }> => {
+    const columns = Object.keys(changes);
+    const values: unknown[] = [
+        isbn13,
+        ...columns.map((column) => changes[column]),
+    ];
+    if (versions !== null) values.push(versions);
+    // the columns come from the schema of the route, so they are safe to interpolate
+    const theQuery = `UPDATE BOOKS
+                    SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+                    WHERE isbn13 = $1 ${versions !== null ? `AND version = ANY($${values.length})` : ''}`;
+
+    const result = await db.query(theQuery, values);
+    return {
+        updated: result.rowCount > 0,
+        book: await findByIsbn13(isbn13, db),
+    };
+};
+
+/**
+ * Adds or updates books by isbn13 with a single statement. The rating columns a book leaves
+ * out keep their values on update, and a book that would not change is not updated at all.
+ *
+ * @param {IImportedBook[]} books the books, with different isbn13s
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the number of books added and updated, the other books were left as they were
+ */
+const upsert = async (
+    books: IImportedBook[],
+    db: Queryable = pool
+): Promise<{ inserted: number; updated: number }> => {
+    const rows = books.map(
+        (book, index) =>
+            `(${BOOK_COLUMNS.map((column, offset) => `$${index * BOOK_COLUMNS.length + offset + 1}`).join(', ')})`
+    );
+    const updated = BOOK_COLUMNS.filter((column) => column !== 'isbn13');
+    const newValues = updated.map((column) =>
+        column.startsWith('rating_')
+            ? `coalesce(EXCLUDED.${column}, BOOKS.${column})`
+            : `EXCLUDED.${column}`
+    );
+    const result = await db.query<{ inserted: boolean }>(
+        `INSERT INTO BOOKS(${BOOK_COLUMNS.join(', ')})
+         VALUES ${rows.join(', ')}
+         ON CONFLICT (isbn13) DO UPDATE
+         SET ${updated.map((column, index) => `${column} = ${newValues[index]}`).join(', ')}
+         WHERE (${updated.map((column) => `BOOKS.${column}`).join(', ')})
+             IS DISTINCT FROM (${newValues.join(', ')})
+         RETURNING xmax = 0 AS inserted`,
+        books.flatMap((book) =>
+            BOOK_COLUMNS.map((column) => book[column] ?? null)
+        )
+    );
+    const inserted = result.rows.filter((row) => row.inserted).length;
+    return { inserted, updated: result.rowCount - inserted };
+};
+
+/**
+ * Sets some of the rating counts of a book, recomputing its rating count and average from
+ * them and its other counts.
+ *
+ * @param {string} title the exact title of the book
+ * @param {Partial<IBookRow>} counts the new counts, by the columns in STAR_COLUMNS
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const updateRatings = async (
+    title: string,
+    counts: Partial<IBookRow>,
+    db: Queryable = pool
+) => {
+    // Each star count is either the given one or the current one
+    const values: unknown[] = [title];
+    const starCounts = STAR_COLUMNS.map((column) => {
+        if (counts[column] == null) return column;
+        values.push(counts[column]);
+        return `$${values.length}::int`;
+    });
+    const ratingCount = starCounts.join(' + ');
+    const ratingSum = starCounts
+        .map((count, index) => `${index + 1} * ${count}`)
+        .join(' + ');
+
+    const updateQuery = `
+            UPDATE Books
+            SET ${STAR_COLUMNS.map((column, index) => `${column} = ${starCounts[index]}`).join(', ')},
+                rating_count = ${ratingCount},
+                rating_avg = round((${ratingSum})::numeric / nullif(${ratingCount}, 0), 2)::float
+            WHERE title = $1`;
+
+    await db.query(updateQuery, values);
+};
+
+/**
+ * Deletes the book with an isbn13.
+ *
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the deleted books, as they were
+ */
+const deleteByIsbn13 = async (
+    isbn13: string,
+    db: Queryable = pool
+): Promise<IBookRow[]> => {
+    // the rest of the statement still sees the authors and series of the deleted books
+    const { rows } = await db.query(
+        `WITH deleted AS (DELETE FROM BOOKS WHERE isbn13 = $1 RETURNING *)
+         SELECT ${bookFunctions.columns('deleted')} FROM deleted`,
+        [isbn13]
+    );
+    return rows;
+};
+
+/**
+ * Deletes every book an author is credited on, including co-authored books.
+ *
+ * @param {string} author the name of the author, in any case
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the deleted books, as they were
+ */
+const deleteByAuthor = async (
+    author: string,
+    db: Queryable = pool
+): Promise<IBookRow[]> => {
+    const { rows } = await db.query(
+        `WITH deleted AS (
+            DELETE FROM BOOKS
+            WHERE id IN (
+                SELECT book_authors.book_id FROM book_authors
+                JOIN authors ON authors.id = book_authors.author_id
+                WHERE lower(authors.name) = lower($1)
+            )
+            RETURNING *
+         )
+         SELECT ${bookFunctions.columns('deleted')} FROM deleted`,
+        [author]
+    );
+    return rows;
+};
+
+/**
+ * Reads the statistics of the whole library.
+ *
+ * @returns the statistics
+ */
+const statistics = async (): Promise<IBookStatistics> => {
+    // the queries run side by side on connections of the pool
+    const [totals, averages, decades, authors, years, yearsByDecade] =
+        await Promise.all(
+            [
+                STATS_QUERIES.totals,
+                STATS_QUERIES.averages,
+                STATS_QUERIES.decades,
+                STATS_QUERIES.authors,
+                STATS_QUERIES.years,
+                STATS_QUERIES.yearsByDecade,
+            ].map((theQuery) => pool.query(theQuery))
+        );
+    return {
+        totals: totals.rows[0],
+        averages: averages.rows,
+        decades: decades.rows,
+        authors: authors.rows,
+        years: years.rows[0],
+        yearsByDecade: yearsByDecade.rows,
+    };
+};
+
+const bookRepository = {
+    search,
+    estimateTotal,
+    streamBooks,
+    findByIsbn13,
+    matchIsbn13,
+    findExistingIsbn13s,
+    findByTitle,
+    create,
+    update,
+    upsert,
+    updateRatings,
+    deleteByIsbn13,
+    deleteByAuthor,
+    statistics,
+};
+
+export { bookRepository };
@@ -0,0 +1,113 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { bookFunctions } from '../utilities/bookUtils';
+import { bookSearchFunctions } from '../utilities/bookSearchUtils';
+import { paginationFunctions } from '../utilities/paginationUtils';
+import { IBookRow } from '../models/book.model';
+import { IFacetRow } from '../models/facet.model';
+import { IPageRequest, ISort } from '../models/pagination.model';
+
+/**
+ * How the books are grouped into a facet, such as authors or series.
+ */
+interface IFacet {
+    // the table of the facet, with the columns id and name
+    table: string;
+    // selects the facet with the aggregates of its books, to be followed by WHERE and GROUP BY
+    summary: string;
+    // narrows BOOKS down to the books of the row with the id $1
+    books: string;
+    // the order of the books of the facet
+    booksOrder: string;
+}
+
+/**
+ * Creates the queries of a facet the books are browsed by.
+ *
+ * @param {IFacet} facet how the books are grouped into the facet
+ * @returns the repository of the facet
+ */
+const createFacetRepository = <T extends IFacetRow>(facet: IFacet) => {
+    /**
+     * Finds a page of the facet, plus one more to tell whether there is a next page, for
+     * paginationFunctions.toPage.
+     *
+     * @param {string | undefined} name a case-insensitive substring of the name, undefined for all
+     * @param {ISort} sort the sort order
+     * @param {IPageRequest} page the page asked for
+     * @param {Queryable} db the pool, or the client of a transaction
+     * @returns the rows of the page
+     */
+    const findPage = async (
+        name: string | undefined,
+        sort: ISort,
+        page: IPageRequest,
+        db: Queryable = pool
+    ): Promise<T[]> => {
+        const values =
+            name === undefined ? [] : [bookSearchFunctions.escapeLike(name)];
+        const keyset = paginationFunctions.buildKeyset(
+            sort,
+            page,
+            values.length + 1
+        );
+        const { rows } = await db.query(
+            `SELECT * FROM (
+                ${facet.summary}
+                ${name === undefined ? '' : `WHERE ${facet.table}.name ILIKE '%' || $1 || '%'`}
+                GROUP BY ${facet.table}.id
+             ) AS summaries
+             ${bookSearchFunctions.toWhereClause(keyset.conditions)}
+             ${keyset.orderBy}
+             ${keyset.limit}`,
+            [...values, ...keyset.values]
+        );
+        return rows;
+    };
+
+    /**
+     * @param {number} id the id of the row of the facet
+     * @param {Queryable} db the pool, or the client of a transaction
+     * @returns the row with the aggregates of its books, or undefined when there is none with the id
+     */
+    const findById = async (
+        id: number,
+        db: Queryable = pool
+    ): Promise<T | undefined> => {
+        const { rows } = await db.query(
+            `${facet.summary} WHERE ${facet.table}.id = $1 GROUP BY ${facet.table}.id`,
+            [id]
+        );
+        return rows[0];
+    };
+
+    /**
+     * @param {number} id the id of the row of the facet
+     * @param {Queryable} db the pool, or the client of a transaction
+     * @returns the books of the row, empty when there are none or there is no such row
+     */
+    const findBooks = async (
+        id: number,
+        db: Queryable = pool
+    ): Promise<IBookRow[]> => {
+        const { rows } = await db.query(
+            `SELECT ${bookFunctions.columns('BOOKS')}
+             FROM BOOKS
+             ${facet.books}
+             ORDER BY ${facet.booksOrder}`,
+            [id]
+        );
+        return rows;
+    };
+
+    return {
+        findPage,
+        findById,
+        findBooks,
+    };
+};
+
+type FacetRepository<T extends IFacetRow> = ReturnType<
+    typeof createFacetRepository<T>
+>;
+
+export { createFacetRepository, FacetRepository };
@@ -0,0 +1,32 @@
+import { bookRepository } from './bookRepository';
+
+import { ratingRepository } from './ratingRepository';
+
+import { accountRepository } from './accountRepository';
+
+import { passwordResetRepository } from './passwordResetRepository';
+
+import { reviewRepository } from './reviewRepository';
+
+import { shelfRepository } from './shelfRepository';
+
+import { recommendationRepository } from './recommendationRepository';
+
+import { authorRepository } from './authorRepository';
+
+import { seriesRepository } from './seriesRepository';
+
+import { sessionRepository } from './sessionRepository';
+
+export {
+    bookRepository,
+    ratingRepository,
+    accountRepository,
+    passwordResetRepository,
+    reviewRepository,
+    shelfRepository,
+    recommendationRepository,
+    authorRepository,
+    seriesRepository,
+    sessionRepository,
+};
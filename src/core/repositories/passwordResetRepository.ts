@@ -0,0 +1,64 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+
+/**
+ * Stores a password reset token of an account.
+ *
+ * @param {number} accountId the id of the account
+ * @param {string} tokenHash the hash of the token, from credentialingFunctions.hashToken
+ * @param {number} lifetimeMinutes how long the token can be used for
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const create = async (
+    accountId: number,
+    tokenHash: string,
+    lifetimeMinutes: number,
+    db: Queryable = pool
+) => {
+    await db.query(
+        `INSERT INTO Password_Reset(account_id, token_hash, expires_at)
+            VALUES ($1, $2, now() + make_interval(mins => $3))`,
+        [accountId, tokenHash, lifetimeMinutes]
+    );
+};
+
+/**
+ * Uses up a reset token that is neither expired nor used yet, so it can only be used once.
+ *
+ * @param {string} tokenHash the hash of the token
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the id of the account, or undefined when the token is unknown, expired or used
+ */
+const consume = async (
+    tokenHash: string,
+    db: Queryable = pool
+): Promise<number | undefined> => {
+    const { rows } = await db.query(
+        `UPDATE Password_Reset SET used_at = now()
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > now()
+         RETURNING account_id`,
+        [tokenHash]
+    );
+    return rows[0]?.account_id;
+};
+
+/**
+ * Uses up every reset token of an account that is not used yet, so a token mailed before the
+ * password changed cannot change it again.
+ *
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const consumeAll = async (accountId: number, db: Queryable = pool) => {
+    await db.query(
+        'UPDATE Password_Reset SET used_at = now() WHERE account_id = $1 AND used_at IS NULL',
+        [accountId]
+    );
+};
+
+const passwordResetRepository = {
+    create,
+    consume,
+    consumeAll,
+};
+
+export { passwordResetRepository };
@@ -0,0 +1,67 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+
+interface IRatedRow {
+    rating: number;
+    // false when the rating replaced an earlier one
+    created: boolean;
+}
+
+/**
+ * Gives a book a rating from an account, replacing the account's earlier rating of it. A
+ * trigger moves the rating counts and average of the book along.
+ *
+ * @param {number} accountId the account rating the book
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {number} rating the number of stars
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the rating, or undefined when there is no book with the isbn13
+ */
+const rate = async (
+    accountId: number,
+    isbn13: string,
+    rating: number,
+    db: Queryable = pool
+): Promise<IRatedRow | undefined> => {
+    // xmax is only 0 for a row that was inserted rather than updated
+    const { rows } = await db.query(
+        `INSERT INTO user_ratings(account_id, book_id, rating)
+            SELECT $1, id, $3 FROM BOOKS WHERE isbn13 = $2
+         ON CONFLICT (account_id, book_id)
+            DO UPDATE SET rating = EXCLUDED.rating, updated_at = now()
+         RETURNING rating, xmax = 0 AS created`,
+        [accountId, isbn13, rating]
+    );
+    return rows[0];
+};
+
+/**
+ * Removes the rating an account gave a book, taking it out of the rating counts and average of
+ * the book.
+ *
+ * @param {number} accountId the account that rated the book
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the number of stars of the removed rating, or undefined when there was none
+ */
+const remove = async (
+    accountId: number,
+    isbn13: string,
+    db: Queryable = pool
+): Promise<number | undefined> => {
+    const { rows } = await db.query(
+        `DELETE FROM user_ratings
+         USING BOOKS
+         WHERE user_ratings.book_id = BOOKS.id
+            AND user_ratings.account_id = $1 AND BOOKS.isbn13 = $2
+         RETURNING user_ratings.rating`,
+        [accountId, isbn13]
+    );
+    return rows[0]?.rating;
+};
+
+const ratingRepository = {
+    rate,
+    remove,
+};
+
+export { ratingRepository };
@@ -0,0 +1,115 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { bookSearchFunctions } from '../utilities/bookSearchUtils';
+import { bookFunctions } from '../utilities/bookUtils';
+import { IRecommendedBookRow } from '../models/book.model';
+
+// Why a book was recommended, strongest first
+const REASONS = ['readers', 'series', 'author', 'popular'];
+
+/**
+ * Ranks books for a set of seed books. Books liked by the readers of the seeds come first, by
+ * their summed similarity to the seeds, then books in the same series or by the same author,
+ * then books that are simply rated highly, each by weighted rating. Neither the seeds nor the
+ * excluded books are recommended.
+ *
+ * @param {string} seeds SQL selecting the book_id of the seeds, which may use $1
+ * @param {string} excluded SQL selecting the book_id of books not to recommend, which may use $1
+ * @param {unknown} seedParam the value of $1
+ * @param {number} limit the number of books to return
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the recommended books, each with its score and the reason it was picked
+ */
+const recommend = async (
+    seeds: string,
+    excluded: string,
+    seedParam: unknown,
+    limit: number,
+    db: Queryable
+): Promise<IRecommendedBookRow[]> => {
+    const reasons = `ARRAY[${REASONS.map((reason) => `'${reason}'`).join(', ')}]`;
+    const theQuery = `WITH seeds AS (${seeds}),
+                        excluded AS (${excluded}),
+                        candidates AS (
+                            SELECT similar_book_id AS book_id, score, 'readers' AS reason
+                            FROM book_similarity
+                            WHERE book_id IN (SELECT book_id FROM seeds)
+                            UNION ALL
+                            SELECT BOOKS.id, 0, 'series'
+                            FROM BOOKS
+                            JOIN BOOKS AS seed ON seed.series_id = BOOKS.series_id
+                            WHERE seed.id IN (SELECT book_id FROM seeds)
+                            UNION ALL
+                            SELECT theirs.book_id, 0, 'author'
+                            FROM book_authors AS theirs
+                            JOIN book_authors AS seed ON seed.author_id = theirs.author_id
+                            WHERE seed.book_id IN (SELECT book_id FROM seeds)
+                            UNION ALL
+                            (SELECT id, 0, 'popular'
+                                FROM BOOKS
+                                ORDER BY ${bookSearchFunctions.weightedRating('BOOKS')} DESC
+                                LIMIT $2 + (SELECT count(*) FROM seeds) + (SELECT count(*) FROM excluded))
+                        ),
+                        ranked AS (
+                            SELECT book_id, sum(score)::float AS score,
+                                min(array_position(${reasons}, reason)) AS reason_rank
+                            FROM candidates
+                            WHERE book_id NOT IN (SELECT book_id FROM seeds)
+                                AND book_id NOT IN (SELECT book_id FROM excluded)
+                            GROUP BY book_id
+                        )
+                      SELECT ${bookFunctions.columns('BOOKS')},
+                        ranked.score, (${reasons})[ranked.reason_rank] AS reason
+                      FROM ranked
+                      JOIN BOOKS ON BOOKS.id = ranked.book_id
+                      ORDER BY ranked.reason_rank, ranked.score DESC, weighted_rating DESC, BOOKS.id
+                      LIMIT $2`;
+
+    const { rows } = await db.query(theQuery, [seedParam, limit]);
+    return rows;
+};
+
+/**
+ * Finds the books most like a book.
+ *
+ * @param {number} bookId the id of the book
+ * @param {number} limit the number of books to return
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the similar books
+ */
+const findSimilar = (bookId: number, limit: number, db: Queryable = pool) =>
+    recommend(
+        'SELECT $1::int AS book_id',
+        'SELECT NULL::int AS book_id WHERE false',
+        bookId,
+        limit,
+        db
+    );
+
+/**
+ * Finds books for a reader from the books they liked, leaving out the books they have read.
+ * A reader who has not liked anything yet gets the highest rated books.
+ *
+ * @param {number} accountId the account of the reader
+ * @param {number} limit the number of books to return
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the recommended books
+ */
+const findForAccount = (
+    accountId: number,
+    limit: number,
+    db: Queryable = pool
+) =>
+    recommend(
+        'SELECT book_id FROM book_likes WHERE account_id = $1',
+        'SELECT book_id FROM books_read WHERE account_id = $1',
+        accountId,
+        limit,
+        db
+    );
+
+const recommendationRepository = {
+    findSimilar,
+    findForAccount,
+};
+
+export { recommendationRepository };
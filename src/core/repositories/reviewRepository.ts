@@ -0,0 +1,304 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { bookSearchFunctions } from '../utilities/bookSearchUtils';
+import { paginationFunctions } from '../utilities/paginationUtils';
+import { IPageRequest, ISort } from '../models/pagination.model';
+import {
+    IModeratedReviewRow,
+    IReportedReviewRow,
+    IReviewRow,
+} from '../models/review.model';
+
+// The columns of a review as sent back, reviews must be joined with Account and BOOKS. BOOKS
+// stores isbn13 as a number, which drops the leading zeros of an isbn13 like 0635517080452
+const REVIEW_COLUMNS = `reviews.id, lpad(BOOKS.isbn13::text, 13, '0') AS isbn13, Account.username, reviews.body, reviews.helpful_count,
+                        reviews.created_at, reviews.updated_at`;
+
+const REVIEW_JOINS = `JOIN BOOKS ON BOOKS.id = reviews.book_id
+                      JOIN Account ON Account.account_id = reviews.account_id`;
+
+// The moderation columns of a review, only sent back to moderators
+const MODERATION_COLUMNS = `reviews.is_hidden, reviews.hidden_at, reviews.hidden_by, reviews.hidden_reason,
+                            reviews.unhidden_at, reviews.unhidden_by`;
+
+/**
+ * @param {number} reviewId the id of the review
+ * @param {boolean} withHidden whether a hidden review is found
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the id of the account that wrote the review, or undefined when there is no such review
+ */
+const findAuthorId = async (
+    reviewId: number,
+    withHidden: boolean,
+    db: Queryable = pool
+): Promise<number | undefined> => {
+    const { rows } = await db.query(
+        'SELECT account_id FROM reviews WHERE id = $1 AND (NOT is_hidden OR $2)',
+        [reviewId, withHidden]
+    );
+    return rows[0]?.account_id;
+};
+
+/**
+ * Finds a page of the reviews of a book that are not hidden, plus one more to tell whether
+ * there is a next page, for paginationFunctions.toPage.
+ *
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {ISort} sort the sort order
+ * @param {IPageRequest} page the page asked for
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the reviews
+ */
+const findByBook = async (
+    isbn13: string,
+    sort: ISort,
+    page: IPageRequest,
+    db: Queryable = pool
+): Promise<IReviewRow[]> => {
+    const keyset = paginationFunctions.buildKeyset(sort, page, 2);
+    const { rows } = await db.query(
+        `SELECT * FROM (
+            SELECT ${REVIEW_COLUMNS}
+            FROM reviews
+            ${REVIEW_JOINS}
+            WHERE BOOKS.isbn13 = $1 AND NOT reviews.is_hidden
+         ) AS visible
+         ${bookSearchFunctions.toWhereClause(keyset.conditions)}
+         ${keyset.orderBy}
+         ${keyset.limit}`,
+        [isbn13, ...keyset.values]
+    );
+    return rows;
+};
+
+/**
+ * Finds a page of the reported reviews that are not hidden, plus one more to tell whether
+ * there is a next page, for paginationFunctions.toPage.
+ *
+ * @param {ISort} sort the sort order
+ * @param {IPageRequest} page the page asked for
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the reviews with their reports
+ */
+const findReported = async (
+    sort: ISort,
+    page: IPageRequest,
+    db: Queryable = pool
+): Promise<IReportedReviewRow[]> => {
+    const keyset = paginationFunctions.buildKeyset(sort, page);
+    const { rows } = await db.query(
+        `SELECT * FROM (
+            SELECT ${REVIEW_COLUMNS},
+                count(*)::int AS report_count,
+                array_agg(review_reports.reason ORDER BY review_reports.created_at) AS reasons
+            FROM reviews
+            ${REVIEW_JOINS}
+            JOIN review_reports ON review_reports.review_id = reviews.id
+            WHERE NOT reviews.is_hidden
+            GROUP BY reviews.id, BOOKS.id, Account.account_id
+         ) AS reported
+         ${bookSearchFunctions.toWhereClause(keyset.conditions)}
+         ${keyset.orderBy}
+         ${keyset.limit}`,
+        keyset.values
+    );
+    return rows;
+};
+
+/**
+ * @param {string} isbn13 the isbn13 of the reviewed book
+ * @param {number} accountId the account writing the review
+ * @param {string} body the text of the review
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the new review, or undefined when there is no book with the isbn13
+ */
+const create = async (
+    isbn13: string,
+    accountId: number,
+    body: string,
+    db: Queryable = pool
+): Promise<IReviewRow | undefined> => {
+    const { rows } = await db.query(
+        `WITH review AS (
+            INSERT INTO reviews(book_id, account_id, body)
+                SELECT id, $2, $3 FROM BOOKS WHERE isbn13 = $1
+                RETURNING *
+         )
+         SELECT ${REVIEW_COLUMNS} FROM review AS reviews ${REVIEW_JOINS}`,
+        [isbn13, accountId, body]
+    );
+    return rows[0];
+};
+
+/**
+ * @param {number} reviewId the id of the review
+ * @param {string} body the new text of the review
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the review as it is now, or undefined when there is none with the id
+ */
+const update = async (
+    reviewId: number,
+    body: string,
+    db: Queryable = pool
+): Promise<IReviewRow | undefined> => {
+    const { rows } = await db.query(
+        `UPDATE reviews SET body = $2, updated_at = now()
+         FROM BOOKS, Account
+         WHERE reviews.id = $1
+            AND BOOKS.id = reviews.book_id
+            AND Account.account_id = reviews.account_id
+         RETURNING ${REVIEW_COLUMNS}`,
+        [reviewId, body]
+    );
+    return rows[0];
+};
+
+/**
+ * Deletes a review together with its votes and reports.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const remove = async (reviewId: number, db: Queryable = pool) => {
+    await db.query('DELETE FROM reviews WHERE id = $1', [reviewId]);
+};
+
+/**
+ * Records that an account found a review helpful. Voting again has no further effect.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {number} accountId the account voting
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the number of accounts that found the review helpful
+ */
+const vote = async (
+    reviewId: number,
+    accountId: number,
+    db: Queryable = pool
+): Promise<number> => {
+    await db.query(
+        'INSERT INTO review_votes(review_id, account_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+        [reviewId, accountId]
+    );
+    return helpfulCount(reviewId, db);
+};
+
+/**
+ * Takes back the helpful vote of an account.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {number} accountId the account that voted
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the number of accounts that found the review helpful, or undefined when the account had not voted
+ */
+const removeVote = async (
+    reviewId: number,
+    accountId: number,
+    db: Queryable = pool
+): Promise<number | undefined> => {
+    const result = await db.query(
+        'DELETE FROM review_votes WHERE review_id = $1 AND account_id = $2',
+        [reviewId, accountId]
+    );
+    return result.rowCount == 0 ? undefined : helpfulCount(reviewId, db);
+};
+
+// The helpful_count a trigger keeps in step with the votes of a review
+const helpfulCount = async (reviewId: number, db: Queryable) => {
+    const { rows } = await db.query(
+        'SELECT helpful_count FROM reviews WHERE id = $1',
+        [reviewId]
+    );
+    return rows[0].helpful_count;
+};
+
+/**
+ * Reports a review that is not hidden to the moderators.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {number} accountId the account reporting the review
+ * @param {string} reason why the review should be looked at
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns whether the review was reported, false when there is no such review
+ */
+const report = async (
+    reviewId: number,
+    accountId: number,
+    reason: string,
+    db: Queryable = pool
+): Promise<boolean> => {
+    const result = await db.query(
+        `INSERT INTO review_reports(review_id, account_id, reason)
+            SELECT id, $2, $3 FROM reviews WHERE id = $1 AND NOT is_hidden`,
+        [reviewId, accountId, reason]
+    );
+    return result.rowCount == 1;
+};
+
+/**
+ * Hides a review, recording the moderator and the reason. Hiding a hidden review replaces the
+ * reason.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {number} moderatorId the account of the moderator
+ * @param {string} reason why the review is hidden
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the review with its moderation details, or undefined when there is none with the id
+ */
+const hide = async (
+    reviewId: number,
+    moderatorId: number,
+    reason: string,
+    db: Queryable = pool
+): Promise<IModeratedReviewRow | undefined> => {
+    const { rows } = await db.query(
+        `UPDATE reviews SET is_hidden = true, hidden_at = now(), hidden_by = $2, hidden_reason = $3
+         FROM BOOKS, Account
+         WHERE reviews.id = $1
+            AND BOOKS.id = reviews.book_id
+            AND Account.account_id = reviews.account_id
+         RETURNING ${REVIEW_COLUMNS}, ${MODERATION_COLUMNS}`,
+        [reviewId, moderatorId, reason]
+    );
+    return rows[0];
+};
+
+/**
+ * Shows a hidden review again, recording the moderator. Who hid the review and why are kept.
+ *
+ * @param {number} reviewId the id of the review
+ * @param {number} moderatorId the account of the moderator
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the review with its moderation details, or undefined when there is no hidden review with the id
+ */
+const unhide = async (
+    reviewId: number,
+    moderatorId: number,
+    db: Queryable = pool
+): Promise<IModeratedReviewRow | undefined> => {
+    const { rows } = await db.query(
+        `UPDATE reviews SET is_hidden = false, unhidden_at = now(), unhidden_by = $2
+         FROM BOOKS, Account
+         WHERE reviews.id = $1 AND reviews.is_hidden
+            AND BOOKS.id = reviews.book_id
+            AND Account.account_id = reviews.account_id
+         RETURNING ${REVIEW_COLUMNS}, ${MODERATION_COLUMNS}`,
+        [reviewId, moderatorId]
+    );
+    return rows[0];
+};
+
+const reviewRepository = {
+    findAuthorId,
+    findByBook,
+    findReported,
+    create,
+    update,
+    remove,
+    vote,
+    removeVote,
+    report,
+    hide,
+    unhide,
+};
+
+export { reviewRepository };
@@ -0,0 +1,15 @@
+import { createFacetRepository } from './facetRepository';
+import { IFacetRow } from '../models/facet.model';
+
+// One row per series with the number of books in it. Books are listed in reading order, those
+// without a position, such as collections, last.
+const seriesRepository = createFacetRepository<IFacetRow>({
+    table: 'series',
+    summary: `SELECT series.id, series.name, count(BOOKS.id)::int AS book_count
+              FROM series
+              LEFT JOIN BOOKS ON BOOKS.series_id = series.id`,
+    books: 'WHERE series_id = $1',
+    booksOrder: 'series_position NULLS LAST, publication_year, title',
+});
+
+export { seriesRepository };
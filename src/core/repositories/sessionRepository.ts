@@ -0,0 +1,143 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { IRefreshTokenRow } from '../models/session.model';
+
+/**
+ * Starts a session of an account.
+ *
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the id of the session
+ */
+const create = async (
+    accountId: number,
+    db: Queryable = pool
+): Promise<number> => {
+    const { rows } = await db.query(
+        'INSERT INTO Account_Session(account_id) VALUES ($1) RETURNING session_id',
+        [accountId]
+    );
+    return rows[0].session_id;
+};
+
+/**
+ * @param {number} sessionId the id of the session
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns true when the session exists and has not been revoked
+ */
+const isActive = async (
+    sessionId: number,
+    db: Queryable = pool
+): Promise<boolean> => {
+    const { rowCount } = await db.query(
+        'SELECT 1 FROM Account_Session WHERE session_id = $1 AND revoked_at IS NULL',
+        [sessionId]
+    );
+    return rowCount == 1;
+};
+
+/**
+ * @param {number} sessionId the id of the session
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const revoke = async (sessionId: number, db: Queryable = pool) => {
+    await db.query(
+        'UPDATE Account_Session SET revoked_at = now() WHERE session_id = $1 AND revoked_at IS NULL',
+        [sessionId]
+    );
+};
+
+/**
+ * Revokes the sessions of an account.
+ *
+ * @param {number} accountId the id of the account
+ * @param {number | undefined} keepSessionId a session to leave as it is, undefined for none
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the number of sessions revoked
+ */
+const revokeAll = async (
+    accountId: number,
+    keepSessionId: number | undefined,
+    db: Queryable = pool
+): Promise<number> => {
+    const { rowCount } = await db.query(
+        'UPDATE Account_Session SET revoked_at = now() WHERE account_id = $1 AND session_id IS DISTINCT FROM $2 AND revoked_at IS NULL',
+        [accountId, keepSessionId ?? null]
+    );
+    return rowCount;
+};
+
+/**
+ * Stores a refresh token of a session.
+ *
+ * @param {number} sessionId the id of the session
+ * @param {string} tokenHash the hash of the token, from credentialingFunctions.hashToken
+ * @param {number} lifetimeDays how long the token can be used for
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const createRefreshToken = async (
+    sessionId: number,
+    tokenHash: string,
+    lifetimeDays: number,
+    db: Queryable = pool
+) => {
+    await db.query(
+        `INSERT INTO Refresh_Token(session_id, token_hash, expires_at)
+            VALUES ($1, $2, now() + make_interval(days => $3))`,
+        [sessionId, tokenHash, lifetimeDays]
+    );
+};
+
+/**
+ * Finds a refresh token along with its session and account, whether or not it can be used.
+ *
+ * @param {string} tokenHash the hash of the token
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the token, or undefined when there is none with the hash
+ */
+const findRefreshToken = async (
+    tokenHash: string,
+    db: Queryable = pool
+): Promise<IRefreshTokenRow | undefined> => {
+    const { rows } = await db.query(
+        `SELECT Refresh_Token.token_id, Refresh_Token.used_at, Refresh_Token.expires_at < now() AS expired,
+            Account_Session.session_id, Account_Session.revoked_at,
+            Account.account_id, Account.firstname, Account.account_role
+         FROM Refresh_Token
+         INNER JOIN Account_Session ON Refresh_Token.session_id = Account_Session.session_id
+         INNER JOIN Account ON Account_Session.account_id = Account.account_id
+         WHERE Refresh_Token.token_hash = $1`,
+        [tokenHash]
+    );
+    return rows[0];
+};
+
+/**
+ * Uses up a refresh token that was not used yet, so only one of two concurrent requests with
+ * the same token gets to use it.
+ *
+ * @param {number} tokenId the id of the token
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns true when the token was used up, false when it already was
+ */
+const useRefreshToken = async (
+    tokenId: number,
+    db: Queryable = pool
+): Promise<boolean> => {
+    const { rowCount } = await db.query(
+        'UPDATE Refresh_Token SET used_at = now() WHERE token_id = $1 AND used_at IS NULL',
+        [tokenId]
+    );
+    return rowCount == 1;
+};
+
+const sessionRepository = {
+    create,
+    isActive,
+    revoke,
+    revokeAll,
+    createRefreshToken,
+    findRefreshToken,
+    useRefreshToken,
+};
+
+export { sessionRepository };
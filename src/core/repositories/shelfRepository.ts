@@ -0,0 +1,260 @@
+import { pool, Queryable } from '../utilities/sql_conn';
+import { bookFunctions } from '../utilities/bookUtils';
+import {
+    IShelfBookRow,
+    IShelfProgress,
+    IShelfRow,
+    IShelfSummaryRow,
+    IShelfWithBooksRow,
+} from '../models/shelf.model';
+
+// One row per shelf with the number of books on it
+const SHELF_SUMMARY = `SELECT shelves.id, shelves.name, shelves.is_default, shelves.is_public,
+                            shelves.created_at, count(shelf_books.book_id)::int AS book_count
+                        FROM shelves
+                        LEFT JOIN shelf_books ON shelf_books.shelf_id = shelves.id`;
+
+// The columns of a book on a shelf, shelf_books must be joined with BOOKS
+const SHELF_BOOK_COLUMNS = `${bookFunctions.columns('BOOKS')},
+                            shelf_books.added_at, shelf_books.current_page,
+                            shelf_books.progress_percent::float AS progress_percent,
+                            shelf_books.started_on::text AS started_on,
+                            shelf_books.finished_on::text AS finished_on`;
+
+/**
+ * @param {number} shelfId the id of the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the shelf, or undefined when there is none with the id
+ */
+const findById = async (
+    shelfId: number,
+    db: Queryable = pool
+): Promise<IShelfRow | undefined> => {
+    const { rows } = await db.query(
+        'SELECT id, account_id, name, is_default, is_public FROM shelves WHERE id = $1',
+        [shelfId]
+    );
+    return rows[0];
+};
+
+/**
+ * @param {number} shelfId the id of the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the shelf with the number of books on it, or undefined when there is none with the id
+ */
+const findSummary = async (
+    shelfId: number,
+    db: Queryable = pool
+): Promise<IShelfSummaryRow | undefined> => {
+    const { rows } = await db.query(
+        `${SHELF_SUMMARY} WHERE shelves.id = $1 GROUP BY shelves.id`,
+        [shelfId]
+    );
+    return rows[0];
+};
+
+/**
+ * @param {number} accountId the id of the account
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the shelves of the account, the default shelves first
+ */
+const findByAccount = async (
+    accountId: number,
+    db: Queryable = pool
+): Promise<IShelfSummaryRow[]> => {
+    const { rows } = await db.query(
+        `${SHELF_SUMMARY}
+         WHERE shelves.account_id = $1
+         GROUP BY shelves.id
+         ORDER BY shelves.is_default DESC, shelves.id`,
+        [accountId]
+    );
+    return rows;
+};
+
+/**
+ * Finds the shelves of an account together with their books, the most recently added first.
+ *
+ * @param {number} accountId the id of the account
+ * @param {boolean} withPrivate whether to include the shelves that are not public
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the shelves, the default shelves first
+ */
+const findWithBooks = async (
+    accountId: number,
+    withPrivate: boolean,
+    db: Queryable = pool
+): Promise<IShelfWithBooksRow[]> => {
+    const shelves = await db.query(
+        `SELECT id, name, is_default, is_public
+         FROM shelves
+         WHERE account_id = $1 AND (is_public OR $2)
+         ORDER BY is_default DESC, id`,
+        [accountId, withPrivate]
+    );
+    const books = await db.query(
+        `SELECT shelf_books.shelf_id, ${SHELF_BOOK_COLUMNS}
+         FROM shelf_books
+         JOIN BOOKS ON BOOKS.id = shelf_books.book_id
+         WHERE shelf_books.shelf_id = ANY($1)
+         ORDER BY shelf_books.added_at DESC`,
+        [shelves.rows.map((shelf) => shelf.id)]
+    );
+    return shelves.rows.map((shelf) => ({
+        ...shelf,
+        books: books.rows.filter((book) => book.shelf_id === shelf.id),
+    }));
+};
+
+/**
+ * @param {number} accountId the id of the account the shelf belongs to
+ * @param {string} name the name of the shelf
+ * @param {boolean} isPublic whether other users can see the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the new shelf
+ */
+const create = async (
+    accountId: number,
+    name: string,
+    isPublic: boolean,
+    db: Queryable = pool
+): Promise<IShelfSummaryRow> => {
+    const { rows } = await db.query(
+        `INSERT INTO shelves(account_id, name, is_public)
+            VALUES ($1, $2, $3)
+            RETURNING id, name, is_default, is_public, created_at, 0 AS book_count`,
+        [accountId, name, isPublic]
+    );
+    return rows[0];
+};
+
+/**
+ * @param {number} shelfId the id of the shelf
+ * @param {string} name the new name of the shelf
+ * @param {boolean} isPublic whether other users can see the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const update = async (
+    shelfId: number,
+    name: string,
+    isPublic: boolean,
+    db: Queryable = pool
+) => {
+    await db.query(
+        'UPDATE shelves SET name = $2, is_public = $3 WHERE id = $1',
+        [shelfId, name, isPublic]
+    );
+};
+
+/**
+ * Deletes a shelf and takes its books off it.
+ *
+ * @param {number} shelfId the id of the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ */
+const remove = async (shelfId: number, db: Queryable = pool) => {
+    await db.query('DELETE FROM shelves WHERE id = $1', [shelfId]);
+};
+
+/**
+ * @param {number} shelfId the id of the shelf
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the books on the shelf, the most recently added first
+ */
+const findBooks = async (
+    shelfId: number,
+    db: Queryable = pool
+): Promise<IShelfBookRow[]> => {
+    const { rows } = await db.query(
+        `SELECT ${SHELF_BOOK_COLUMNS}
+         FROM shelf_books
+         JOIN BOOKS ON BOOKS.id = shelf_books.book_id
+         WHERE shelf_books.shelf_id = $1
+         ORDER BY shelf_books.added_at DESC`,
+        [shelfId]
+    );
+    return rows;
+};
+
+/**
+ * Puts a book on a shelf, or changes the progress recorded for it when it is already there.
+ * Progress left out is not changed.
+ *
+ * @param {number} shelfId the id of the shelf
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {IShelfProgress} progress the progress to record
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns the book on the shelf and whether it was put there, undefined when there is no book with the isbn13
+ */
+const shelveBook = async (
+    shelfId: number,
+    isbn13: string,
+    progress: IShelfProgress,
+    db: Queryable = pool
+): Promise<{ entry: IShelfBookRow; created: boolean } | undefined> => {
+    // the columns come from a fixed list, so they are safe to interpolate
+    const fields = Object.keys(progress) as (keyof IShelfProgress)[];
+    // without any progress a book that is already on the shelf is left as it is
+    const changes =
+        fields.length > 0
+            ? fields.map((field) => `${field} = EXCLUDED.${field}`)
+            : ['shelf_id = EXCLUDED.shelf_id'];
+    // xmax is only 0 for a row that was inserted rather than updated
+    const shelved = await db.query(
+        `INSERT INTO shelf_books(shelf_id, book_id${fields.map((field) => `, ${field}`).join('')})
+            SELECT $1, id${fields.map((field, index) => `, $${index + 3}`).join('')}
+            FROM BOOKS WHERE isbn13 = $2
+         ON CONFLICT (shelf_id, book_id) DO UPDATE SET ${changes.join(', ')}
+         RETURNING book_id, xmax = 0 AS created`,
+        [shelfId, isbn13, ...fields.map((field) => progress[field])]
+    );
+    if (shelved.rowCount == 0) {
+        return undefined;
+    }
+    const { rows } = await db.query(
+        `SELECT ${SHELF_BOOK_COLUMNS}
+         FROM shelf_books
+         JOIN BOOKS ON BOOKS.id = shelf_books.book_id
+         WHERE shelf_books.shelf_id = $1 AND shelf_books.book_id = $2`,
+        [shelfId, shelved.rows[0].book_id]
+    );
+    return { entry: rows[0], created: shelved.rows[0].created };
+};
+
+/**
+ * Takes a book off a shelf, together with the progress recorded for it.
+ *
+ * @param {number} shelfId the id of the shelf
+ * @param {string} isbn13 the isbn13 of the book
+ * @param {Queryable} db the pool, or the client of a transaction
+ * @returns whether the book was on the shelf
+ */
+const removeBook = async (
+    shelfId: number,
+    isbn13: string,
+    db: Queryable = pool
+): Promise<boolean> => {
+    const result = await db.query(
+        `DELETE FROM shelf_books
+         USING BOOKS
+         WHERE shelf_books.book_id = BOOKS.id
+            AND shelf_books.shelf_id = $1 AND BOOKS.isbn13 = $2`,
+        [shelfId, isbn13]
+    );
+    return result.rowCount == 1;
+};
+
+const shelfRepository = {
+    findById,
+    findSummary,
+    findByAccount,
+    findWithBooks,
+    create,
+    update,
+    remove,
+    findBooks,
+    shelveBook,
+    removeBook,
+};
+
+export { shelfRepository };
@@ -0,0 +1,71 @@
+import { BOOK_COLUMNS } from '../models/bookImport.model';
+
+type ExportedBook = Record<string, unknown>;
+
+interface IExportFormat {
+    contentType: string;
+    extension: string;
+    // written before the first book and after the last one
+    header: string;
+    footer: string;
+    row: (book: ExportedBook, index: number) => string;
+}
+
+/**
+ * Writes a value as a CSV field. Fields with a separator, quote, line break or leading or
+ * trailing space are quoted, and NULL is an empty field, which an import reads as missing.
+ *
+ * @param {unknown} value the value of a column
+ * @returns the CSV field
+ */
+const toCsvField = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]|^\s|\s$/.test(text)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+};
+
+// The formats books can be exported in. The CSV and NDJSON formats are read back by
+// POST /library/import.
+const EXPORT_FORMATS: Record<string, IExportFormat> = {
+    csv: {
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+        header: `${BOOK_COLUMNS.join(',')}\n`,
+        footer: '',
+        row: (book) =>
+            `${BOOK_COLUMNS.map((column) => toCsvField(book[column])).join(',')}\n`,
+    },
+    ndjson: {
+        contentType: 'application/x-ndjson; charset=utf-8',
+        extension: 'ndjson',
+        header: '',
+        footer: '',
+        row: (book) => `${JSON.stringify(book)}\n`,
+    },
+    json: {
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+        header: '[',
+        footer: ']\n',
+        row: (book, index) => `${index > 0 ? ',' : ''}${JSON.stringify(book)}`,
+    },
+};
+
+/**
+ * Looks up an export format by name.
+ *
+ * @param {string} name the name of the format, e.g. csv
+ * @returns the format, or undefined when there is no format by that name
+ */
+const exportFormat = (name: string): IExportFormat | undefined =>
+    Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, name)
+        ? EXPORT_FORMATS[name]
+        : undefined;
+
+const bookExportFunctions = {
+    exportFormat,
+};
+
+export { bookExportFunctions };
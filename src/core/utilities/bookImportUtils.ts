@@ -0,0 +1,463 @@
+import { Readable } from 'stream';
+import { Pool, PoolClient } from 'pg';
+
+import { pool, withRollback, withSavepoint, withTransaction } from './sql_conn';
+import { isbnFunctions } from './isbnUtils';
+import { schemaFunctions } from './schemaUtils';
+import { bookFunctions } from './bookUtils';
+import { bookRepository } from '../repositories/bookRepository';
+import {
+    IImportedBook,
+    IImportError,
+    IImportReport,
+} from '../models/bookImport.model';
+import { ValidFields } from '../models/validation.model';
+
+// Only the first errors are reported, an import of a wrong file would otherwise send back
+// one error for every row
+const MAX_REPORTED_ERRORS = 100;
+
+// The number of books written with one query
+const BATCH_SIZE = 500;
+
+type ImportColumn = keyof IImportedBook;
+
+// The columns of an import, by the names of both our own columns and those of the Goodreads
+// books.csv in data/. Other columns are ignored.
+const COLUMN_NAMES: Record<string, ImportColumn> = {
+    isbn13: 'isbn13',
+    authors: 'authors',
+    publication_year: 'publication_year',
+    original_publication_year: 'publication_year',
+    title: 'title',
+    rating_avg: 'rating_avg',
+    average_rating: 'rating_avg',
+    rating_count: 'rating_count',
+    ratings_count: 'rating_count',
+    rating_1_star: 'rating_1_star',
+    ratings_1: 'rating_1_star',
+    rating_2_star: 'rating_2_star',
+    ratings_2: 'rating_2_star',
+    rating_3_star: 'rating_3_star',
+    ratings_3: 'rating_3_star',
+    rating_4_star: 'rating_4_star',
+    ratings_4: 'rating_4_star',
+    rating_5_star: 'rating_5_star',
+    ratings_5: 'rating_5_star',
+    image_url: 'image_url',
+    image_small_url: 'image_small_url',
+    small_image_url: 'image_small_url',
+};
+
+const { isbn, number, optional } = schemaFunctions;
+
+// The rules of /library/add, with the average rating an export has
+const IMPORTED_BOOK = {
+    ...bookFunctions.NEW_BOOK_BODY,
+    ISBN: isbn(false),
+    ratingAverage: optional(
+        number({ min: 0, max: 5, label: 'rating average' })
+    ),
+};
+
+type ParsedRow =
+    | { valid: true; line: number; record: Record<string, unknown> }
+    | { valid: false; line: number; message: string };
+
+// The rules of a book already in the catalog: an export writes a NULL column as an empty
+// field, so the columns /library/add requires but BOOKS may hold NULL in may be left out
+const STORED_BOOK = {
+    ...IMPORTED_BOOK,
+    title: optional(IMPORTED_BOOK.title),
+    author: optional(IMPORTED_BOOK.author),
+    publicationYear: optional(IMPORTED_BOOK.publicationYear),
+    imageSmallURL: optional(IMPORTED_BOOK.imageSmallURL),
+    imageLargeURL: optional(IMPORTED_BOOK.imageLargeURL),
+};
+
+// A valid book may only update a book already in the catalog when it breaks a rule of new
+// books, which is then what is reported for it
+type BookParseResult =
+    | { valid: true; book: IImportedBook; newBookError?: string }
+    | { valid: false; message: string };
+
+type ImportEntry = { line: number; book: IImportedBook; newBookError?: string };
+
+/**
+ * Reads a stream as text, one chunk at a time as it arrives. Characters split between two
+ * chunks are put back together.
+ *
+ * @param {Readable} stream the stream to read
+ * @returns the chunks of text
+ */
+async function* readChunks(stream: Readable): AsyncGenerator<string> {
+    stream.setEncoding('utf8');
+    let ended = false;
+    let failure: Error | undefined;
+    stream.once('end', () => (ended = true));
+    stream.once('error', (error) => (failure = error));
+
+    for (;;) {
+        let chunk: string | null;
+        while ((chunk = stream.read()) !== null) yield chunk;
+        if (failure !== undefined) throw failure;
+        if (ended) return;
+        await new Promise<void>((resolve) => {
+            const wake = () => {
+                stream.off('readable', wake);
+                stream.off('end', wake);
+                stream.off('error', wake);
+                resolve();
+            };
+            stream.on('readable', wake);
+            stream.on('end', wake);
+            stream.on('error', wake);
+        });
+    }
+}
+
+/**
+ * Parses CSV with a header row as it arrives, one record at a time. Fields may be quoted,
+ * and quoted fields may contain commas, line breaks and quotes written as "".
+ *
+ * @param {Readable} stream the CSV
+ * @returns the records keyed by the lower case column names of the header, or the reason a
+ * record could not be read, each with the line it starts on
+ */
+async function* parseCsv(stream: Readable): AsyncGenerator<ParsedRow> {
+    let header: string[] | undefined;
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // a quote inside a quoted field either ends it or, when doubled, is a literal quote
+    let afterQuote = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const toRow = (values: string[], startLine: number): ParsedRow | null => {
+        // blank lines hold no record
+        if (values.length == 1 && values[0] === '') return null;
+        if (header === undefined) {
+            header = values.map((name) =>
+                name
+                    .replace(/^\uFEFF/, '')
+                    .trim()
+                    .toLowerCase()
+            );
+            return null;
+        }
+        if (values.length != header.length) {
+            return {
+                valid: false,
+                line: startLine,
+                message: `The row has ${values.length} fields but the header has ${header.length}`,
+            };
+        }
+        const record: Record<string, unknown> = {};
+        header.forEach((name, index) => (record[name] = values[index]));
+        return { valid: true, line: startLine, record };
+    };
+
+    for await (const chunk of readChunks(stream)) {
+        for (const char of chunk) {
+            if (inQuotes) {
+                if (afterQuote && char === '"') {
+                    field += '"';
+                    afterQuote = false;
+                    continue;
+                } else if (afterQuote) {
+                    inQuotes = false;
+                    afterQuote = false;
+                } else {
+                    if (char === '"') afterQuote = true;
+                    else field += char;
+                    if (char === '\n') line++;
+                    continue;
+                }
+            }
+
+            if (char === '"' && field === '') {
+                inQuotes = true;
+            } else if (char === ',') {
+                fields.push(field);
+                field = '';
+            } else if (char === '\n') {
+                fields.push(field);
+                const row = toRow(fields, recordLine);
+                if (row !== null) yield row;
+                fields = [];
+                field = '';
+                line++;
+                recordLine = line;
+            } else if (char !== '\r') {
+                field += char;
+            }
+        }
+    }
+
+    if (inQuotes && !afterQuote) {
+        yield {
+            valid: false,
+            line: recordLine,
+            message: 'The row has a quoted field that is never closed',
+        };
+    } else if (fields.length > 0 || field !== '') {
+        fields.push(field);
+        const row = toRow(fields, recordLine);
+        if (row !== null) yield row;
+    }
+}
+
+/**
+ * Parses newline delimited JSON as it arrives, one object per line.
+ *
+ * @param {Readable} stream the NDJSON
+ * @returns the objects with their keys in lower case, or the reason a line could not be
+ * read, each with its line number
+ */
+async function* parseNdjson(stream: Readable): AsyncGenerator<ParsedRow> {
+    let buffered = '';
+    let line = 0;
+
+    const toRow = (text: string): ParsedRow | null => {
+        line++;
+        if (text.trim() === '') return null;
+        try {
+            const parsed = JSON.parse(text);
+            if (
+                parsed === null ||
+                typeof parsed !== 'object' ||
+                Array.isArray(parsed)
+            ) {
+                throw new TypeError('not an object');
+            }
+            const record: Record<string, unknown> = {};
+            for (const [name, value] of Object.entries(parsed)) {
+                record[name.toLowerCase()] = value;
+            }
+            return { valid: true, line, record };
+        } catch {
+            return {
+                valid: false,
+                line,
+                message: 'The line is not a JSON object',
+            };
+        }
+    };
+
+    for await (const chunk of readChunks(stream)) {
+        buffered += chunk;
+        const lines = buffered.split('\n');
+        buffered = lines.pop();
+        for (const text of lines) {
+            const row = toRow(text);
+            if (row !== null) yield row;
+        }
+    }
+    const row = toRow(buffered);
+    if (row !== null) yield row;
+}
+
+/**
+ * Validates an imported record with the rules of /library/add and converts it into a book,
+ * the way /library/add does. A record with a wrong check digit, or without a value /library/add
+ * requires but BOOKS may hold NULL in, can still update a book but not add one, so every book
+ * an export writes imports again. A rating_avg column is kept as it is, so an export imports
+ * unchanged, and the rating_count need not be the sum of the star counts, which it is not in
+ * the Goodreads books.csv.
+ *
+ * @param {Record<string, unknown>} record the record keyed by column name
+ * @returns the book when valid, otherwise the message to report
+ */
+const toBook = (record: Record<string, unknown>): BookParseResult => {
+    const values: Partial<Record<ImportColumn, unknown>> = {};
+    for (const [name, value] of Object.entries(record)) {
+        const column = COLUMN_NAMES[name];
+        // an empty CSV field is a missing value. Other values are kept as they are, like
+        // /library/add does, so a title with surrounding spaces is exported and imported unchanged
+        if (column !== undefined && value !== '' && value !== null) {
+            values[column] = value;
+        }
+    }
+
+    // the record in the shape of the body of /library/add
+    const body = {
+        ISBN: values.isbn13,
+        title: values.title,
+        author: values.authors,
+        publicationYear: values.publication_year,
+        imageSmallURL: values.image_small_url,
+        imageLargeURL: values.image_url,
+        totalRatings: values.rating_count,
+        oneStar: values.rating_1_star,
+        twoStar: values.rating_2_star,
+        threeStar: values.rating_3_star,
+        fourStar: values.rating_4_star,
+        fiveStar: values.rating_5_star,
+        ratingAverage: values.rating_avg,
+    };
+    const checked = schemaFunctions.checkFields(IMPORTED_BOOK, body);
+    const stored =
+        checked.errors.length > 0
+            ? schemaFunctions.checkFields(STORED_BOOK, body)
+            : checked;
+    if (stored.errors.length > 0) {
+        return { valid: false, message: checked.errors[0].message };
+    }
+
+    // a column left out is written as NULL
+    const { ratingAverage, ...book } = stored.values as ValidFields<
+        typeof IMPORTED_BOOK
+    >;
+    const imported = bookFunctions.toNewBook(book);
+    if (ratingAverage !== undefined) imported.rating_avg = ratingAverage;
+    const isbn = isbnFunctions.parseIsbn(imported.isbn13);
+    return {
+        valid: true,
+        book: imported,
+        newBookError:
+            checked.errors[0]?.message ??
+            (isbn.valid === false ? isbn.message : undefined),
+    };
+};
+
+/**
+ * Upserts books by isbn13 in a single transaction. The books are written in batches, each
+ * under its own savepoint. When the database rejects a batch, for instance because a book has
+ * the title of another one, its books are written one by one so only the rejected ones are
+ * reported and skipped. A dry run does all of this and then rolls back.
+ *
+ * @param {AsyncIterable<ParsedRow>} rows the parsed rows of the import
+ * @param {boolean} dryRun true to only report what the import would do
+ * @param {Pool} db the pool of the database to import into
+ * @returns the number of books inserted, updated and skipped, and the errors of the rows
+ */
+const importBooks = async (
+    rows: AsyncIterable<ParsedRow>,
+    dryRun: boolean,
+    db: Pool = pool
+): Promise<IImportReport> => {
+    const report: IImportReport = {
+        dryRun,
+        inserted: 0,
+        updated: 0,
+        skipped: 0,
+        errors: [],
+        errorsTruncated: false,
+    };
+    const addError = (error: IImportError) => {
+        report.skipped++;
+        if (report.errors.length < MAX_REPORTED_ERRORS) {
+            report.errors.push(error);
+        } else {
+            report.errorsTruncated = true;
+        }
+    };
+
+    const write = async (client: PoolClient, batch: ImportEntry[]) => {
+        try {
+            const { inserted, updated } = await withSavepoint(client, () =>
+                bookRepository.upsert(
+                    batch.map(({ book }) => book),
+                    client
+                )
+            );
+            report.inserted += inserted;
+            report.updated += updated;
+            report.skipped += batch.length - inserted - updated;
+        } catch (error) {
+            const [{ line, book }] = batch;
+            if (batch.length > 1) {
+                for (const entry of batch) await write(client, [entry]);
+            } else if (error.constraint == 'books_title_key') {
+                addError({
+                    line,
+                    isbn13: book.isbn13,
+                    message: 'Title already exists',
+                });
+            } else if (error.code?.startsWith('22')) {
+                // a data exception, such as a number too large for its column
+                addError({
+                    line,
+                    isbn13: book.isbn13,
+                    message:
+                        'Invalid value out of range - please refer to documentation',
+                });
+            } else {
+                throw error;
+            }
+        }
+    };
+
+    // Most books imported from Goodreads lost the check digit of their isbn13, and some have
+    // no title, so such a book may still update a book, but not add one
+    const checkNewBooks = async (client: PoolClient, batch: ImportEntry[]) => {
+        const unchecked = batch.filter(
+            ({ newBookError }) => newBookError !== undefined
+        );
+        if (unchecked.length == 0) return batch;
+        const known = new Set(
+            await bookRepository.findExistingIsbn13s(
+                unchecked.map(({ book }) => book.isbn13),
+                client
+            )
+        );
+        return batch.filter(({ line, book, newBookError }) => {
+            if (newBookError === undefined || known.has(book.isbn13)) {
+                return true;
+            }
+            addError({ line, isbn13: book.isbn13, message: newBookError });
+            return false;
+        });
+    };
+    const flush = async (client: PoolClient, batch: ImportEntry[]) => {
+        const checked = await checkNewBooks(client, batch);
+        if (checked.length > 0) await write(client, checked);
+    };
+
+    await (dryRun ? withRollback : withTransaction)(async (client) => {
+        let batch: ImportEntry[] = [];
+        for await (const row of rows) {
+            if (row.valid === false) {
+                addError({
+                    line: row.line,
+                    isbn13: null,
+                    message: row.message,
+                });
+                continue;
+            }
+            const parsed = toBook(row.record);
+            if (parsed.valid === false) {
+                addError({
+                    line: row.line,
+                    isbn13: (row.record.isbn13 as string) ?? null,
+                    message: parsed.message,
+                });
+                continue;
+            }
+            batch.push({
+                line: row.line,
+                book: parsed.book,
+                newBookError: parsed.newBookError,
+            });
+            if (batch.length == BATCH_SIZE) {
+                await flush(client, batch);
+                batch = [];
+            }
+        }
+        if (batch.length > 0) await flush(client, batch);
+    }, db);
+
+    // a rejected batch reports its errors after the rows read since
+    report.errors.sort((first, second) => first.line - second.line);
+    return report;
+};
+
+const bookImportFunctions = {
+    parseCsv,
+    parseNdjson,
+    toBook,
+    importBooks,
+};
+
+export { bookImportFunctions };
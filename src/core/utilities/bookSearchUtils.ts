@@ -0,0 +1,270 @@
+import { validationFunctions } from './validationUtils';
+import { schemaFunctions } from './schemaUtils';
+import {
+    BookSortColumn,
+    IBookSearch,
+    IBookSearchFilters,
+    IBookSort,
+} from '../models/bookSearch.model';
+import { RequestCheck, ValidFields } from '../models/validation.model';
+
+const isStringProvided = validationFunctions.isStringProvided;
+const { string, number, integer, oneOf, satisfies, optional } = schemaFunctions;
+
+const SORT_COLUMNS: readonly BookSortColumn[] = [
+    'rating_avg',
+    'rating_count',
+    'weighted_rating',
+    'publication_year',
+    'title',
+    'relevance',
+];
+
+// The number of ratings at the library-wide mean that every book starts with in its weighted
+// rating, set with RATING_PRIOR_WEIGHT. The default is about as many as the least rated books have.
+const RATING_PRIOR_WEIGHT =
+    Number(process.env.RATING_PRIOR_WEIGHT) > 0
+        ? Number(process.env.RATING_PRIOR_WEIGHT)
+        : 10000;
+
+/**
+ * Escapes the LIKE wildcards (% and _) so user input is matched literally.
+ *
+ * @param {string} value the raw search text
+ * @returns the text with LIKE wildcards escaped
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+// The query parameters of a book listing that set its order
+const SORT_QUERY = {
+    sort: optional(oneOf(SORT_COLUMNS)),
+    order: optional(oneOf(['asc', 'desc'] as const)),
+};
+
+// The query parameters of a book search, every one of them optional
+const SEARCH_QUERY = {
+    q: optional(string()),
+    author: optional(string()),
+    title: optional(string()),
+    year_min: optional(integer({ min: -9999, max: 9999 })),
+    year_max: optional(integer({ min: -9999, max: 9999 })),
+    rating_min: optional(number({ min: 0, max: 5 })),
+    rating_max: optional(number({ min: 0, max: 5 })),
+    rating_count_min: optional(
+        integer({ min: 0, max: Number.MAX_SAFE_INTEGER })
+    ),
+    isbn: optional(
+        satisfies(
+            (candidate) =>
+                isStringProvided(candidate) &&
+                /^\d{1,13}$/.test(candidate as string)
+        )
+    ),
+    ...SORT_QUERY,
+};
+
+type SortQuery = ValidFields<typeof SORT_QUERY> & { q?: string };
+
+/**
+ * Works out the sort order of a book listing. Sorting by relevance is only possible for a
+ * full-text search, where it is also the default.
+ *
+ * @param {SortQuery} query the validated query string of the request
+ * @returns the sort order
+ */
+const toSort = (query: SortQuery): IBookSort => {
+    const column =
+        query.sort ?? (query.q !== undefined ? 'relevance' : 'title');
+    const order = query.order ?? (column === 'relevance' ? 'desc' : 'asc');
+    return { column, direction: order === 'asc' ? 'ASC' : 'DESC' };
+};
+
+/**
+ * Converts the query string of a book search into filters and a sort order.
+ *
+ * @param {ValidFields<typeof SEARCH_QUERY>} query the validated query string of the request
+ * @returns the search
+ */
+const toSearch = (query: ValidFields<typeof SEARCH_QUERY>): IBookSearch => ({
+    filters: {
+        query: query.q,
+        author: query.author,
+        title: query.title,
+        yearMin: query.year_min,
+        yearMax: query.year_max,
+        ratingMin: query.rating_min,
+        ratingMax: query.rating_max,
+        ratingCountMin: query.rating_count_min,
+        isbnPrefix: query.isbn,
+    },
+    sort: toSort(query),
+});
+
+/**
+ * Creates the check that a range of a search does not end before it starts.
+ *
+ * @param {string} min the query parameter starting the range
+ * @param {string} max the query parameter ending the range
+ * @param {string} range the name of the range in the message
+ * @returns the check
+ */
+const rangeCheck =
+    (min: string, max: string, range: string): RequestCheck =>
+    ({ query }) => {
+        if (
+            query[min] !== undefined &&
+            query[max] !== undefined &&
+            (query[min] as number) > (query[max] as number)
+        ) {
+            return {
+                location: 'query',
+                field: max,
+                message: `Invalid ${range} - please refer to documentation`,
+            };
+        }
+    };
+
+// Sorting by relevance needs the text of a search
+const relevanceCheck: RequestCheck = ({ query }) => {
+    if (query.sort === 'relevance' && query.q === undefined) {
+        return {
+            location: 'query',
+            field: 'sort',
+            message: 'Invalid sort - please refer to documentation',
+        };
+    }
+};
+
+// The checks of SORT_QUERY and SEARCH_QUERY between their fields
+const SORT_CHECKS = [relevanceCheck];
+const SEARCH_CHECKS = [
+    rangeCheck('year_min', 'year_max', 'year range'),
+    rangeCheck('rating_min', 'rating_max', 'rating range'),
+    relevanceCheck,
+];
+
+/**
+ * Builds the parameterized conditions for every provided filter. A full-text query matches
+ * the title and authors as whole words or, to tolerate typos, by trigram word similarity.
+ *
+ * @param {IBookSearchFilters} filters the filters to apply
+ * @param {number} firstPlaceholder the number of the first placeholder ($n) to use
+ * @returns the conditions, the values for their placeholders and, for a full-text query,
+ * the expression scoring how relevant each book is
+ */
+const buildSearchWhere = (
+    filters: IBookSearchFilters,
+    firstPlaceholder = 1
+) => {
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    const next = (value: string | number) => {
+        values.push(value);
+        return `$${firstPlaceholder + values.length - 1}`;
+    };
+
+    let relevance: string;
+    if (filters.query !== undefined) {
+        const query = next(filters.query);
+        const tsquery = `websearch_to_tsquery('simple', ${query})`;
+        conditions.push(
+            `(search_vector @@ ${tsquery} OR ${query} <% title OR ${query} <% authors)`
+        );
+        relevance = `(ts_rank_cd(search_vector, ${tsquery}) + GREATEST(word_similarity(${query}, title), word_similarity(${query}, authors)))::float8`;
+    }
+    if (filters.author !== undefined) {
+        // matched against each author on their own, not the comma separated list
+        conditions.push(
+            `EXISTS (SELECT 1 FROM book_authors JOIN authors ON authors.id = book_authors.author_id
+                        WHERE book_authors.book_id = BOOKS.id
+                        AND authors.name ILIKE '%' || ${next(escapeLike(filters.author))} || '%')`
+        );
+    }
+    if (filters.title !== undefined) {
+        conditions.push(
+            `title ILIKE '%' || ${next(escapeLike(filters.title))} || '%'`
+        );
+    }
+    if (filters.yearMin !== undefined) {
+        conditions.push(`publication_year >= ${next(filters.yearMin)}`);
+    }
+    if (filters.yearMax !== undefined) {
+        conditions.push(`publication_year <= ${next(filters.yearMax)}`);
+    }
+    if (filters.ratingMin !== undefined) {
+        conditions.push(`rating_avg >= ${next(filters.ratingMin)}`);
+    }
+    if (filters.ratingMax !== undefined) {
+        conditions.push(`rating_avg <= ${next(filters.ratingMax)}`);
+    }
+    if (filters.ratingCountMin !== undefined) {
+        conditions.push(`rating_count >= ${next(filters.ratingCountMin)}`);
+    }
+    if (filters.isbnPrefix !== undefined) {
+        conditions.push(`isbn13::text LIKE ${next(filters.isbnPrefix)} || '%'`);
+    }
+
+    return { conditions, values, relevance };
+};
+
+/**
+ * Builds the expression selecting the names of a book's authors as an array, in the order
+ * they are credited.
+ *
+ * @param {string} bookId the expression for the id of the book, e.g. BOOKS.id
+ * @returns the SQL expression
+ */
+const authorsArray = (bookId: string): string =>
+    `ARRAY(SELECT authors.name FROM book_authors JOIN authors ON authors.id = book_authors.author_id
+            WHERE book_authors.book_id = ${bookId}
+            ORDER BY book_authors.position)`;
+
+/**
+ * Builds the expression selecting the series of a book as a JSON object with its id, name
+ * and the book's position in it. The expression is NULL for a book that is not in a series.
+ *
+ * @param {string} book the name or alias of the BOOKS table in the query
+ * @returns the SQL expression
+ */
+const seriesObject = (book: string): string =>
+    `(SELECT json_build_object('id', series.id, 'name', series.name, 'position', ${book}.series_position)
+            FROM series WHERE series.id = ${book}.series_id)`;
+
+/**
+ * Builds the expression for the Bayesian weighted rating of a book: its average rating pulled
+ * towards the mean rating of the whole library, the more so the fewer ratings it has. A handful
+ * of 5 star ratings no longer outranks a book rated 4.3 by millions.
+ *
+ * @param {string} book the name or alias of the BOOKS table in the query
+ * @returns the SQL expression
+ */
+const weightedRating = (book: string): string =>
+    `round(((${book}.rating_count * coalesce(${book}.rating_avg, 0)
+                + ${RATING_PRIOR_WEIGHT} * coalesce((SELECT sum(rating_avg * rating_count) / nullif(sum(rating_count), 0) FROM BOOKS), 0))
+            / (${book}.rating_count + ${RATING_PRIOR_WEIGHT}))::numeric, 4)::float`;
+
+/**
+ * ANDs the conditions together into a WHERE clause.
+ *
+ * @param {string[]} conditions the conditions to combine
+ * @returns the WHERE clause, or an empty string when there are no conditions
+ */
+const toWhereClause = (conditions: string[]): string =>
+    conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+const bookSearchFunctions = {
+    escapeLike,
+    SORT_QUERY,
+    SEARCH_QUERY,
+    SORT_CHECKS,
+    SEARCH_CHECKS,
+    toSort,
+    toSearch,
+    buildSearchWhere,
+    authorsArray,
+    seriesObject,
+    weightedRating,
+    toWhereClause,
+};
+
+export { bookSearchFunctions };
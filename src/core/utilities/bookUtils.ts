@@ -0,0 +1,162 @@
+import { bookSearchFunctions } from './bookSearchUtils';
+import { schemaFunctions } from './schemaUtils';
+import { BOOK_FIELDS, BookField, IBook, IBookRow } from '../models/book.model';
+import { IImportedBook } from '../models/bookImport.model';
+import { ValidFields } from '../models/validation.model';
+
+const { string, integer, isbn, optional, nullable } = schemaFunctions;
+
+const RATING_COUNT = optional(
+    nullable(
+        integer({
+            min: 0,
+            message: 'Rating counts must be non-negative integers',
+        })
+    )
+);
+
+// The body of /library/add. An import checks each of its rows with the same rules
+const NEW_BOOK_BODY = {
+    ISBN: isbn(),
+    title: string({ label: 'book title' }),
+    author: string({ label: 'book author' }),
+    publicationYear: integer({ label: 'publication year' }),
+    imageSmallURL: string({ label: 'small image url' }),
+    imageLargeURL: string({ label: 'large image url' }),
+    totalRatings: RATING_COUNT,
+    oneStar: RATING_COUNT,
+    twoStar: RATING_COUNT,
+    threeStar: RATING_COUNT,
+    fourStar: RATING_COUNT,
+    fiveStar: RATING_COUNT,
+};
+
+type NewBook = ValidFields<typeof NEW_BOOK_BODY>;
+
+/**
+ * Builds the select list of everything toBook needs from a book, so every route reads books
+ * the same way.
+ *
+ * @param {string} book the name or alias of the BOOKS table in the query
+ * @returns the SQL select list
+ */
+const columns = (book: string): string =>
+    // isbn13 is a BIGINT, so it is padded back to 13 digits
+    `lpad(${book}.isbn13::text, 13, '0') AS isbn13, ${book}.title,
+        ${bookSearchFunctions.authorsArray(`${book}.id`)} AS authors,
+        ${book}.publication_year, ${book}.rating_avg, ${book}.rating_count,
+        ${book}.rating_1_star, ${book}.rating_2_star, ${book}.rating_3_star,
+        ${book}.rating_4_star, ${book}.rating_5_star,
+        ${bookSearchFunctions.weightedRating(book)} AS weighted_rating,
+        ${book}.image_url, ${book}.image_small_url,
+        ${bookSearchFunctions.seriesObject(book)} AS series`;
+
+// The fields query parameter of a request for books: a comma separated list of the fields of
+// a book to send, e.g. isbn13,title,authors. Every field is sent when it is left out
+const FIELDS_QUERY = {
+    fields: optional(schemaFunctions.list(BOOK_FIELDS)),
+};
+
+/**
+ * @param {NewBook} book a book checked with the rules of NEW_BOOK_BODY
+ * @returns the star counts of the book, from one star to five
+ */
+const starsOf = (book: NewBook): number[] => [
+    book.oneStar,
+    book.twoStar,
+    book.threeStar,
+    book.fourStar,
+    book.fiveStar,
+];
+
+/**
+ * @param {NewBook} book a book checked with the rules of NEW_BOOK_BODY
+ * @returns the sum of the star counts, null unless every count is given
+ */
+const starCount = (book: NewBook): number | null => {
+    const stars = starsOf(book);
+    return stars.every((count) => count != null)
+        ? stars.reduce((sum, count) => sum + count, 0)
+        : null;
+};
+
+/**
+ * Turns a book checked with the rules of NEW_BOOK_BODY into the book written to BOOKS. The
+ * average rating is computed from the star counts, and so is the number of ratings when it is
+ * left out, provided every star count is given.
+ *
+ * @param {NewBook} book the book
+ * @returns the book as it is written to BOOKS
+ */
+const toNewBook = (book: NewBook): IImportedBook => {
+    const count = starCount(book);
+    return {
+        // the ISBN is stored as the plain ISBN-13, however it was sent
+        isbn13: book.ISBN,
+        authors: book.author,
+        publication_year: book.publicationYear,
+        title: book.title,
+        rating_avg:
+            count > 0
+                ? starsOf(book).reduce(
+                      (sum, stars, index) => sum + stars * (index + 1),
+                      0
+                  ) / count
+                : null,
+        rating_count: book.totalRatings ?? count,
+        rating_1_star: book.oneStar,
+        rating_2_star: book.twoStar,
+        rating_3_star: book.threeStar,
+        rating_4_star: book.fourStar,
+        rating_5_star: book.fiveStar,
+        image_url: book.imageLargeURL,
+        image_small_url: book.imageSmallURL,
+    };
+};
+
+/**
+ * Turns a row selected with columns into the book sent to clients.
+ *
+ * @param {IBookRow} row the row of the book
+ * @param {BookField[]} fields the fields to send, all of them when undefined
+ * @returns the book, with only the fields asked for
+ */
+const toBook = (row: IBookRow, fields?: BookField[]): Partial<IBook> => {
+    const book: IBook = {
+        isbn13: row.isbn13,
+        title: row.title,
+        authors: row.authors,
+        publicationYear: row.publication_year,
+        ratings: {
+            average: row.rating_avg,
+            count: row.rating_count,
+            weighted: row.weighted_rating,
+            distribution: {
+                1: row.rating_1_star,
+                2: row.rating_2_star,
+                3: row.rating_3_star,
+                4: row.rating_4_star,
+                5: row.rating_5_star,
+            },
+        },
+        images: {
+            large: row.image_url,
+            small: row.image_small_url,
+        },
+        series: row.series ?? null,
+    };
+    if (fields === undefined) return book;
+    return Object.fromEntries(fields.map((field) => [field, book[field]]));
+};
+
+const bookFunctions = {
+    FIELDS_QUERY,
+    RATING_COUNT,
+    NEW_BOOK_BODY,
+    columns,
+    starCount,
+    toNewBook,
+    toBook,
+};
+
+export { bookFunctions };
@@ -1,25 +1,138 @@
-//We use this create the SHA256 hash
+//We use this create the scrypt and SHA256 hashes
 import crypto from 'crypto';
 
+// The parameters new passwords are hashed with. Raising them only affects new hashes, older
+// ones keep working and are upgraded the next time their owner logs in.
+const SCRYPT_COST = 32768;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SCRYPT_KEY_LENGTH = 64;
+const CURRENT_ALGORITHM = `scrypt$${SCRYPT_COST}$${SCRYPT_BLOCK_SIZE}$${SCRYPT_PARALLELIZATION}`;
+
+export interface IPasswordHash {
+    saltedHash: string;
+    salt: string;
+    algorithm: string;
+}
+
 /**
- * Creates a salted and hashed string of hexadecimal characters. Used to encrypt
- * "safely" store user passwords.
+ * Creates a random string of hexadecimal characters with the length of size.
+ * @param {string} size the size (in bits) of the salt to create
+ * @returns random string of hexadecimal characters
+ */
+const generateSalt = (size: number) => crypto.randomBytes(size).toString('hex');
+
+/**
+ * Creates a salted and hashed string of hexadecimal characters using a single round of
+ * SHA256. Too fast to store passwords safely, only kept to check passwords stored before
+ * scrypt was used.
  * @param {string} pw the password to hash
  * @param {string} salt the salt to use when hashing
  */
-const generateHash = (pw: string, salt: string) =>
+const generateLegacyHash = (pw: string, salt: string) =>
     crypto
         .createHash('sha256')
         .update(pw + salt)
         .digest('hex');
 
 /**
- * Creates a random string of hexadecimal characters with the length of size.
- * @param {string} size the size (in bits) of the salt to create
- * @returns random string of hexadecimal characters
+ * Hashes a password with scrypt.
+ * @param {string} pw the password to hash
+ * @param {string} salt the salt to use when hashing
+ * @param {string} algorithm the algorithm and its parameters, as "scrypt$cost$blockSize$parallelization"
+ * @returns the hash as hexadecimal characters
  */
-const generateSalt = (size: number) => crypto.randomBytes(size).toString('hex');
+const generateScryptHash = (
+    pw: string,
+    salt: string,
+    algorithm: string
+): Promise<string> => {
+    const [, cost, blockSize, parallelization] = algorithm
+        .split('$')
+        .map(Number);
+    return new Promise((resolve, reject) =>
+        crypto.scrypt(
+            pw,
+            salt,
+            SCRYPT_KEY_LENGTH,
+            {
+                N: cost,
+                r: blockSize,
+                p: parallelization,
+                // scrypt needs 128 * N * r bytes, leave room above that
+                maxmem: 256 * cost * blockSize,
+            },
+            (error, key) =>
+                error ? reject(error) : resolve(key.toString('hex'))
+        )
+    );
+};
+
+/**
+ * Hashes a password for storage, with a new salt and the current algorithm.
+ * @param {string} pw the password to hash
+ * @returns the hash, its salt and the algorithm to store with them
+ */
+const hashPassword = async (pw: string): Promise<IPasswordHash> => {
+    const salt = generateSalt(32);
+    return {
+        saltedHash: await generateScryptHash(pw, salt, CURRENT_ALGORITHM),
+        salt,
+        algorithm: CURRENT_ALGORITHM,
+    };
+};
+
+/**
+ * Checks a password against a stored hash, in constant time.
+ * @param {string} pw the password to check
+ * @param {IPasswordHash} stored the stored hash, its salt and algorithm
+ * @returns whether the password matches, and whether the stored hash should be replaced
+ * by one from hashPassword
+ */
+const verifyPassword = async (pw: string, stored: IPasswordHash) => {
+    let provided: string;
+    if (stored.algorithm === 'sha256') {
+        provided = generateLegacyHash(pw, stored.salt);
+    } else if (stored.algorithm.startsWith('scrypt$')) {
+        provided = await generateScryptHash(pw, stored.salt, stored.algorithm);
+    } else {
+        throw new Error(`Unknown password hash algorithm ${stored.algorithm}`);
+    }
+
+    const expected = Buffer.from(stored.saltedHash, 'hex');
+    const actual = Buffer.from(provided, 'hex');
+    const valid =
+        expected.length === actual.length &&
+        crypto.timingSafeEqual(expected, actual);
+    return {
+        valid,
+        needsRehash: valid && stored.algorithm !== CURRENT_ALGORITHM,
+    };
+};
+
+/**
+ * Creates a random, URL safe token suitable for use as a bearer secret.
+ * @param {number} size the number of random bytes in the token
+ * @returns random string of base64url characters
+ */
+const generateToken = (size: number) =>
+    crypto.randomBytes(size).toString('base64url');
+
+/**
+ * Hashes a token created by generateToken so it can be stored and looked up without
+ * storing the token itself. Tokens are random, so they need no salt.
+ * @param {string} token the token to hash
+ * @returns the SHA256 hash of the token as hexadecimal characters
+ */
+const hashToken = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
 
-const credentialingFunctions = { generateHash, generateSalt };
+const credentialingFunctions = {
+    hashPassword,
+    verifyPassword,
+    generateSalt,
+    generateToken,
+    hashToken,
+};
 
 export { credentialingFunctions };
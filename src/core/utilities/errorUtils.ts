@@ -0,0 +1,130 @@
+import { DatabaseError } from 'pg';
+
+import { ApiError, ErrorCode } from '../models/error.model';
+
+// What a violated constraint means to the client, by the name of the constraint
+const CONSTRAINT_MESSAGES: Record<string, string> = {
+    account_username_key: 'Username exists',
+    account_email_key: 'Email exists',
+    account_phone_key: 'Phone exists',
+    books_isbn13_key: 'isbn13 already exists',
+    books_title_key: 'Title already exists',
+    demo_name_key: 'Name exists',
+    reviews_book_id_account_id_key: 'You have already reviewed this book',
+    review_reports_pkey: 'You have already reported this review',
+    shelves_account_id_name_key: 'You already have a shelf with this name',
+    shelf_books_check: 'finished_on must not be before started_on',
+};
+
+interface IErrorMapping {
+    status: number;
+    code: ErrorCode;
+    message: string;
+}
+
+// The Postgres errors caused by what the client sent, by SQLSTATE
+const SQLSTATE_ERRORS: Record<string, IErrorMapping> = {
+    // unique_violation
+    '23505': {
+        status: 400,
+        code: 'ALREADY_EXISTS',
+        message: 'The value already exists',
+    },
+    // foreign_key_violation
+    '23503': {
+        status: 400,
+        code: 'REFERENCE_NOT_FOUND',
+        message: 'A referenced value does not exist',
+    },
+    // not_null_violation
+    '23502': {
+        status: 400,
+        code: 'CONSTRAINT_VIOLATION',
+        message: 'A required value is missing',
+    },
+    // check_violation
+    '23514': {
+        status: 400,
+        code: 'CONSTRAINT_VIOLATION',
+        message: 'A value is not allowed',
+    },
+};
+
+// The Postgres errors by the class of their SQLSTATE, its first two characters
+const SQLSTATE_CLASS_ERRORS: Record<string, IErrorMapping> = {
+    // data_exception, such as a number out of range or text that is not a date
+    '22': {
+        status: 400,
+        code: 'INVALID_VALUE',
+        message: 'A value is invalid - please refer to documentation',
+    },
+    // transaction_rollback, a serialization failure or deadlock that may pass on a retry
+    '40': {
+        status: 503,
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'The server is busy - please try again',
+    },
+    // insufficient_resources, such as too many connections
+    '53': {
+        status: 503,
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'The server is busy - please try again',
+    },
+};
+
+const serverError = () =>
+    new ApiError(500, 'INTERNAL_ERROR', 'server error - contact support');
+
+/**
+ * Converts an error from Postgres into the ApiError it is answered with. Constraint violations
+ * are told apart by the name of the constraint, never by the wording of the error.
+ *
+ * @param {DatabaseError} error the error from a query
+ * @returns the error to answer with, a server error unless the request caused it
+ */
+const fromDatabaseError = (error: DatabaseError): ApiError => {
+    const mapping =
+        SQLSTATE_ERRORS[error.code] ??
+        SQLSTATE_CLASS_ERRORS[error.code?.slice(0, 2)];
+    if (mapping === undefined) return serverError();
+    return new ApiError(
+        mapping.status,
+        mapping.code,
+        CONSTRAINT_MESSAGES[error.constraint] ?? mapping.message,
+        error.constraint === undefined ? null : { constraint: error.constraint }
+    );
+};
+
+/**
+ * Converts anything thrown while handling a request into the ApiError it is answered with.
+ *
+ * @param {unknown} error what was thrown or passed to next
+ * @returns the error to answer with
+ */
+const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) return error;
+    if (error instanceof DatabaseError) return fromDatabaseError(error);
+    // the errors of express.json have the status to answer with
+    const { type, status } = (error ?? {}) as {
+        type?: string;
+        status?: number;
+    };
+    if (type === 'entity.parse.failed') {
+        return new ApiError(
+            400,
+            'MALFORMED_JSON',
+            'malformed JSON in parameters'
+        );
+    }
+    if (status >= 400 && status < 500) {
+        return new ApiError(status, 'BAD_REQUEST', (error as Error).message);
+    }
+    return serverError();
+};
+
+const errorFunctions = {
+    fromDatabaseError,
+    toApiError,
+};
+
+export { errorFunctions };
@@ -1,7 +1,54 @@
-import { pool } from './sql_conn';
+import { pool, withTransaction } from './sql_conn';
 
 import { validationFunctions } from './validationUtils';
 
+import { isbnFunctions } from './isbnUtils';
+
+import { schemaFunctions } from './schemaUtils';
+
+import { errorFunctions } from './errorUtils';
+
 import { credentialingFunctions } from './credentialingUtils';
 
-export { pool, credentialingFunctions, validationFunctions };
+import { bookSearchFunctions } from './bookSearchUtils';
+
+import { bookFunctions } from './bookUtils';
+
+import { paginationFunctions } from './paginationUtils';
+
+import { sessionFunctions } from './sessionUtils';
+
+import { mailFunctions } from './mailUtils';
+
+import { recommendationFunctions } from './recommendationUtils';
+
+import { shelfFunctions } from './shelfUtils';
+
+import { bookImportFunctions } from './bookImportUtils';
+
+import { bookExportFunctions } from './bookExportUtils';
+
+import { migrationFunctions } from './migrationUtils';
+
+import { seedFunctions } from './seedUtils';
+
+export {
+    pool,
+    withTransaction,
+    credentialingFunctions,
+    validationFunctions,
+    isbnFunctions,
+    schemaFunctions,
+    errorFunctions,
+    bookSearchFunctions,
+    bookFunctions,
+    paginationFunctions,
+    sessionFunctions,
+    mailFunctions,
+    recommendationFunctions,
+    shelfFunctions,
+    bookImportFunctions,
+    bookExportFunctions,
+    migrationFunctions,
+    seedFunctions,
+};
@@ -0,0 +1,98 @@
+type IsbnParseResult =
+    { valid: true; isbn13: string } | { valid: false; message: string };
+
+const invalid = (message: string): IsbnParseResult => ({
+    valid: false,
+    message,
+});
+
+/**
+ * Computes the check digit of an ISBN-13 from its first 12 digits, which are weighted 1 and 3
+ * in turn.
+ *
+ * @param {string} digits the first 12 digits
+ * @returns the check digit
+ */
+const isbn13CheckDigit = (digits: string): string => {
+    let sum = 0;
+    for (let index = 0; index < 12; index++) {
+        sum += Number(digits[index]) * (index % 2 == 0 ? 1 : 3);
+    }
+    return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Computes the check digit of an ISBN-10 from its first 9 digits, which are weighted 10 down
+ * to 2. A check digit of 10 is written as X.
+ *
+ * @param {string} digits the first 9 digits
+ * @returns the check digit
+ */
+const isbn10CheckDigit = (digits: string): string => {
+    let sum = 0;
+    for (let index = 0; index < 9; index++) {
+        sum += Number(digits[index]) * (10 - index);
+    }
+    const check = (11 - (sum % 11)) % 11;
+    return check == 10 ? 'X' : String(check);
+};
+
+/**
+ * Converts an ISBN-10 into the ISBN-13 of the same book, which has the 978 prefix and its own
+ * check digit.
+ *
+ * @param {string} isbn10 the ISBN-10, without hyphens
+ * @returns the ISBN-13
+ */
+const toIsbn13 = (isbn10: string): string => {
+    const digits = `978${isbn10.slice(0, 9)}`;
+    return digits + isbn13CheckDigit(digits);
+};
+
+/**
+ * Validates an ISBN and normalizes it to an ISBN-13. Hyphens and spaces are ignored, and an
+ * ISBN-10 is converted to an ISBN-13. The check digit of an ISBN-10 is always verified; that
+ * of an ISBN-13 only when checkDigit is true, as most books imported from Goodreads lost theirs.
+ *
+ * @param {unknown} value the ISBN as sent, a string or a number
+ * @param {boolean} checkDigit false to accept any 13 digits as an ISBN-13
+ * @returns the ISBN-13 when valid, otherwise the message to send back
+ */
+const parseIsbn = (value: unknown, checkDigit = true): IsbnParseResult => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return invalid(
+            'Invalid or missing isbn13 - please refer to documentation'
+        );
+    }
+    const isbn = String(value).replace(/[\s-]/g, '').toUpperCase();
+
+    if (/^\d{9}[\dX]$/.test(isbn)) {
+        if (isbn[9] !== isbn10CheckDigit(isbn)) {
+            return invalid(
+                'Invalid ISBN check digit - please refer to documentation'
+            );
+        }
+        return { valid: true, isbn13: toIsbn13(isbn) };
+    }
+    // every ISBN-13 starts with 978 or 979
+    if (!/^\d{13}$/.test(isbn) || (checkDigit && !/^97[89]/.test(isbn))) {
+        return invalid(
+            'Invalid or missing isbn13 - please refer to documentation'
+        );
+    }
+    if (checkDigit && isbn[12] !== isbn13CheckDigit(isbn)) {
+        return invalid(
+            'Invalid ISBN check digit - please refer to documentation'
+        );
+    }
+    return { valid: true, isbn13: isbn };
+};
+
+const isbnFunctions = {
+    isbn13CheckDigit,
+    isbn10CheckDigit,
+    toIsbn13,
+    parseIsbn,
+};
+
+export { isbnFunctions };
@@ -0,0 +1,51 @@
+import { IMailer, IMailMessage } from '../models/mail.model';
+
+/**
+ * Logs that a mail was sent instead of delivering it. Used until an email service is plugged
+ * in with setMailer. The text is never logged, since it can hold a password reset token.
+ */
+const consoleMailer: IMailer = {
+    send: async (message: IMailMessage) => {
+        console.log(`Mail to ${message.to}: ${message.subject}`);
+    },
+};
+
+let mailer: IMailer = consoleMailer;
+
+/**
+ * Replaces the mailer used by sendMail, for example with an email service or, in tests,
+ * with an outbox.
+ * @param {IMailer} replacement the mailer to use from now on
+ */
+const setMailer = (replacement: IMailer) => {
+    mailer = replacement;
+};
+
+/**
+ * Creates a mailer that keeps every message it is asked to send, so tests can read them.
+ * @returns the mailer and the outbox its messages are added to
+ */
+const createOutboxMailer = () => {
+    const outbox: IMailMessage[] = [];
+    return {
+        outbox,
+        send: async (message: IMailMessage) => {
+            outbox.push(message);
+        },
+    };
+};
+
+/**
+ * Sends a message with the current mailer.
+ * @param {IMailMessage} message the message to send
+ */
+const sendMail = (message: IMailMessage) => mailer.send(message);
+
+const mailFunctions = {
+    consoleMailer,
+    sendMail,
+    setMailer,
+    createOutboxMailer,
+};
+
+export { mailFunctions };
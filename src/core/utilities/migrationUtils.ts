@@ -0,0 +1,244 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+
+import { pool } from './sql_conn';
+import { IMigration, IMigrationStatus } from '../models/migration.model';
+
+// The same from src and from build, both are next to data
+const MIGRATIONS_DIR = path.join(
+    __dirname,
+    '..',
+    '..',
+    '..',
+    'data',
+    'migrations'
+);
+
+// e.g. 003_authors.up.sql: the version, the name and which way the file migrates
+const MIGRATION_FILE = /^(\d+)_(\w+)\.(up|down)\.sql$/;
+
+// The key of the advisory lock held while migrating, so two instances starting at once
+// apply each migration only once
+const MIGRATION_LOCK = 'schema_migrations';
+
+const label = (migration: { version: number; name: string }) =>
+    `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+/**
+ * Reads the migrations in data/migrations. Every migration must have an up and a down file.
+ *
+ * @returns the migrations, oldest first
+ */
+const readMigrations = (): IMigration[] => {
+    const migrations = new Map<number, Partial<IMigration>>();
+    readdirSync(MIGRATIONS_DIR).forEach((file) => {
+        const match = MIGRATION_FILE.exec(file);
+        if (match === null) return;
+        const version = Number(match[1]);
+        const migration = migrations.get(version) ?? {
+            version,
+            name: match[2],
+        };
+        if (migration.name !== match[2]) {
+            throw new Error(
+                `Migrations ${label(migration as IMigration)} and ${match[2]} share version ${version}`
+            );
+        }
+        const filePath = path.join(MIGRATIONS_DIR, file);
+        if (match[3] === 'up') migration.upFile = filePath;
+        else migration.downFile = filePath;
+        migrations.set(version, migration);
+    });
+
+    return [...migrations.values()]
+        .map((migration) => {
+            if (migration.upFile === undefined) {
+                throw new Error(
+                    `Migration ${label(migration as IMigration)} has no up file`
+                );
+            }
+            if (migration.downFile === undefined) {
+                throw new Error(
+                    `Migration ${label(migration as IMigration)} has no down file`
+                );
+            }
+            return migration as IMigration;
+        })
+        .sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Runs a task on a client holding the migration lock, creating schema_migrations first if the
+ * database has never been migrated. Waits for any other instance that is migrating.
+ *
+ * @param task what to do with the client
+ * @param {Pool} db the pool of the database to migrate
+ * @returns what the task returns
+ */
+const withMigrationLock = async <T>(
+    task: (client: PoolClient) => Promise<T>,
+    db: Pool
+): Promise<T> => {
+    const client = await db.connect();
+    try {
+        await client.query('SELECT pg_advisory_lock(hashtext($1))', [
+            MIGRATION_LOCK,
+        ]);
+        try {
+            await client.query(
+                `CREATE TABLE IF NOT EXISTS schema_migrations (
+                    version INT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+                )`
+            );
+            return await task(client);
+        } finally {
+            await client.query('SELECT pg_advisory_unlock(hashtext($1))', [
+                MIGRATION_LOCK,
+            ]);
+        }
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Lists the migrations recorded in schema_migrations.
+ *
+ * @param {PoolClient} client the client holding the migration lock
+ * @returns the applied migrations, oldest first
+ */
+const appliedMigrations = async (
+    client: PoolClient
+): Promise<IMigrationStatus[]> => {
+    const { rows } = await client.query(
+        'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+    );
+    return rows.map((row) => ({
+        version: row.version,
+        name: row.name,
+        appliedAt: row.applied_at,
+    }));
+};
+
+/**
+ * Runs the SQL of a migration and records it in schema_migrations in one transaction, so a
+ * migration that fails leaves nothing behind.
+ *
+ * @param {PoolClient} client the client holding the migration lock
+ * @param {string} file the path of the SQL file
+ * @param {string} record the statement recording the migration
+ * @param {unknown[]} values the values of the statement
+ */
+const runInTransaction = async (
+    client: PoolClient,
+    file: string,
+    record: string,
+    values: unknown[]
+) => {
+    try {
+        await client.query('BEGIN');
+        await client.query(readFileSync(file, 'utf8'));
+        await client.query(record, values);
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`${path.basename(file)} failed: ${error.message}`);
+    }
+};
+
+/**
+ * Applies every migration that has not been applied yet, oldest first. Stops at the first one
+ * that fails, keeping those applied before it.
+ *
+ * @param {Pool} db the pool of the database to migrate
+ * @returns the migrations applied
+ */
+const up = (db: Pool = pool): Promise<IMigration[]> =>
+    withMigrationLock(async (client) => {
+        const applied = new Set(
+            (await appliedMigrations(client)).map(
+                (migration) => migration.version
+            )
+        );
+        const pending = readMigrations().filter(
+            (migration) => !applied.has(migration.version)
+        );
+        for (const migration of pending) {
+            await runInTransaction(
+                client,
+                migration.upFile,
+                'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                [migration.version, migration.name]
+            );
+        }
+        return pending;
+    }, db);
+
+/**
+ * Undoes the latest applied migrations, newest first.
+ *
+ * @param {number} count how many migrations to undo
+ * @param {Pool} db the pool of the database to migrate
+ * @returns the migrations undone
+ */
+const down = (count = 1, db: Pool = pool): Promise<IMigration[]> =>
+    withMigrationLock(async (client) => {
+        const migrations = new Map(
+            readMigrations().map((migration) => [migration.version, migration])
+        );
+        const latest = (await appliedMigrations(client))
+            .reverse()
+            .slice(0, count);
+        const undone: IMigration[] = [];
+        for (const applied of latest) {
+            const migration = migrations.get(applied.version);
+            if (migration === undefined) {
+                throw new Error(
+                    `Migration ${label(applied)} has no files to undo it with`
+                );
+            }
+            await runInTransaction(
+                client,
+                migration.downFile,
+                'DELETE FROM schema_migrations WHERE version = $1',
+                [migration.version]
+            );
+            undone.push(migration);
+        }
+        return undone;
+    }, db);
+
+/**
+ * Lists every migration, applied or pending, including applied ones whose files are gone.
+ *
+ * @param {Pool} db the pool of the database to list the migrations of
+ * @returns the migrations, oldest first
+ */
+const status = (db: Pool = pool): Promise<IMigrationStatus[]> =>
+    withMigrationLock(async (client) => {
+        const applied = new Map(
+            (await appliedMigrations(client)).map((migration) => [
+                migration.version,
+                migration,
+            ])
+        );
+        const pending = readMigrations()
+            .filter((migration) => !applied.has(migration.version))
+            .map(({ version, name }) => ({ version, name, appliedAt: null }));
+        return [...applied.values(), ...pending].sort(
+            (a, b) => a.version - b.version
+        );
+    }, db);
+
+const migrationFunctions = {
+    label,
+    readMigrations,
+    up,
+    down,
+    status,
+};
+
+export { migrationFunctions };
@@ -0,0 +1,215 @@
+import { validationFunctions } from './validationUtils';
+import { schemaFunctions } from './schemaUtils';
+import {
+    ICursor,
+    IPageRequest,
+    IPagination,
+    ISort,
+} from '../models/pagination.model';
+import { IField, RequestCheck, ValidFields } from '../models/validation.model';
+
+const isStringProvided = validationFunctions.isStringProvided;
+const { integer, boolean, optional } = schemaFunctions;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Encodes a cursor into an opaque, URL safe string.
+ *
+ * @param {ICursor} cursor the position to encode
+ * @returns the encoded cursor
+ */
+const encodeCursor = (cursor: ICursor): string =>
+    Buffer.from(
+        JSON.stringify([
+            cursor.sort.column,
+            cursor.sort.direction,
+            cursor.value,
+            cursor.id,
+            cursor.before,
+        ])
+    ).toString('base64url');
+
+/**
+ * Decodes a cursor created by encodeCursor.
+ *
+ * @param {string} encoded the encoded cursor
+ * @returns the cursor, or null if it could not be decoded
+ */
+const decodeCursor = (encoded: string): ICursor | null => {
+    try {
+        const [column, direction, value, id, before] = JSON.parse(
+            Buffer.from(encoded, 'base64url').toString()
+        );
+        if (!Number.isInteger(id) || typeof before !== 'boolean') return null;
+        return { sort: { column, direction }, value, id, before };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * The cursor of a listing, decoded. Whether it matches the sort order of the request is
+ * checked by cursorCheck.
+ */
+const cursor: IField<ICursor> = {
+    check: (value) => {
+        const decoded = isStringProvided(value)
+            ? decodeCursor(value as string)
+            : null;
+        return decoded === null
+            ? { valid: false }
+            : { valid: true, value: decoded };
+    },
+    optional: false,
+};
+
+// The query parameters of a page of a listing
+const PAGE_QUERY = {
+    limit: optional(integer({ min: 1, max: MAX_LIMIT }), DEFAULT_LIMIT),
+    cursor: optional(cursor),
+    include_total: optional(boolean(), false),
+};
+
+/**
+ * Creates the check that the cursor of a request was created for the sort order of the
+ * listing, as a cursor only points somewhere meaningful in the order it was created for.
+ *
+ * @param {(query: Q) => ISort} sortOf the sort order of the listing, from the validated query
+ * string
+ * @returns the check
+ */
+const cursorCheck =
+    <Q>(sortOf: (query: Q) => ISort): RequestCheck =>
+    ({ query }) => {
+        const given = query.cursor as ICursor | undefined;
+        const sort = sortOf(query as Q);
+        if (
+            given !== undefined &&
+            (given.sort.column !== sort.column ||
+                given.sort.direction !== sort.direction)
+        ) {
+            return {
+                location: 'query',
+                field: 'cursor',
+                message: 'Invalid cursor - please refer to documentation',
+            };
+        }
+    };
+
+/**
+ * @param {ValidFields<typeof PAGE_QUERY>} query the validated query string of the request
+ * @returns the requested page
+ */
+const toPageRequest = (
+    query: ValidFields<typeof PAGE_QUERY>
+): IPageRequest => ({
+    limit: query.limit,
+    cursor: query.cursor,
+    includeTotal: query.include_total,
+});
+
+/**
+ * Builds the keyset condition, ORDER BY and LIMIT for one page of a listing. NULL values of
+ * the sort column are always ordered last, and the id column breaks ties so the order is stable.
+ *
+ * @param {ISort} sort the sort order of the listing
+ * @param {IPageRequest} page the requested page
+ * @param {number} firstPlaceholder the number of the first placeholder ($n) to use
+ * @returns the conditions, their values and the ORDER BY and LIMIT clauses
+ */
+const buildKeyset = (sort: ISort, page: IPageRequest, firstPlaceholder = 1) => {
+    const column = sort.column;
+    const before = page.cursor?.before ?? false;
+    // paging backwards scans the listing in reverse, the rows are flipped back in toPage
+    const ascending = (sort.direction === 'ASC') !== before;
+    const direction = ascending ? 'ASC' : 'DESC';
+    const compare = ascending ? '>' : '<';
+
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    const cursor = page.cursor;
+    if (cursor !== undefined) {
+        const id = `$${firstPlaceholder}`;
+        values.push(cursor.id);
+        if (cursor.value === null) {
+            conditions.push(
+                before
+                    ? `(${column} IS NOT NULL OR id ${compare} ${id})`
+                    : `(${column} IS NULL AND id ${compare} ${id})`
+            );
+        } else {
+            const value = `$${firstPlaceholder + 1}`;
+            values.push(cursor.value);
+            const past = `${column} ${compare} ${value} OR (${column} = ${value} AND id ${compare} ${id})`;
+            conditions.push(
+                before
+                    ? `(${column} IS NOT NULL AND (${past}))`
+                    : `(${column} IS NULL OR ${past})`
+            );
+        }
+    }
+
+    return {
+        conditions,
+        values,
+        orderBy: `ORDER BY ${column} IS NULL ${before ? 'DESC' : 'ASC'}, ${column} ${direction}, id ${direction}`,
+        // one extra row tells us whether there is another page
+        limit: `LIMIT ${page.limit + 1}`,
+    };
+};
+
+/**
+ * Turns the rows fetched with buildKeyset into a page of entries and its pagination
+ * details.
+ *
+ * @param {T[]} rows the fetched rows, including the id column
+ * @param {ISort} sort the sort order of the listing
+ * @param {IPageRequest} page the requested page
+ * @returns the entries of the page and the pagination details
+ */
+const toPage = <T extends object>(
+    rows: T[],
+    sort: ISort,
+    page: IPageRequest
+) => {
+    const before = page.cursor?.before ?? false;
+    const hasMore = rows.length > page.limit;
+    const pageRows = rows.slice(0, page.limit);
+    if (before) pageRows.reverse();
+
+    const cursorFor = (row: T, isBefore: boolean) =>
+        encodeCursor({
+            sort,
+            value: (row[sort.column] ?? null) as string | number | null,
+            id: (row as { id?: number }).id,
+            before: isBefore,
+        });
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
+
+    const pagination: IPagination = {
+        limit: page.limit,
+        nextCursor: last && (before || hasMore) ? cursorFor(last, false) : null,
+        prevCursor:
+            first && (before ? hasMore : page.cursor !== undefined)
+                ? cursorFor(first, true)
+                : null,
+    };
+
+    return {
+        entries: pageRows,
+        pagination,
+    };
+};
+
+const paginationFunctions = {
+    PAGE_QUERY,
+    cursorCheck,
+    toPageRequest,
+    buildKeyset,
+    toPage,
+};
+
+export { paginationFunctions };
@@ -0,0 +1,31 @@
+import { schemaFunctions } from './schemaUtils';
+import { bookFunctions } from './bookUtils';
+import { BookField, IRecommendedBookRow } from '../models/book.model';
+
+const { integer, optional } = schemaFunctions;
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// The query parameters of a request for recommendations
+const RECOMMENDATION_QUERY = {
+    limit: optional(integer({ min: 1, max: MAX_LIMIT }), DEFAULT_LIMIT),
+};
+
+/**
+ * @param {IRecommendedBookRow} row a book from recommendationRepository
+ * @param {BookField[]} fields the fields of the book to send, all of them when undefined
+ * @returns the book as sent, with its score and the reason it was picked
+ */
+const toRecommendation = (row: IRecommendedBookRow, fields?: BookField[]) => ({
+    ...bookFunctions.toBook(row, fields),
+    score: row.score,
+    reason: row.reason,
+});
+
+const recommendationFunctions = {
+    RECOMMENDATION_QUERY,
+    toRecommendation,
+};
+
+export { recommendationFunctions };
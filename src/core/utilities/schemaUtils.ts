@@ -0,0 +1,270 @@
+import { validationFunctions } from './validationUtils';
+import { isbnFunctions } from './isbnUtils';
+import { FieldCheck, FieldSchema, IField } from '../models/validation.model';
+
+const isStringProvided = validationFunctions.isStringProvided;
+const isNumberProvided = validationFunctions.isNumberProvided;
+
+interface IFieldOptions {
+    // the name of the field in its message, e.g. "book title"
+    label?: string;
+    // the message of an invalid value, instead of the one validate would word
+    message?: string;
+}
+
+interface IRangeOptions extends IFieldOptions {
+    min?: number;
+    max?: number;
+}
+
+interface IStringOptions extends IFieldOptions {
+    // trims the value, which must still not be empty
+    trim?: boolean;
+    maxLength?: number;
+}
+
+const accept = <T>(value: T): FieldCheck<T> => ({ valid: true, value });
+
+const reject = <T>(message?: string): FieldCheck<T> => ({
+    valid: false,
+    message,
+});
+
+const rule = <T>(
+    check: IField<T>['check'],
+    options: IFieldOptions = {}
+): IField<T> => ({
+    check,
+    optional: false,
+    ...options,
+});
+
+/**
+ * Reads a number sent as a number or, as everything in the query string and route parameters
+ * is, as a string.
+ *
+ * @param {unknown} value the value of the field
+ * @returns the number, or undefined when the value is not one
+ */
+const toNumber = (value: unknown): number | undefined =>
+    (typeof value === 'number' ||
+        (typeof value === 'string' && value.trim() !== '')) &&
+    isNumberProvided(value)
+        ? Number(value)
+        : undefined;
+
+const inRange = (value: number, { min, max }: IRangeOptions): boolean =>
+    (min === undefined || value >= min) && (max === undefined || value <= max);
+
+/**
+ * A field holding a string that is not empty.
+ *
+ * @param {IStringOptions} options the trimming and maximum length of the string
+ * @returns the rule
+ */
+const string = (options: IStringOptions = {}): IField<string> =>
+    rule((value) => {
+        if (!isStringProvided(value)) return reject();
+        const text = options.trim
+            ? (value as string).trim()
+            : (value as string);
+        return text.length > 0 &&
+            (options.maxLength === undefined ||
+                text.length <= options.maxLength)
+            ? accept(text)
+            : reject();
+    }, options);
+
+/**
+ * A field holding a number, converted from a string when need be.
+ *
+ * @param {IRangeOptions} options the smallest and largest number allowed
+ * @returns the rule
+ */
+const number = (options: IRangeOptions = {}): IField<number> =>
+    rule((value) => {
+        const candidate = toNumber(value);
+        return candidate !== undefined && inRange(candidate, options)
+            ? accept(candidate)
+            : reject();
+    }, options);
+
+/**
+ * A field holding a whole number, converted from a string when need be.
+ *
+ * @param {IRangeOptions} options the smallest and largest number allowed
+ * @returns the rule
+ */
+const integer = (options: IRangeOptions = {}): IField<number> =>
+    rule((value) => {
+        const candidate = toNumber(value);
+        return Number.isInteger(candidate) && inRange(candidate, options)
+            ? accept(candidate)
+            : reject();
+    }, options);
+
+/**
+ * A field holding the id of a row, a whole number from 1 up.
+ *
+ * @param {string} label the name of the id in messages, e.g. "shelf id"
+ * @returns the rule
+ */
+const id = (label: string): IField<number> => integer({ label, min: 1 });
+
+/**
+ * A field holding true or false, also when sent as the string "true" or "false".
+ *
+ * @param {IFieldOptions} options the label or message of the field
+ * @returns the rule
+ */
+const boolean = (options: IFieldOptions = {}): IField<boolean> =>
+    rule((value) => {
+        if (typeof value === 'boolean') return accept(value);
+        if (value === 'true' || value === 'false') {
+            return accept(value === 'true');
+        }
+        return reject();
+    }, options);
+
+/**
+ * A field holding one of a fixed list of strings.
+ *
+ * @param {T[]} values the strings allowed
+ * @param {IFieldOptions} options the label or message of the field
+ * @returns the rule
+ */
+const oneOf = <T extends string>(
+    values: readonly T[],
+    options: IFieldOptions = {}
+): IField<T> =>
+    rule(
+        (value) =>
+            values.includes(value as T) ? accept(value as T) : reject(),
+        options
+    );
+
+/**
+ * A field holding a comma separated list of strings out of a fixed list, e.g. "title,authors",
+ * converted to an array.
+ *
+ * @param {T[]} values the strings allowed in the list
+ * @param {IFieldOptions} options the label or message of the field
+ * @returns the rule
+ */
+const list = <T extends string>(
+    values: readonly T[],
+    options: IFieldOptions = {}
+): IField<T[]> =>
+    rule((value) => {
+        if (!isStringProvided(value)) return reject();
+        const items = (value as string).split(',') as T[];
+        return items.every((item) => values.includes(item))
+            ? accept(items)
+            : reject();
+    }, options);
+
+/**
+ * A field holding an ISBN-13 or ISBN-10, with or without hyphens, converted to the plain ISBN-13.
+ *
+ * @param {boolean} checkDigit false to accept any 13 digits, as the books imported from
+ * Goodreads lost their check digits
+ * @returns the rule
+ */
+const isbn = (checkDigit = true): IField<string> =>
+    rule((value) => {
+        const result = isbnFunctions.parseIsbn(value, checkDigit);
+        return result.valid === true
+            ? accept(result.isbn13)
+            : reject(result.message);
+    });
+
+/**
+ * A field whose value passes a check, such as one of validationFunctions, and is kept as it is.
+ *
+ * @param {(candidate: unknown) => boolean} predicate the check
+ * @param {IFieldOptions} options the label or message of the field
+ * @returns the rule
+ */
+const satisfies = <T = string>(
+    predicate: (candidate: unknown) => boolean,
+    options: IFieldOptions = {}
+): IField<T> =>
+    rule(
+        (value) => (predicate(value) ? accept(value as T) : reject()),
+        options
+    );
+
+/**
+ * Lets a field be left out, in which case it has the default value.
+ *
+ * @param {IField<T>} field the rule of the field when it is given
+ * @param {T} defaultValue the value of the field when it is left out
+ * @returns the rule
+ */
+function optional<T>(field: IField<T>): IField<T | undefined>;
+function optional<T>(field: IField<T>, defaultValue: T): IField<T>;
+function optional<T>(field: IField<T>, defaultValue?: T): IField<T> {
+    return { ...field, optional: true, defaultValue };
+}
+
+/**
+ * Lets a field be null, for instance to clear a value.
+ *
+ * @param {IField<T>} field the rule of the field when it is not null
+ * @returns the rule
+ */
+const nullable = <T>(field: IField<T>): IField<T | null> => ({
+    ...field,
+    check: (value) => (value === null ? accept(null) : field.check(value)),
+});
+
+/**
+ * Checks the fields of one part of a request, or of anything shaped like one, against their
+ * rules. Fields that are not in the schema are left alone.
+ *
+ * @param {FieldSchema} fields the rules of the fields
+ * @param {Record<string, unknown>} source the values of the fields
+ * @returns the converted values of the valid fields, and the field and message of each invalid one
+ */
+const checkFields = (fields: FieldSchema, source: Record<string, unknown>) => {
+    const values: Record<string, unknown> = {};
+    const errors: { field: string; message: string }[] = [];
+    for (const [field, rule] of Object.entries(fields)) {
+        const value = source[field];
+        if (value === undefined && rule.optional) {
+            values[field] = rule.defaultValue;
+            continue;
+        }
+        const result =
+            value === undefined ? { valid: false as const } : rule.check(value);
+        if (result.valid === true) {
+            values[field] = result.value;
+        } else {
+            errors.push({
+                field,
+                message:
+                    rule.message ??
+                    result.message ??
+                    `${rule.optional ? 'Invalid' : 'Invalid or missing'} ${rule.label ?? field} - please refer to documentation`,
+            });
+        }
+    }
+    return { values, errors };
+};
+
+const schemaFunctions = {
+    string,
+    number,
+    integer,
+    id,
+    boolean,
+    oneOf,
+    list,
+    isbn,
+    satisfies,
+    optional,
+    nullable,
+    checkFields,
+};
+
+export { schemaFunctions };
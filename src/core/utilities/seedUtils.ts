@@ -0,0 +1,104 @@
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+
+import { pool, withTransaction } from './sql_conn';
+import { bookImportFunctions } from './bookImportUtils';
+
+// The same from src and from build, both are next to data
+const BOOKS_CSV = path.join(__dirname, '..', '..', '..', 'data', 'books.csv');
+
+// The columns of BOOKS, by the columns of the Goodreads books.csv they are seeded from
+const SEED_COLUMNS = {
+    isbn13: 'isbn13',
+    authors: 'authors',
+    publication_year: 'original_publication_year',
+    title: 'title',
+    rating_avg: 'average_rating',
+    rating_count: 'ratings_count',
+    rating_1_star: 'ratings_1',
+    rating_2_star: 'ratings_2',
+    rating_3_star: 'ratings_3',
+    rating_4_star: 'ratings_4',
+    rating_5_star: 'ratings_5',
+    image_url: 'image_url',
+    image_small_url: 'small_image_url',
+};
+
+// The number of books written with one query
+const BATCH_SIZE = 500;
+
+/**
+ * Writes a batch of books as they are in the file. As with COPY, an empty field is NULL.
+ *
+ * @param {PoolClient} client the client of the transaction
+ * @param {Record<string, unknown>[]} records the records of books.csv
+ */
+const insertBatch = async (
+    client: PoolClient,
+    records: Record<string, unknown>[]
+) => {
+    const columns = Object.keys(SEED_COLUMNS);
+    const rows = records.map(
+        (record, index) =>
+            `(${columns.map((column, offset) => `$${index * columns.length + offset + 1}`).join(', ')})`
+    );
+    await client.query(
+        `INSERT INTO BOOKS(${columns.join(', ')}) VALUES ${rows.join(', ')}`,
+        records.flatMap((record) =>
+            Object.values(SEED_COLUMNS).map((field) =>
+                record[field] === '' ? null : record[field]
+            )
+        )
+    );
+};
+
+/**
+ * Seeds BOOKS from a Goodreads books.csv. The file is read by this process and sent over the
+ * connection, so it does not have to be on the database server. A database that already has
+ * books is left as it is, so seeding again does nothing.
+ *
+ * @param {string} file the path of the CSV, data/books.csv by default
+ * @param {Pool} db the pool of the database to seed
+ * @returns the number of books seeded
+ */
+const seedBooks = (
+    file: string = BOOKS_CSV,
+    db: Pool = pool
+): Promise<number> =>
+    withTransaction(async (client) => {
+        // a second seed started at the same time waits, then finds the books
+        await client.query('LOCK TABLE BOOKS IN SHARE ROW EXCLUSIVE MODE');
+        const { rowCount } = await client.query('SELECT 1 FROM BOOKS LIMIT 1');
+        if (rowCount > 0) return 0;
+
+        let seeded = 0;
+        let batch: Record<string, unknown>[] = [];
+        for await (const row of bookImportFunctions.parseCsv(
+            createReadStream(file)
+        )) {
+            if (row.valid === false) {
+                throw new Error(
+                    `${path.basename(file)} line ${row.line}: ${row.message}`
+                );
+            }
+            batch.push(row.record);
+            if (batch.length == BATCH_SIZE) {
+                await insertBatch(client, batch);
+                seeded += batch.length;
+                batch = [];
+            }
+        }
+        if (batch.length > 0) {
+            await insertBatch(client, batch);
+            seeded += batch.length;
+        }
+        return seeded;
+    }, db);
+
+const seedFunctions = {
+    BOOKS_CSV,
+    seedBooks,
+};
+
+export { seedFunctions };
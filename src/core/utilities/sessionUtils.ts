@@ -0,0 +1,149 @@
+import jwt from 'jsonwebtoken';
+
+import { credentialingFunctions } from './credentialingUtils';
+import { sessionRepository } from '../repositories/sessionRepository';
+
+const generateToken = credentialingFunctions.generateToken;
+const hashToken = credentialingFunctions.hashToken;
+
+const key = {
+    secret: process.env.JSON_WEB_TOKEN,
+};
+
+// Access tokens are short lived since they are only checked against the session on use,
+// refresh tokens last as long as the single access token used to.
+const ACCESS_TOKEN_LIFETIME = '15 minutes';
+const REFRESH_TOKEN_LIFETIME_DAYS = 14;
+
+interface IAccountClaims {
+    id: number;
+    role: number;
+    name: string;
+}
+
+type RefreshResult =
+    | { valid: true; accessToken: string; refreshToken: string }
+    | { valid: false; message: string };
+
+/**
+ * Signs an access token for an account that belongs to a session.
+ * @param {IAccountClaims} claims the account the token is for
+ * @param {number} sessionId the session the token belongs to
+ * @returns the signed JSON Web Token
+ */
+const signAccessToken = (claims: IAccountClaims, sessionId: number) =>
+    jwt.sign({ ...claims, sid: sessionId }, key.secret, {
+        expiresIn: ACCESS_TOKEN_LIFETIME,
+    });
+
+/**
+ * Creates a new refresh token for a session, storing only its hash.
+ * @param {number} sessionId the session the token belongs to
+ * @returns the refresh token
+ */
+const createRefreshToken = async (sessionId: number): Promise<string> => {
+    const refreshToken = generateToken(32);
+    await sessionRepository.createRefreshToken(
+        sessionId,
+        hashToken(refreshToken),
+        REFRESH_TOKEN_LIFETIME_DAYS
+    );
+    return refreshToken;
+};
+
+/**
+ * Starts a new session for an account, as on login or registration.
+ * @param {IAccountClaims} claims the account signing in
+ * @returns the access token and the first refresh token of the session
+ */
+const startSession = async (claims: IAccountClaims) => {
+    const sessionId = await sessionRepository.create(claims.id);
+    return {
+        accessToken: signAccessToken(claims, sessionId),
+        refreshToken: await createRefreshToken(sessionId),
+    };
+};
+
+/**
+ * Revokes a session, which stops its access and refresh tokens from working.
+ * @param {number} sessionId the session to revoke
+ */
+const revokeSession = (sessionId: number): Promise<void> =>
+    sessionRepository.revoke(sessionId);
+
+/**
+ * Revokes every session of an account.
+ * @param {number} accountId the account to sign out everywhere
+ * @param {number} keepSessionId a session to leave signed in, such as the one making the request
+ * @returns the number of sessions revoked
+ */
+const revokeAllSessions = (
+    accountId: number,
+    keepSessionId?: number
+): Promise<number> => sessionRepository.revokeAll(accountId, keepSessionId);
+
+/**
+ * Checks that a session exists and has not been revoked.
+ * @param {number} sessionId the session to check
+ * @returns true if tokens of the session may still be used, false otherwise
+ */
+const isSessionActive = (sessionId: number): Promise<boolean> =>
+    sessionRepository.isActive(sessionId);
+
+/**
+ * Exchanges a refresh token for a new access token and refresh token. Each refresh token
+ * can only be used once: presenting one again means it was stolen, so the whole session
+ * is revoked.
+ * @param {string} refreshToken the refresh token to exchange
+ * @returns the new tokens when valid, otherwise the message to send back
+ */
+const refreshSession = async (refreshToken: string): Promise<RefreshResult> => {
+    const row = await sessionRepository.findRefreshToken(
+        hashToken(refreshToken)
+    );
+    if (row === undefined || row.revoked_at !== null) {
+        return { valid: false, message: 'Refresh token is not valid' };
+    }
+
+    const reused: RefreshResult = {
+        valid: false,
+        message:
+            'Refresh token was already used - the session has been revoked',
+    };
+    if (row.used_at !== null) {
+        await revokeSession(row.session_id);
+        return reused;
+    }
+    if (row.expired) {
+        return { valid: false, message: 'Refresh token has expired' };
+    }
+
+    // only one of two concurrent requests with the same token gets to use it
+    if (!(await sessionRepository.useRefreshToken(row.token_id))) {
+        await revokeSession(row.session_id);
+        return reused;
+    }
+
+    return {
+        valid: true,
+        accessToken: signAccessToken(
+            {
+                name: row.firstname,
+                role: row.account_role,
+                id: row.account_id,
+            },
+            row.session_id
+        ),
+        refreshToken: await createRefreshToken(row.session_id),
+    };
+};
+
+const sessionFunctions = {
+    startSession,
+    refreshSession,
+    revokeSession,
+    revokeAllSessions,
+    isSessionActive,
+};
+
+export { sessionFunctions };
@@ -0,0 +1,23 @@
+import { bookFunctions } from './bookUtils';
+import { BookField } from '../models/book.model';
+import { IShelfBookRow } from '../models/shelf.model';
+
+/**
+ * @param {IShelfBookRow} row a book on a shelf from shelfRepository
+ * @param {BookField[]} fields the fields of the book to send, all of them when undefined
+ * @returns the book as sent, with the progress recorded for it
+ */
+const toShelfBook = (row: IShelfBookRow, fields?: BookField[]) => ({
+    book: bookFunctions.toBook(row, fields),
+    added_at: row.added_at,
+    current_page: row.current_page,
+    progress_percent: row.progress_percent,
+    started_on: row.started_on,
+    finished_on: row.finished_on,
+});
+
+const shelfFunctions = {
+    toShelfBook,
+};
+
+export { shelfFunctions };
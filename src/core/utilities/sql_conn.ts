@@ -1,5 +1,5 @@
 // Obtain a Pool of DB connections.
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig } from 'pg';
 
 const pgConfig: PoolConfig =
     process.env.PGHOST !== undefined
@@ -19,4 +19,85 @@ const pgConfig: PoolConfig =
 
 const pool = new Pool(pgConfig);
 
-export { pool };
+// Where a query can run: the pool, or the client of a transaction
+type Queryable = Pool | PoolClient;
+
+/**
+ * Runs a task in a transaction on a client of the pool, and ends the transaction as asked once
+ * the task resolves. It is always rolled back if the task throws.
+ *
+ * @param task what to do in the transaction, every query of it must use the client
+ * @param {Pool} db the pool to take the client from
+ * @param {string} end how to end the transaction once the task resolves
+ * @returns what the task returns
+ */
+const runTransaction = async <T>(
+    task: (client: PoolClient) => Promise<T>,
+    db: Pool,
+    end: 'COMMIT' | 'ROLLBACK'
+): Promise<T> => {
+    const client = await db.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await task(client);
+        await client.query(end);
+        return result;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Runs a task in a transaction on a client of the pool. The transaction is committed once the
+ * task resolves and rolled back if it throws, so either all of its changes are kept or none.
+ *
+ * @param task what to do in the transaction, every query of it must use the client
+ * @param {Pool} db the pool to take the client from
+ * @returns what the task returns
+ */
+const withTransaction = <T>(
+    task: (client: PoolClient) => Promise<T>,
+    db: Pool = pool
+): Promise<T> => runTransaction(task, db, 'COMMIT');
+
+/**
+ * Runs a task in a transaction that is always rolled back, to find out what the task would do
+ * without keeping any of its changes.
+ *
+ * @param task what to do in the transaction, every query of it must use the client
+ * @param {Pool} db the pool to take the client from
+ * @returns what the task returns
+ */
+const withRollback = <T>(
+    task: (client: PoolClient) => Promise<T>,
+    db: Pool = pool
+): Promise<T> => runTransaction(task, db, 'ROLLBACK');
+
+/**
+ * Runs part of a transaction under a savepoint. If the task throws, its changes are undone and
+ * the error is thrown again, but the transaction can go on.
+ *
+ * @param {PoolClient} client the client of the transaction
+ * @param task what to do under the savepoint, every query of it must use the client
+ * @returns what the task returns
+ */
+const withSavepoint = async <T>(
+    client: PoolClient,
+    task: () => Promise<T>
+): Promise<T> => {
+    // a savepoint of the same name inside the task hides this one until it is released
+    await client.query('SAVEPOINT task');
+    try {
+        const result = await task();
+        await client.query('RELEASE SAVEPOINT task');
+        return result;
+    } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT task');
+        throw error;
+    }
+};
+
+export { pool, withTransaction, withRollback, withSavepoint, Queryable };
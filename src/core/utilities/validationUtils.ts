@@ -42,6 +42,75 @@ function isNumber(x: any): x is number {
     return typeof x === 'number';
 }
 
+/**
+ * Checks the parameter to see if it is an acceptable password: at least 8 characters with
+ * an uppercase letter, a lowercase letter and a number.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is an acceptable password, false otherwise
+ */
+function isValidPassword(candidate: unknown): boolean {
+    return (
+        isString(candidate) &&
+        candidate.length >= 8 &&
+        /[A-Z]/.test(candidate) &&
+        /[a-z]/.test(candidate) &&
+        /\d/.test(candidate)
+    );
+}
+
+/**
+ * Checks the parameter to see if it is a phone number: 10 to 15 digits and nothing else.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is a phone number, false otherwise
+ */
+function isValidPhone(candidate: unknown): boolean {
+    return isString(candidate) && /^\d{10,15}$/.test(candidate);
+}
+
+/**
+ * Checks the parameter to see if it looks like an email address: something, an "@" and a
+ * domain name.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter looks like an email address, false otherwise
+ */
+function isValidEmail(candidate: unknown): boolean {
+    return isString(candidate) && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(candidate);
+}
+
+/**
+ * Checks the parameter to see if it is an absolute http or https URL.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is an http or https URL, false otherwise
+ */
+function isValidUrl(candidate: unknown): boolean {
+    if (!isString(candidate)) return false;
+    try {
+        const url = new URL(candidate);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks the parameter to see if it is a date written as YYYY-MM-DD.
+ *
+ * @param {unknown} candidate the value to check
+ * @returns true if the parameter is such a date, false otherwise
+ */
+function isValidDate(candidate: unknown): boolean {
+    return (
+        isString(candidate) &&
+        /^\d{4}-\d{2}-\d{2}$/.test(candidate) &&
+        !isNaN(Date.parse(candidate)) &&
+        new Date(candidate).toISOString().startsWith(candidate)
+    );
+}
+
 // Feel free to add your own validations functions!
 // for example: isNumericProvided, isValidPassword, isValidEmail, etc
 // don't forget to export any
@@ -50,6 +119,11 @@ const validationFunctions = {
     isStringProvided,
     isNumberProvided,
     isNumber,
+    isValidPassword,
+    isValidPhone,
+    isValidEmail,
+    isValidUrl,
+    isValidDate,
 };
 
 export { validationFunctions };
@@ -3,12 +3,19 @@ import express, { Express, Request, Response } from 'express';
 import cors from 'cors';
 
 import { routes } from './routes';
+import {
+    assignRequestId,
+    handleNotFound,
+    handleErrors,
+} from './core/middleware';
 
 const app: Express = express();
 
 const PORT: number = parseInt(process.env.PORT) || 4000;
 
-app.use(cors());
+app.use(assignRequestId);
+
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
 
 /*
  * This middleware function parses JSON in the body of POST requests
@@ -22,6 +29,18 @@ app.get('/', (request: Request, response: Response) => {
     response.send('<h1>Hello World!</h1>');
 });
 
-app.listen(PORT, () => {
-    return console.log(`Express is listening at http://localhost:${PORT}`);
-});
+/*
+ * Requests no route answered, and every error of a route, end up here and are answered
+ * with the error envelope
+ */
+app.use(handleNotFound);
+app.use(handleErrors);
+
+// Only listens when run, so the tests can send requests to the app without a port
+if (require.main === module) {
+    app.listen(PORT, () => {
+        return console.log(`Express is listening at http://localhost:${PORT}`);
+    });
+}
+
+export { app };
@@ -0,0 +1,55 @@
+/*
+ * Migrates the database in PGHOST/DATABASE_URL with the migrations in data/migrations:
+ *     npm run migrate up            applies every pending migration
+ *     npm run migrate down [count]  undoes the latest migration, or the latest count of them
+ *     npm run migrate status        lists every migration and whether it has been applied
+ */
+import { migrationFunctions, pool } from './core/utilities';
+
+const label = migrationFunctions.label;
+
+const USAGE = 'Usage: npm run migrate up | down [count] | status';
+
+const migrate = async (command: string, count?: string) => {
+    switch (command) {
+        case 'up': {
+            const applied = await migrationFunctions.up();
+            applied.forEach((migration) =>
+                console.log(`Applied ${label(migration)}`)
+            );
+            if (applied.length == 0) console.log('No pending migrations');
+            break;
+        }
+        case 'down': {
+            if (count !== undefined && !/^[1-9]\d*$/.test(count)) {
+                throw new Error(USAGE);
+            }
+            const undone = await migrationFunctions.down(
+                count === undefined ? 1 : Number(count)
+            );
+            undone.forEach((migration) =>
+                console.log(`Undid ${label(migration)}`)
+            );
+            if (undone.length == 0) console.log('No applied migrations');
+            break;
+        }
+        case 'status': {
+            const migrations = await migrationFunctions.status();
+            migrations.forEach((migration) =>
+                console.log(
+                    `${label(migration)}  ${migration.appliedAt?.toISOString() ?? 'pending'}`
+                )
+            );
+            break;
+        }
+        default:
+            throw new Error(USAGE);
+    }
+};
+
+migrate(process.argv[2], process.argv[3])
+    .catch((error) => {
+        console.error(error.message);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
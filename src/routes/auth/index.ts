@@ -2,9 +2,13 @@ import express, { Router } from 'express';
 
 import { signinRouter } from './login';
 import { registerRouter } from './register';
+import { tokenRouter } from './tokens';
+import { passwordRouter } from './password';
 
 const authRoutes: Router = express.Router();
 
 authRoutes.use(signinRouter, registerRouter);
 
+authRoutes.use('/auth', tokenRouter, passwordRouter);
+
 export { authRoutes };
@@ -1,13 +1,14 @@
 // express is the framework we're going to use to handle requests
-import express, { Request, Response, Router, NextFunction } from 'express';
-
-import jwt from 'jsonwebtoken';
+import express, { Request, Response, Router } from 'express';
 
 import {
-    pool,
-    validationFunctions,
+    schemaFunctions,
     credentialingFunctions,
+    sessionFunctions,
 } from '../../core/utilities';
+import { accountRepository } from '../../core/repositories';
+import { asyncHandler, validate } from '../../core/middleware';
+import { BadRequestError, IValidRequest } from '../../core/models';
 
 export interface Auth {
     email: string;
@@ -18,13 +19,16 @@ export interface AuthRequest extends Request {
     auth: Auth;
 }
 
-const isStringProvided = validationFunctions.isStringProvided;
-const generateHash = credentialingFunctions.generateHash;
+const hashPassword = credentialingFunctions.hashPassword;
+const verifyPassword = credentialingFunctions.verifyPassword;
 
 const signinRouter: Router = express.Router();
 
-const key = {
-    secret: process.env.JSON_WEB_TOKEN,
+const CREDENTIALS = {
+    body: {
+        email: schemaFunctions.string(),
+        password: schemaFunctions.string(),
+    },
 };
 
 /**
@@ -32,118 +36,82 @@ const key = {
  * @apiName PostLogin
  * @apiGroup Auth
  *
- * @apiDescription This endpoint allows a user to log in by providing valid email and password credentials. 
- * If the credentials are correct, the response will include a JSON Web Token (JWT) for authentication and 
+ * @apiDescription This endpoint allows a user to log in by providing valid email and password credentials.
+ * If the credentials are correct, the response will include a JSON Web Token (JWT) for authentication and
  * a user object containing relevant user details.
  *
  * @apiBody {String} email The user's email address (must be valid and registered).
  * @apiBody {String} password The user's password (must match the password associated with the email).
  *
- * @apiSuccess {String} accessToken JSON Web Token (JWT) for authenticated access.
+ * @apiSuccess {String} accessToken JSON Web Token (JWT) for authenticated access, valid for 15 minutes.
+ * @apiSuccess {String} refreshToken single use token for <code>/auth/refresh</code>, valid for 14 days.
  * @apiSuccess {Object} user An object containing the logged-in user's details:
  * - `name` {String}: The user's full name (first name + last name).
  * - `email` {String}: The user's email address.
  * - `role` {Number}: The user's role (e.g., 1 for Admin, 2 for User).
  * - `id` {Number}: The unique ID associated with the user.
  *
- * @apiError (400: Missing Parameters) {String} message "Missing required information" when either the email or password is not provided in the request.
- * @apiError (400: Invalid Credentials) {String} message "Invalid Credentials" when either:
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing <code>field</code> - please refer to documentation" when either the email or password is not provided in the request.
+ * @apiError (400: Invalid Credentials) {String} error.message "Invalid Credentials" when either:
  * - The supplied email does not exist in the database.
  * - The supplied password does not match the one associated with the email in the database.
- *
+ * @apiUse ValidationErrors
  */
 signinRouter.post(
     '/login',
-    (request: AuthRequest, response: Response, next: NextFunction) => {
-        if (
-            isStringProvided(request.body.email) &&
-            isStringProvided(request.body.password)
-        ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing required information',
-            });
-        }
-    },
-    (request: AuthRequest, response: Response) => {
-        const theQuery = `SELECT salted_hash, salt, Account_Credential.account_id, account.email, account.firstname, account.lastname, account.phone, account.username, account.account_role FROM Account_Credential
-                      INNER JOIN Account ON
-                      Account_Credential.account_id=Account.account_id 
-                      WHERE Account.email=$1`;
-        const values = [request.body.email];
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount == 0) {
-                    console.error('User not found');
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
-                    return;
-                } else if (result.rowCount > 1) {
-                    //log the error
-                    console.error(
-                        'DB Query error on sign in: too many results returned'
-                    );
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                    return;
-                }
-
-                //Retrieve the salt used to create the salted-hash provided from the DB
-                const salt = result.rows[0].salt;
+    validate(CREDENTIALS),
+    asyncHandler(
+        async (
+            request: AuthRequest & IValidRequest<typeof CREDENTIALS>,
+            response: Response
+        ) => {
+            const { email, password } = request.valid.body;
+            const accounts =
+                await accountRepository.findCredentialsByEmail(email);
+            if (accounts.length == 0) {
+                throw new BadRequestError('Invalid Credentials');
+            } else if (accounts.length > 1) {
+                throw new Error('sign in: too many results returned');
+            }
+            const [account] = accounts;
 
-                //Retrieve the salted-hash password provided from the DB
-                const storedSaltedHash = result.rows[0].salted_hash;
+            //Check the provided password against the stored hash, made with the stored salt and algorithm
+            const { valid, needsRehash } = await verifyPassword(password, {
+                saltedHash: account.salted_hash,
+                salt: account.salt,
+                algorithm: account.hash_algorithm,
+            });
+            if (!valid) {
+                throw new BadRequestError('Invalid Credentials');
+            }
 
-                //Generate a hash based on the stored salt and the provided password
-                const providedSaltedHash = generateHash(
-                    request.body.password,
-                    salt
+            //the password is only known now, so this is the time to upgrade an outdated hash
+            if (needsRehash) {
+                await accountRepository.updateCredential(
+                    account.credential_id,
+                    await hashPassword(password)
                 );
+            }
 
-                //Did our salted hash match their salted hash?
-                if (storedSaltedHash === providedSaltedHash) {
-                    //credentials match. get a new JWT
-                    const accessToken = jwt.sign(
-                        {
-                            name: result.rows[0].firstname,
-                            role: result.rows[0].account_role,
-                            id: result.rows[0].account_id,
-                        },
-                        key.secret,
-                        {
-                            expiresIn: '14 days', // expires in 14 days
-                        }
-                    );
-                   
-                    response.json({
-                        accessToken,
-                        user: {
-                            id: result.rows[0].account_id,
-                            email: result.rows[0].email,
-                            name: `${result.rows[0].firstname} ${result.rows[0].lastname}`,
-                            role: 'Admin',
-                        },
-                    });
-                } else {
-                    console.error('Credentials did not match');
-                    //credentials dod not match
-                    response.status(400).send({
-                        message: 'Invalid Credentials',
-                    });
-                }
-            })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on sign in');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
+            //credentials match. start a new session with its own tokens
+            const { accessToken, refreshToken } =
+                await sessionFunctions.startSession({
+                    name: account.firstname,
+                    role: account.account_role,
+                    id: account.account_id,
                 });
+            response.json({
+                accessToken,
+                refreshToken,
+                user: {
+                    id: account.account_id,
+                    email: account.email,
+                    name: `${account.firstname} ${account.lastname}`,
+                    role: account.account_role,
+                },
             });
-    }
+        }
+    )
 );
 
 export { signinRouter };
@@ -0,0 +1,217 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router } from 'express';
+
+import {
+    validationFunctions,
+    schemaFunctions,
+    credentialingFunctions,
+    sessionFunctions,
+    mailFunctions,
+    withTransaction,
+} from '../../core/utilities';
+import {
+    accountRepository,
+    passwordResetRepository,
+} from '../../core/repositories';
+import { asyncHandler, checkToken, validate } from '../../core/middleware';
+import { BadRequestError, IJwtRequest, IValidRequest } from '../../core/models';
+
+const { string, satisfies } = schemaFunctions;
+const hashPassword = credentialingFunctions.hashPassword;
+const verifyPassword = credentialingFunctions.verifyPassword;
+const generateToken = credentialingFunctions.generateToken;
+const hashToken = credentialingFunctions.hashToken;
+
+const RESET_TOKEN_LIFETIME_MINUTES = 60;
+
+const passwordRouter: Router = express.Router();
+
+// a new password has to follow the password rules
+const newPassword = () =>
+    satisfies(validationFunctions.isValidPassword, { label: 'password' });
+
+const PASSWORD_CHANGE = {
+    body: { oldPassword: string(), newPassword: newPassword() },
+};
+
+const PASSWORD_FORGOT = { body: { email: string() } };
+
+const PASSWORD_RESET = { body: { token: string(), password: newPassword() } };
+
+/**
+ * @api {put} /auth/password Request to change the password
+ * @apiName PutPassword
+ * @apiGroup Auth
+ *
+ * @apiDescription Changes the password of the signed in user. Every other session of the
+ * user is logged out, the session making the request stays signed in, and the reset tokens
+ * mailed to the user that were not used yet no longer work.
+ *
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ *
+ * @apiBody {String} oldPassword the current password
+ * @apiBody {String} newPassword the new password (must be at least 8 characters, include one uppercase letter, one lowercase letter, and one number)
+ *
+ * @apiSuccess {String} message "Password changed"
+ *
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing oldPassword - please refer to documentation"
+ * @apiError (400: Invalid Password) {String} error.message "Invalid or missing password - please refer to documentation" if the new password does not meet the rules
+ * @apiError (400: Invalid Credentials) {String} error.message "Invalid Credentials" if the old password is wrong
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ * @apiUse ValidationErrors
+ */
+passwordRouter.put(
+    '/password',
+    checkToken,
+    validate(PASSWORD_CHANGE),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof PASSWORD_CHANGE>,
+            response: Response
+        ) => {
+            const credentials = await accountRepository.findCredentials(
+                request.claims.id
+            );
+            const verified =
+                credentials.length == 1 &&
+                (
+                    await verifyPassword(request.valid.body.oldPassword, {
+                        saltedHash: credentials[0].salted_hash,
+                        salt: credentials[0].salt,
+                        algorithm: credentials[0].hash_algorithm,
+                    })
+                ).valid;
+            if (!verified) {
+                throw new BadRequestError('Invalid Credentials');
+            }
+
+            // a reset token mailed before cannot set the password back
+            const hashed = await hashPassword(request.valid.body.newPassword);
+            await withTransaction(async (client) => {
+                await accountRepository.updateCredential(
+                    credentials[0].credential_id,
+                    hashed,
+                    client
+                );
+                await passwordResetRepository.consumeAll(
+                    request.claims.id,
+                    client
+                );
+            });
+            await sessionFunctions.revokeAllSessions(
+                request.claims.id,
+                request.claims.sid
+            );
+            response.send({
+                message: 'Password changed',
+            });
+        }
+    )
+);
+
+/**
+ * @api {post} /auth/password/forgot Request a password reset
+ * @apiName PostPasswordForgot
+ * @apiGroup Auth
+ *
+ * @apiDescription Mails a password reset token to the given email if it belongs to a user.
+ * The response is the same whether it does or not, so it cannot be used to find out who
+ * is registered. The token can be used once, within an hour, and no longer works once the
+ * password is changed or reset, even with another token.
+ *
+ * @apiBody {String} email the email of the user
+ *
+ * @apiSuccess {String} message "If the email is registered, a reset token has been sent to it"
+ *
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing email - please refer to documentation"
+ * @apiUse ValidationErrors
+ */
+passwordRouter.post(
+    '/password/forgot',
+    validate(PASSWORD_FORGOT),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof PASSWORD_FORGOT>,
+            response: Response
+        ) => {
+            const account = await accountRepository.findByEmail(
+                request.valid.body.email
+            );
+            if (account !== undefined) {
+                const token = generateToken(32);
+                await passwordResetRepository.create(
+                    account.account_id,
+                    hashToken(token),
+                    RESET_TOKEN_LIFETIME_MINUTES
+                );
+                await mailFunctions.sendMail({
+                    to: account.email,
+                    subject: 'Reset your password',
+                    text: `Use this token to reset your password within the next hour: ${token}`,
+                });
+            }
+            response.send({
+                message:
+                    'If the email is registered, a reset token has been sent to it',
+            });
+        }
+    )
+);
+
+/**
+ * @api {post} /auth/password/reset Request to reset the password
+ * @apiName PostPasswordReset
+ * @apiGroup Auth
+ *
+ * @apiDescription Sets a new password with a token from <code>/auth/password/forgot</code>.
+ * Every session of the user is logged out, and the other reset tokens of the user no longer work.
+ *
+ * @apiBody {String} token the reset token from the email
+ * @apiBody {String} password the new password (must be at least 8 characters, include one uppercase letter, one lowercase letter, and one number)
+ *
+ * @apiSuccess {String} message "Password reset"
+ *
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing token - please refer to documentation"
+ * @apiError (400: Invalid Password) {String} error.message "Invalid or missing password - please refer to documentation"
+ * @apiError (400: Invalid Token) {String} error.message "Invalid or expired reset token" if the token is unknown, expired or already used
+ * @apiUse ValidationErrors
+ */
+passwordRouter.post(
+    '/password/reset',
+    validate(PASSWORD_RESET),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof PASSWORD_RESET>,
+            response: Response
+        ) => {
+            // the token is checked before the password is hashed, so hashing, which is slow
+            // on purpose, only happens for a valid token. Using up the token and setting the
+            // password happen together or not at all, along with using up the other tokens
+            // of the account
+            const accountId = await withTransaction(async (client) => {
+                const accountId = await passwordResetRepository.consume(
+                    hashToken(request.valid.body.token),
+                    client
+                );
+                if (accountId === undefined) {
+                    throw new BadRequestError('Invalid or expired reset token');
+                }
+                await accountRepository.updateCredentialOf(
+                    accountId,
+                    await hashPassword(request.valid.body.password),
+                    client
+                );
+                await passwordResetRepository.consumeAll(accountId, client);
+                return accountId;
+            });
+
+            await sessionFunctions.revokeAllSessions(accountId);
+            response.send({
+                message: 'Password reset',
+            });
+        }
+    )
+);
+
+export { passwordRouter };
@@ -1,70 +1,43 @@
 // express is the framework we're going to use to handle requests
-import express, { Request, Response, Router, NextFunction } from 'express';
-
-import jwt from 'jsonwebtoken';
-
-const key = {
-    secret: process.env.JSON_WEB_TOKEN,
-};
+import express, { Response, Router } from 'express';
 
 import {
-    pool,
+    withTransaction,
     validationFunctions,
+    schemaFunctions,
     credentialingFunctions,
+    sessionFunctions,
 } from '../../core/utilities';
+import { accountRepository } from '../../core/repositories';
+import { asyncHandler, validate } from '../../core/middleware';
+import { IValidRequest, Role } from '../../core/models';
 
-const isStringProvided = validationFunctions.isStringProvided;
-//const isNumberProvided = validationFunctions.isNumberProvided;
-const generateHash = credentialingFunctions.generateHash;
-const generateSalt = credentialingFunctions.generateSalt;
+const { string, satisfies } = schemaFunctions;
+const hashPassword = credentialingFunctions.hashPassword;
 
 const registerRouter: Router = express.Router();
 
-export interface IUserRequest extends Request {
-    id: number;
-}
-
-// Password must be at least 8 characters, contain one uppercase letter, one lowercase letter, and one number
-const isValidPassword = (password: string): boolean =>
-    isStringProvided(password) &&
-    password.length >= 8 &&
-    /[A-Z]/.test(password) &&
-    /[a-z]/.test(password) &&
-    /\d/.test(password);
-
-// Phone number validation requires at least 10 digits (no special characters)
-const isValidPhone = (phone: string): boolean =>
-    isStringProvided(phone) && /^\d{10,}$/.test(phone);
-
-// Email validation requires the "@" symbol and a domain name
-const isValidEmail = (email: string): boolean =>
-    isStringProvided(email) && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-
-const isValidRole = (priority: string): boolean =>
-    validationFunctions.isNumberProvided(priority) &&
-    parseInt(priority) >= 1 &&
-    parseInt(priority) <= 5;
-
-// middleware functions may be defined elsewhere!
-const emailMiddlewareCheck = (
-    request: Request,
-    response: Response,
-    next: NextFunction
-) => {
-    if (isValidEmail(request.body.email)) {
-        next();
-    } else {
-        response.status(400).send({
-            message:
-                'Invalid or missing email  - please refer to documentation',
-        });
-    }
+const REGISTRATION = {
+    body: {
+        // Email validation requires the "@" symbol and a domain name
+        email: satisfies(validationFunctions.isValidEmail),
+        firstname: string(),
+        lastname: string(),
+        username: string(),
+        // Phone number validation requires 10 to 15 digits (no special characters)
+        phone: satisfies(validationFunctions.isValidPhone, {
+            label: 'phone number',
+        }),
+        // Password must be at least 8 characters, contain one uppercase letter, one lowercase letter, and one number
+        password: satisfies(validationFunctions.isValidPassword),
+    },
 };
 
 /**
  * @api {post} /register Request to register a user
  *
  * @apiDescription This endpoint allows a new user to register an account. All input fields must meet specific validation rules. See details below for required parameters and validation rules.
+ * Every new account is a Member, only an admin can give it another role with <code>PUT /users/:id/role</code>.
  *
  * @apiName PostRegister
  * @apiGroup Auth
@@ -74,165 +47,68 @@ const emailMiddlewareCheck = (
  * @apiBody {String} email The user's email address (must include '@' and a domain, and be unique).
  * @apiBody {String} password The user's password (must be at least 8 characters, include one uppercase letter, one lowercase letter, and one number).
  * @apiBody {String} username A unique username for the user (required).
- * @apiBody {String} role A role for the user (value must be between 1 and 5).
- * @apiBody {String} phone The user's phone number (must contain at least 10 digits, no special characters).
+ * @apiBody {String} phone The user's phone number (must contain 10 to 15 digits, no special characters).
  *
- * @apiSuccess (Success 201) {String} accessToken A newly created JSON Web Token (JWT) for the user.
+ * @apiSuccess (Success 201) {String} accessToken A newly created JSON Web Token (JWT) for the user, valid for 15 minutes.
+ * @apiSuccess (Success 201) {String} refreshToken A single use token for <code>/auth/refresh</code>, valid for 14 days.
  * @apiSuccess (Success 201) {Object} user An object containing the newly registered user's details:
  * - `name` {String}: The user's full name (first name + last name).
  * - `email` {String}: The user's email address.
- * - `role` {Number}: The user's role.
+ * - `role` {Number}: The user's role, 5 for Member.
  * - `id` {Number}: The unique ID of the user.
  *
- * @apiError (400: Missing Parameters) {String} message "Missing required information" if any required fields are missing.
- * @apiError (400: Invalid Password) {String} message "Invalid or missing password - please refer to documentation" if the password does not meet validation rules.
- * @apiError (400: Invalid Phone) {String} message "Invalid or missing phone number - please refer to documentation" if the phone number does not meet validation rules.
- * @apiError (400: Invalid Email) {String} message "Invalid or missing email - please refer to documentation" if the email does not meet validation rules.
- * @apiError (400: Invalid Role) {String} message "Invalid or missing role - please refer to documentation" if the role is not between 1 and 5.
- * @apiError (400: Username exists) {String} message "Username exists" if the username is already in use.
- * @apiError (400: Email exists) {String} message "Email exists" if the email is already in use.
- *
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing <code>field</code> - please refer to documentation" if the first name, last name or username is missing.
+ * @apiError (400: Invalid Password) {String} error.message "Invalid or missing password - please refer to documentation" if the password does not meet validation rules.
+ * @apiError (400: Invalid Phone) {String} error.message "Invalid or missing phone number - please refer to documentation" if the phone number does not meet validation rules.
+ * @apiError (400: Invalid Email) {String} error.message "Invalid or missing email - please refer to documentation" if the email does not meet validation rules.
+ * @apiError (400: Username exists) {String} error.message "Username exists" if the username is already in use.
+ * @apiError (400: Email exists) {String} error.message "Email exists" if the email is already in use.
+ * @apiUse ValidationErrors
  */
 registerRouter.post(
     '/register',
-    emailMiddlewareCheck,
-    (request: Request, response: Response, next: NextFunction) => {
-        if (
-            isStringProvided(request.body.firstname) &&
-            isStringProvided(request.body.lastname) &&
-            isStringProvided(request.body.username)
-        ) {
-            next();
-        } else {
-            response.status(400).send({
-                message: 'Missing required information',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidPhone(request.body.phone)) {
-            next();
-            return;
-        } else {
-            response.status(400).send({
-                message:
-                    'Invalid or missing phone number  - please refer to documentation',
-            });
-            return;
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidPassword(request.body.password)) {
-            next();
-        } else {
-            response.status(400).send({
-                message:
-                    'Invalid or missing password  - please refer to documentation',
-            });
-        }
-    },
-    (request: Request, response: Response, next: NextFunction) => {
-        if (isValidRole(request.body.role)) {
-            next();
-        } else {
-            response.status(400).send({
-                message:
-                    'Invalid or missing role  - please refer to documentation',
-            });
-        }
-    },
-
-    (request: IUserRequest, response: Response, next: NextFunction) => {
-        const theQuery =
-            'INSERT INTO Account(firstname, lastname, username, email, phone, account_role) VALUES ($1, $2, $3, $4, $5, $6) RETURNING account_id';
-        const values = [
-            request.body.firstname,
-            request.body.lastname,
-            request.body.username,
-            request.body.email,
-            request.body.phone,
-            request.body.role,
-        ];
-        console.dir({ ...request.body, password: '******' });
-        pool.query(theQuery, values)
-            .then((result) => {
-                request.id = result.rows[0].account_id;
-                next();
-            })
-            .catch((error) => {
-                //log the error
-                if (error.constraint == 'account_username_key') {
-                    response.status(400).send({
-                        message: 'Username exists',
-                    });
-                } else if (error.constraint == 'account_email_key') {
-                    response.status(400).send({
-                        message: 'Email exists',
-                    });
-                } else {
-                    //log the error
-                    console.error('DB Query error on register');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
-    },
-    (request: IUserRequest, response: Response) => {
-        const salt = generateSalt(32);
-        const saltedHash = generateHash(request.body.password, salt);
-
-        const theQuery =
-            'INSERT INTO Account_Credential(account_id, salted_hash, salt) VALUES ($1, $2, $3)';
-        const values = [request.id, saltedHash, salt];
-        pool.query(theQuery, values)
-            .then(() => {
-                const accessToken = jwt.sign(
-                    {
-                        role: request.body.role,
-                        id: request.id,
-                    },
-                    key.secret,
-                    {
-                        expiresIn: '14 days',
-                    }
+    validate(REGISTRATION),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof REGISTRATION>,
+            response: Response
+        ) => {
+            const { password, ...details } = request.valid.body;
+            const role = Role.Member;
+            // hashed first, so the transaction is not held open while hashing
+            const hash = await hashPassword(password);
+            // the account and its password are stored together or not at all
+            const id = await withTransaction(async (client) => {
+                const accountId = await accountRepository.create(
+                    { ...details, account_role: role },
+                    client
+                );
+                await accountRepository.createCredential(
+                    accountId,
+                    hash,
+                    client
                 );
-                const user = {
-                    name: `${request.body.firstname} ${request.body.lastname}`,
-                    email: request.body.email,
-                    role: request.body.role,
-                    id: request.id,
-                };
+                return accountId;
+            });
 
-                response.status(201).send({
-                    accessToken,
-                    user,
-                });
-            })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on register');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
+            const { accessToken, refreshToken } =
+                await sessionFunctions.startSession({
+                    name: details.firstname,
+                    role,
+                    id,
                 });
+            response.status(201).send({
+                accessToken,
+                refreshToken,
+                user: {
+                    name: `${details.firstname} ${details.lastname}`,
+                    email: details.email,
+                    role,
+                    id,
+                },
             });
-    }
+        }
+    )
 );
 
-registerRouter.get('/hash_demo', (request, response) => {
-    const password = 'password12345';
-
-    const salt = generateSalt(32);
-    const saltedHash = generateHash(password, salt);
-    const unsaltedHash = generateHash(password, '');
-
-    response.status(200).send({
-        salt: salt,
-        salted_hash: saltedHash,
-        unsalted_hash: unsaltedHash,
-    });
-});
-
 export { registerRouter };
@@ -0,0 +1,110 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router } from 'express';
+
+import { schemaFunctions, sessionFunctions } from '../../core/utilities';
+import { asyncHandler, checkToken, validate } from '../../core/middleware';
+import {
+    IJwtRequest,
+    IValidRequest,
+    UnauthorizedError,
+} from '../../core/models';
+
+const tokenRouter: Router = express.Router();
+
+const REFRESH = { body: { refreshToken: schemaFunctions.string() } };
+
+/**
+ * @api {post} /auth/refresh Request new tokens
+ * @apiName PostRefresh
+ * @apiGroup Auth
+ *
+ * @apiDescription Exchanges a refresh token for a new access token and a new refresh token.
+ * Each refresh token can only be used once. Using one a second time means it was stolen, so
+ * the whole session is logged out and every token of it stops working.
+ *
+ * @apiBody {String} refreshToken the refresh token from login, register or a previous refresh
+ *
+ * @apiSuccess {String} accessToken JSON Web Token (JWT) for authenticated access, valid for 15 minutes.
+ * @apiSuccess {String} refreshToken single use token for the next refresh, valid for 14 days.
+ *
+ * @apiError (400: Missing Parameters) {String} error.message "Invalid or missing refreshToken - please refer to documentation"
+ * @apiError (401: Invalid Token) {String} error.message "Refresh token is not valid" when the token is unknown or its session was logged out
+ * @apiError (401: Expired Token) {String} error.message "Refresh token has expired"
+ * @apiError (401: Reused Token) {String} error.message "Refresh token was already used - the session has been revoked"
+ * @apiUse ValidationErrors
+ */
+tokenRouter.post(
+    '/refresh',
+    validate(REFRESH),
+    asyncHandler(
+        async (request: IValidRequest<typeof REFRESH>, response: Response) => {
+            const result = await sessionFunctions.refreshSession(
+                request.valid.body.refreshToken
+            );
+            if (result.valid === false) {
+                throw new UnauthorizedError(result.message);
+            }
+            response.send({
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+            });
+        }
+    )
+);
+
+/**
+ * @api {post} /auth/logout Request to log out
+ * @apiName PostLogout
+ * @apiGroup Auth
+ *
+ * @apiDescription Logs out the session of the access token. The access token and the refresh
+ * token of the session stop working immediately.
+ *
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ *
+ * @apiSuccess {String} message "Logged out"
+ *
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ */
+tokenRouter.post(
+    '/logout',
+    checkToken,
+    asyncHandler(async (request: IJwtRequest, response: Response) => {
+        await sessionFunctions.revokeSession(request.claims.sid);
+        response.send({
+            message: 'Logged out',
+        });
+    })
+);
+
+/**
+ * @api {post} /auth/logout-all Request to log out everywhere
+ * @apiName PostLogoutAll
+ * @apiGroup Auth
+ *
+ * @apiDescription Logs out every session of the user, including the one of the access token.
+ *
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ *
+ * @apiSuccess {String} message "Logged out"
+ * @apiSuccess {number} sessions the number of sessions that were logged out
+ *
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ */
+tokenRouter.post(
+    '/logout-all',
+    checkToken,
+    asyncHandler(async (request: IJwtRequest, response: Response) => {
+        const sessions = await sessionFunctions.revokeAllSessions(
+            request.claims.id
+        );
+        response.send({
+            message: 'Logged out',
+            sessions,
+        });
+    })
+);
+
+export { tokenRouter };
@@ -3,6 +3,9 @@ import express, { Router } from 'express';
 import { checkToken } from '../../core/middleware';
 import { tokenTestRouter } from './tokenTest';
 import { libraryRouter } from './closed_message';
+import { usersRouter } from './users';
+import { shelvesRouter } from './shelves';
+import { meRouter } from './me';
 
 const closedRoutes: Router = express.Router();
 
@@ -10,4 +13,10 @@ closedRoutes.use('/jwt_test', checkToken, tokenTestRouter);
 
 closedRoutes.use('/c/library', checkToken, libraryRouter);
 
+closedRoutes.use('/users', checkToken, usersRouter);
+
+closedRoutes.use('/shelves', checkToken, shelvesRouter);
+
+closedRoutes.use('/me', checkToken, meRouter);
+
 export { closedRoutes };
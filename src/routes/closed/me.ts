@@ -0,0 +1,61 @@
+// express is the framework we're going to use to handle requests
+import express, { Response, Router } from 'express';
+
+import { bookFunctions, recommendationFunctions } from '../../core/utilities';
+import { recommendationRepository } from '../../core/repositories';
+import { asyncHandler, validate } from '../../core/middleware';
+import { IJwtRequest, IValidRequest } from '../../core/models';
+
+// retrieve the router object from express
+const meRouter: Router = express.Router();
+
+const RECOMMENDATIONS = {
+    query: {
+        ...recommendationFunctions.RECOMMENDATION_QUERY,
+        ...bookFunctions.FIELDS_QUERY,
+    },
+};
+
+/**
+ * @api {get} /me/recommendations Request to retrieve book recommendations
+ *
+ * @apiDescription Request to retrieve books for the signed in user, from the books they rated
+ * 4 stars or more or put on a shelf. Books that readers who liked the same books also liked
+ * come first, then books in the same series or by the same authors, then highly rated books.
+ * Books the user has rated, put on the "Read" shelf or finished are left out.
+ *
+ * @apiName GetRecommendations
+ * @apiGroup Library
+ *
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ * @apiUse Recommendations
+ *
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ * @apiUse ValidationErrors
+ */
+meRouter.get(
+    '/recommendations',
+    validate(RECOMMENDATIONS),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof RECOMMENDATIONS>,
+            response: Response
+        ) => {
+            const recommended = await recommendationRepository.findForAccount(
+                request.claims.id,
+                request.valid.query.limit
+            );
+            response.send({
+                entries: recommended.map((row) =>
+                    recommendationFunctions.toRecommendation(
+                        row,
+                        request.valid.query.fields
+                    )
+                ),
+            });
+        }
+    )
+);
+
+export { meRouter };
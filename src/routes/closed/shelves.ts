@@ -0,0 +1,450 @@
+//express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+
+import {
+    validationFunctions,
+    schemaFunctions,
+    bookFunctions,
+    shelfFunctions,
+} from '../../core/utilities';
+import { shelfRepository } from '../../core/repositories';
+import { asyncHandler, validate } from '../../core/middleware';
+import {
+    BadRequestError,
+    ForbiddenError,
+    IJwtRequest,
+    IShelfRow,
+    IValidRequest,
+    NotFoundError,
+} from '../../core/models';
+
+const shelvesRouter: Router = express.Router();
+
+const {
+    string,
+    number,
+    integer,
+    id,
+    boolean,
+    isbn,
+    satisfies,
+    optional,
+    nullable,
+} = schemaFunctions;
+
+export interface IShelfRequest extends IJwtRequest {
+    shelf: IShelfRow;
+}
+
+const SHELF_PARAMS = { params: { id: id('shelf id') } };
+
+const SHELF_BOOKS = { ...SHELF_PARAMS, query: bookFunctions.FIELDS_QUERY };
+
+const NEW_SHELF = {
+    body: {
+        name: string({ trim: true }),
+        is_public: optional(boolean(), false),
+    },
+};
+
+const SHELF_CHANGES = {
+    ...SHELF_PARAMS,
+    body: {
+        name: optional(string({ trim: true })),
+        is_public: optional(boolean()),
+    },
+};
+
+// the isbn13 check digit is not verified, the books imported from Goodreads lost theirs
+const SHELF_BOOK = { params: { id: id('shelf id'), isbn13: isbn(false) } };
+
+// The progress a reader can record for a book on a shelf. null clears a value.
+const SHELF_BOOK_PROGRESS = {
+    ...SHELF_BOOK,
+    body: {
+        current_page: optional(nullable(integer({ min: 0 }))),
+        progress_percent: optional(nullable(number({ min: 0, max: 100 }))),
+        started_on: optional(
+            nullable(satisfies(validationFunctions.isValidDate))
+        ),
+        finished_on: optional(
+            nullable(satisfies(validationFunctions.isValidDate))
+        ),
+    },
+};
+
+/**
+ * Creates a middleware function that loads the shelf of the id route parameter into
+ * request.shelf. Other users' shelves are only found when they are public and only changed
+ * by their owner. Must run after validate with SHELF_PARAMS.
+ *
+ * @param {boolean} forChange whether the request changes the shelf
+ * @returns the middleware function
+ */
+const mwLoadShelf =
+    (forChange: boolean) =>
+    (
+        request: IShelfRequest & IValidRequest<typeof SHELF_PARAMS>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        shelfRepository
+            .findById(request.valid.params.id)
+            .then((shelf) => {
+                const isOwner =
+                    shelf !== undefined &&
+                    shelf.account_id === Number(request.claims.id);
+                if (shelf === undefined || (!isOwner && !shelf.is_public)) {
+                    throw new NotFoundError('No shelf with this id was found');
+                } else if (!isOwner && forChange) {
+                    throw new ForbiddenError(
+                        'You can only change your own shelves'
+                    );
+                } else {
+                    request.shelf = shelf;
+                    next();
+                }
+            })
+            .catch(next);
+    };
+
+/**
+ * @apiDefine ShelfSummary
+ * @apiSuccess {number} shelf.id the id of the shelf
+ * @apiSuccess {String} shelf.name the name of the shelf
+ * @apiSuccess {boolean} shelf.is_default true for "Want to Read", "Currently Reading" and "Read"
+ * @apiSuccess {boolean} shelf.is_public whether other users can see the shelf
+ * @apiSuccess {String} shelf.created_at when the shelf was created
+ * @apiSuccess {number} shelf.book_count the number of books on the shelf
+ */
+
+/**
+ * @apiDefine ShelfBook
+ * @apiSuccess {Object} entry.book the book as <code>/library</code> sends it
+ * @apiSuccess {String} entry.added_at when the book was put on the shelf
+ * @apiSuccess {number} entry.current_page the page the reader is on, or null
+ * @apiSuccess {number} entry.progress_percent how much of the book the reader has read, or null
+ * @apiSuccess {String} entry.started_on the date the reader started the book as YYYY-MM-DD, or null
+ * @apiSuccess {String} entry.finished_on the date the reader finished the book as YYYY-MM-DD, or null
+ */
+
+/**
+ * @apiDefine ShelfAuth
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ */
+
+/**
+ * @api {get} /shelves Request to retrieve your shelves
+ *
+ * @apiDescription Request to retrieve the shelves of the signed in user, the default shelves first
+ *
+ * @apiName GetShelves
+ * @apiGroup Shelves
+ *
+ * @apiSuccess {Object[]} entries the shelves, each as described for <code>shelf</code> below
+ * @apiUse ShelfSummary
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.get(
+    '/',
+    (request: IJwtRequest, response: Response, next: NextFunction) => {
+        shelfRepository
+            .findByAccount(request.claims.id)
+            .then((entries) => {
+                response.send({
+                    entries,
+                });
+            })
+            .catch(next);
+    }
+);
+
+/**
+ * @api {post} /shelves Request to create a shelf
+ *
+ * @apiDescription Creates a shelf of the signed in user
+ *
+ * @apiName PostShelf
+ * @apiGroup Shelves
+ *
+ * @apiBody {String} name the name of the shelf, which must be unique among your shelves
+ * @apiBody {boolean} [is_public=false] whether other users can see the shelf
+ *
+ * @apiSuccess (Success 201) {Object} shelf the new shelf
+ * @apiUse ShelfSummary
+ *
+ * @apiError (400: Invalid name) {String} error.message "Invalid or missing name - please refer to documentation"
+ * @apiError (400: Invalid is_public) {String} error.message "Invalid is_public - please refer to documentation"
+ * @apiError (400: Name exists) {String} error.message "You already have a shelf with this name"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.post(
+    '/',
+    validate(NEW_SHELF),
+    (
+        request: IJwtRequest & IValidRequest<typeof NEW_SHELF>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        shelfRepository
+            .create(
+                request.claims.id,
+                request.valid.body.name,
+                request.valid.body.is_public
+            )
+            .then((shelf) => {
+                response.status(201).send({
+                    shelf,
+                });
+            })
+            .catch(next);
+    }
+);
+
+/**
+ * @api {get} /shelves/:id Request to retrieve a shelf and its books
+ *
+ * @apiDescription Request to retrieve one of your shelves, or a public shelf of another user,
+ * with its books, the most recently added first
+ *
+ * @apiName GetShelf
+ * @apiGroup Shelves
+ *
+ * @apiParam {number} id the id of the shelf
+ * @apiUse BookFields
+ *
+ * @apiSuccess {Object} shelf the shelf
+ * @apiUse ShelfSummary
+ * @apiSuccess {Object[]} entries the books on the shelf, each as described for <code>entry</code>
+ * below, with only the fields of the book asked for with <code>fields</code>
+ * @apiUse ShelfBook
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing shelf id - please refer to documentation"
+ * @apiError (404: Shelf Not Found) {String} error.message "No shelf with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.get(
+    '/:id',
+    validate(SHELF_BOOKS),
+    mwLoadShelf(false),
+    asyncHandler(
+        async (
+            request: IShelfRequest & IValidRequest<typeof SHELF_BOOKS>,
+            response: Response
+        ) => {
+            const books = await shelfRepository.findBooks(request.shelf.id);
+            response.send({
+                shelf: await shelfRepository.findSummary(request.shelf.id),
+                entries: books.map((book) =>
+                    shelfFunctions.toShelfBook(book, request.valid.query.fields)
+                ),
+            });
+        }
+    )
+);
+
+/**
+ * @api {patch} /shelves/:id Request to change a shelf
+ *
+ * @apiDescription Renames one of your shelves or changes who can see it. The default shelves
+ * can be made public but not renamed.
+ *
+ * @apiName PatchShelf
+ * @apiGroup Shelves
+ *
+ * @apiParam {number} id the id of the shelf
+ * @apiBody {String} [name] the new name of the shelf
+ * @apiBody {boolean} [is_public] whether other users can see the shelf
+ *
+ * @apiSuccess {Object} shelf the shelf
+ * @apiUse ShelfSummary
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing shelf id - please refer to documentation"
+ * @apiError (400: Invalid name) {String} error.message "Invalid name - please refer to documentation"
+ * @apiError (400: Invalid is_public) {String} error.message "Invalid is_public - please refer to documentation"
+ * @apiError (400: Default shelf) {String} error.message "Default shelves cannot be renamed"
+ * @apiError (400: Name exists) {String} error.message "You already have a shelf with this name"
+ * @apiError (403: Not the owner) {String} error.message "You can only change your own shelves"
+ * @apiError (404: Shelf Not Found) {String} error.message "No shelf with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.patch(
+    '/:id',
+    validate(SHELF_CHANGES),
+    mwLoadShelf(true),
+    asyncHandler(
+        async (
+            request: IShelfRequest & IValidRequest<typeof SHELF_CHANGES>,
+            response: Response
+        ) => {
+            const name = request.valid.body.name ?? request.shelf.name;
+            if (request.shelf.is_default && name !== request.shelf.name) {
+                throw new BadRequestError('Default shelves cannot be renamed');
+            }
+
+            await shelfRepository.update(
+                request.shelf.id,
+                name,
+                request.valid.body.is_public ?? request.shelf.is_public
+            );
+            response.send({
+                shelf: await shelfRepository.findSummary(request.shelf.id),
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /shelves/:id Request to delete a shelf
+ *
+ * @apiDescription Deletes one of your shelves and takes its books off it. The default shelves
+ * cannot be deleted.
+ *
+ * @apiName DeleteShelf
+ * @apiGroup Shelves
+ *
+ * @apiParam {number} id the id of the shelf
+ *
+ * @apiSuccess {String} message "Shelf deleted"
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing shelf id - please refer to documentation"
+ * @apiError (400: Default shelf) {String} error.message "Default shelves cannot be deleted"
+ * @apiError (403: Not the owner) {String} error.message "You can only change your own shelves"
+ * @apiError (404: Shelf Not Found) {String} error.message "No shelf with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.delete(
+    '/:id',
+    validate(SHELF_PARAMS),
+    mwLoadShelf(true),
+    (request: IShelfRequest, response: Response, next: NextFunction) => {
+        if (request.shelf.is_default) {
+            throw new BadRequestError('Default shelves cannot be deleted');
+        }
+
+        shelfRepository
+            .remove(request.shelf.id)
+            .then(() => {
+                response.send({
+                    message: 'Shelf deleted',
+                });
+            })
+            .catch(next);
+    }
+);
+
+/**
+ * @api {put} /shelves/:id/books/:isbn13 Request to shelve a book or record progress
+ *
+ * @apiDescription Puts the book with the given <code>isbn13</code> on one of your shelves, or
+ * changes the progress recorded for it. Progress fields left out of the body are not changed,
+ * null clears them.
+ *
+ * @apiName PutShelfBook
+ * @apiGroup Shelves
+ *
+ * @apiParam {number} id the id of the shelf
+ * @apiParam {number} isbn13 the isbn13 of the book
+ * @apiBody {number{0+}} [current_page] the page you are on
+ * @apiBody {number{0-100}} [progress_percent] how much of the book you have read
+ * @apiBody {String} [started_on] the date you started the book, as YYYY-MM-DD
+ * @apiBody {String} [finished_on] the date you finished the book, as YYYY-MM-DD, not before started_on
+ *
+ * @apiSuccess (Success 201) {Object} entry the book, when it was not on the shelf before
+ * @apiSuccess {Object} entry the book, when it was already on the shelf
+ * @apiUse ShelfBook
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing shelf id - please refer to documentation"
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Invalid progress) {String} error.message "Invalid <code>field</code> - please refer to documentation"
+ * @apiError (400: Finished before started) {String} error.message "finished_on must not be before started_on"
+ * @apiError (403: Not the owner) {String} error.message "You can only change your own shelves"
+ * @apiError (404: Not Found) {String} error.message "No shelf with this id was found" or "No book for isbn13 <code>isbn13</code> found"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.put(
+    '/:id/books/:isbn13',
+    validate(SHELF_BOOK_PROGRESS),
+    mwLoadShelf(true),
+    asyncHandler(
+        async (
+            request: IShelfRequest & IValidRequest<typeof SHELF_BOOK_PROGRESS>,
+            response: Response
+        ) => {
+            const progress = Object.fromEntries(
+                Object.entries(request.valid.body).filter(
+                    ([, value]) => value !== undefined
+                )
+            );
+
+            const shelved = await shelfRepository.shelveBook(
+                request.shelf.id,
+                request.valid.params.isbn13,
+                progress
+            );
+            if (shelved === undefined) {
+                throw new NotFoundError(
+                    `No book for isbn13 ${request.valid.params.isbn13} found`
+                );
+            }
+            response.status(shelved.created ? 201 : 200).send({
+                entry: shelfFunctions.toShelfBook(shelved.entry),
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /shelves/:id/books/:isbn13 Request to take a book off a shelf
+ *
+ * @apiDescription Takes the book with the given <code>isbn13</code> off one of your shelves,
+ * together with the progress recorded for it
+ *
+ * @apiName DeleteShelfBook
+ * @apiGroup Shelves
+ *
+ * @apiParam {number} id the id of the shelf
+ * @apiParam {number} isbn13 the isbn13 of the book
+ *
+ * @apiSuccess {String} message "Book taken off the shelf"
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing shelf id - please refer to documentation"
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (403: Not the owner) {String} error.message "You can only change your own shelves"
+ * @apiError (404: Not Found) {String} error.message "No shelf with this id was found" or "The book is not on this shelf"
+ * @apiUse ValidationErrors
+ * @apiUse ShelfAuth
+ */
+shelvesRouter.delete(
+    '/:id/books/:isbn13',
+    validate(SHELF_BOOK),
+    mwLoadShelf(true),
+    (
+        request: IShelfRequest & IValidRequest<typeof SHELF_BOOK>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        shelfRepository
+            .removeBook(request.shelf.id, request.valid.params.isbn13)
+            .then((removed) => {
+                if (removed) {
+                    response.send({
+                        message: 'Book taken off the shelf',
+                    });
+                } else {
+                    throw new NotFoundError('The book is not on this shelf');
+                }
+            })
+            .catch(next);
+    }
+);
+
+// "return" the router
+export { shelvesRouter };
@@ -13,9 +13,9 @@ const tokenTestRouter: Router = express.Router();
  * @apiSuccess {String} message  the string
  *  "Your token is valid and your role is: <code>role</code>"
  *
- * @apiError (403: Token is not valid) {String} message "Token is not valid" when the provided Auth token is
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid" when the provided Auth token is
  * invalid for any reason.
- * @apiError (401: Auth token is not supplied) {String} message "Auth token is not supplied" when no Auth token
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied" when no Auth token
  * is provided
  */
 tokenTestRouter.get('/', (request: IJwtRequest, response: Response) => {
@@ -0,0 +1,247 @@
+//express is the framework we're going to use to handle requests
+import express, { Response, Router } from 'express';
+
+import {
+    validationFunctions,
+    schemaFunctions,
+    sessionFunctions,
+} from '../../core/utilities';
+import { accountRepository } from '../../core/repositories';
+import {
+    asyncHandler,
+    checkParamsIdToJwtId,
+    requireRole,
+    validate,
+} from '../../core/middleware';
+import {
+    BadRequestError,
+    IValidRequest,
+    NotFoundError,
+    PERMISSIONS,
+    Role,
+} from '../../core/models';
+
+const usersRouter: Router = express.Router();
+
+const { string, integer, id, satisfies, optional } = schemaFunctions;
+
+const USER_PARAMS = { params: { id: id('user id') } };
+
+// The profile fields a user may change
+const PROFILE_CHANGES = {
+    ...USER_PARAMS,
+    body: {
+        firstname: optional(string()),
+        lastname: optional(string()),
+        username: optional(string()),
+        email: optional(satisfies(validationFunctions.isValidEmail)),
+        phone: optional(satisfies(validationFunctions.isValidPhone)),
+    },
+};
+
+const ROLE_CHANGE = {
+    ...USER_PARAMS,
+    body: { role: integer({ min: Role.Admin, max: Role.Member }) },
+};
+
+/**
+ * @apiDefine UserProfile
+ * @apiSuccess {Object} user the user
+ * @apiSuccess {number} user.id the id of the user
+ * @apiSuccess {String} user.email the email of the user
+ * @apiSuccess {String} user.firstname the first name of the user
+ * @apiSuccess {String} user.lastname the last name of the user
+ * @apiSuccess {String} user.username the username of the user
+ * @apiSuccess {String} user.phone the phone number of the user
+ * @apiSuccess {number} user.role the role of the user
+ */
+
+/**
+ * @apiDefine UserAuth
+ * @apiHeader {String} authorization the access token, as "Bearer <code>token</code>"
+ * @apiPermission the user with this id, or an admin
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing user id - please refer to documentation"
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ * @apiError (403: Not this user) {String} error.message "Credentials do not match for this user."
+ * @apiError (404: User Not Found) {String} error.message "No user with this id was found"
+ */
+
+/**
+ * @api {get} /users/:id Request to retrieve a user
+ *
+ * @apiDescription Request to retrieve the profile of the user with the given <code>id</code>
+ *
+ * @apiName GetUser
+ * @apiGroup Users
+ *
+ * @apiParam {number} id the id of the user
+ *
+ * @apiUse UserProfile
+ * @apiUse UserAuth
+ * @apiUse ValidationErrors
+ */
+usersRouter.get(
+    '/:id',
+    validate(USER_PARAMS),
+    checkParamsIdToJwtId,
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof USER_PARAMS>,
+            response: Response
+        ) => {
+            const user = await accountRepository.findUser(
+                request.valid.params.id
+            );
+            if (user === undefined) {
+                throw new NotFoundError('No user with this id was found');
+            }
+            response.send({
+                user,
+            });
+        }
+    )
+);
+
+/**
+ * @api {patch} /users/:id Request to change a user's profile
+ *
+ * @apiDescription Request to change some of the profile of the user with the given
+ * <code>id</code>. Fields left out of the body are not changed.
+ *
+ * @apiName PatchUser
+ * @apiGroup Users
+ *
+ * @apiParam {number} id the id of the user
+ * @apiBody {String} [firstname] the new first name
+ * @apiBody {String} [lastname] the new last name
+ * @apiBody {String} [username] the new username, which must not be in use
+ * @apiBody {String} [email] the new email (must include '@' and a domain, and not be in use)
+ * @apiBody {String} [phone] the new phone number (must contain 10 to 15 digits, no special characters, and not be in use)
+ *
+ * @apiUse UserProfile
+ * @apiUse UserAuth
+ * @apiError (400: Missing Parameters) {String} error.message "Missing required information" if none of the fields are given
+ * @apiError (400: Invalid field) {String} error.message "Invalid <code>field</code> - please refer to documentation"
+ * @apiError (400: Username exists) {String} error.message "Username exists"
+ * @apiError (400: Email exists) {String} error.message "Email exists"
+ * @apiError (400: Phone exists) {String} error.message "Phone exists"
+ * @apiUse ValidationErrors
+ */
+usersRouter.patch(
+    '/:id',
+    validate(PROFILE_CHANGES),
+    checkParamsIdToJwtId,
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof PROFILE_CHANGES>,
+            response: Response
+        ) => {
+            const changes = Object.fromEntries(
+                Object.entries(request.valid.body).filter(
+                    ([, value]) => value !== undefined
+                )
+            );
+            if (Object.keys(changes).length == 0) {
+                throw new BadRequestError('Missing required information');
+            }
+
+            const user = await accountRepository.updateProfile(
+                request.valid.params.id,
+                changes
+            );
+            if (user === undefined) {
+                throw new NotFoundError('No user with this id was found');
+            }
+            response.send({
+                user,
+            });
+        }
+    )
+);
+
+/**
+ * @api {put} /users/:id/role Request to change a user's role
+ *
+ * @apiDescription Request to give the user with the given <code>id</code> another role. The
+ * sessions of the user are ended, so the user signs in again to get a token with the new role.
+ *
+ * @apiName PutUserRole
+ * @apiPermission Admin
+ * @apiGroup Users
+ *
+ * @apiParam {number} id the id of the user
+ * @apiBody {number{1-5}} role the new role, 1 for Admin to 5 for Member
+ *
+ * @apiUse UserProfile
+ * @apiError (400: Invalid role) {String} error.message "Invalid or missing role - please refer to documentation"
+ * @apiError (404: User Not Found) {String} error.message "No user with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+usersRouter.put(
+    '/:id/role',
+    requireRole(...PERMISSIONS.assignRoles),
+    validate(ROLE_CHANGE),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof ROLE_CHANGE>,
+            response: Response
+        ) => {
+            const { id } = request.valid.params;
+            const user = await accountRepository.updateRole(
+                id,
+                request.valid.body.role
+            );
+            if (user === undefined) {
+                throw new NotFoundError('No user with this id was found');
+            }
+            // the tokens of the user still carry the old role
+            await sessionFunctions.revokeAllSessions(id);
+            response.send({
+                user,
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /users/:id Request to delete a user
+ *
+ * @apiDescription Request to delete the user with the given <code>id</code>, together with
+ * their credentials and sessions
+ *
+ * @apiName DeleteUser
+ * @apiGroup Users
+ *
+ * @apiParam {number} id the id of the user
+ *
+ * @apiUse UserProfile
+ * @apiUse UserAuth
+ * @apiUse ValidationErrors
+ */
+usersRouter.delete(
+    '/:id',
+    validate(USER_PARAMS),
+    checkParamsIdToJwtId,
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof USER_PARAMS>,
+            response: Response
+        ) => {
+            const user = await accountRepository.remove(
+                request.valid.params.id
+            );
+            if (user === undefined) {
+                throw new NotFoundError('No user with this id was found');
+            }
+            response.send({
+                user,
+            });
+        }
+    )
+);
+
+// "return" the router
+export { usersRouter };
@@ -0,0 +1,121 @@
+//express is the framework we're going to use to handle requests
+import express, { Router } from 'express';
+
+import { authorRepository } from '../../core/repositories';
+import { validate } from '../../core/middleware';
+import {
+    FACET_QUERY,
+    facetBooks,
+    facetParams,
+    listFacets,
+    sendFacet,
+} from './facets';
+
+const authorsRouter: Router = express.Router();
+
+const AUTHOR_PARAMS = facetParams('author');
+
+const AUTHOR_BOOKS = facetBooks('author');
+
+/**
+ * @apiDefine AuthorSummary
+ * @apiSuccess {number} author.id the id of the author
+ * @apiSuccess {string} author.name the name of the author
+ * @apiSuccess {number} author.book_count the number of books the author is credited on
+ * @apiSuccess {number} author.rating_count the total number of ratings of those books
+ * @apiSuccess {number} author.rating_avg the average rating of those books, weighted by their number of ratings
+ */
+
+/**
+ * @api {get} /authors Request to retrieve authors
+ *
+ * @apiDescription Request to retrieve the authors in alphabetical order, one page at a time
+ *
+ * @apiName GetAuthors
+ * @apiGroup Authors
+ *
+ * @apiQuery {string} [name] case-insensitive substring of the author's name
+ * @apiQuery {number{1-100}} [limit=20] the number of authors per page
+ * @apiQuery {string} [cursor] the <code>nextCursor</code> or <code>prevCursor</code> of a previous page
+ *
+ * @apiSuccess {Object[]} entries the authors on the page, each as described for <code>author</code> below
+ * @apiUse AuthorSummary
+ * @apiSuccess {Object} pagination metadata for the page
+ * @apiSuccess {number} pagination.limit the number of authors per page
+ * @apiSuccess {String} pagination.nextCursor the cursor of the next page, or null on the last page
+ * @apiSuccess {String} pagination.prevCursor the cursor of the previous page, or null on the first page
+ *
+ * @apiError (400: Invalid name) {String} error.message "Invalid name - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} error.message "Invalid cursor - please refer to documentation"
+ * @apiError (404: Author Not Found) {String} error.message "No author was found"
+ * @apiUse ValidationErrors
+ */
+authorsRouter.get(
+    '/',
+    validate(FACET_QUERY),
+    listFacets(authorRepository, 'No author was found')
+);
+
+/**
+ * @api {get} /authors/:id Request to retrieve an author
+ *
+ * @apiDescription Request to retrieve the author with the given <code>id</code> and the
+ * aggregate rating of their books
+ *
+ * @apiName GetAuthor
+ * @apiGroup Authors
+ *
+ * @apiParam {number} id the id of the author
+ *
+ * @apiSuccess {Object} author the author
+ * @apiUse AuthorSummary
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing author id - please refer to documentation"
+ * @apiError (404: Author Not Found) {String} error.message "No author with this id was found"
+ * @apiUse ValidationErrors
+ */
+authorsRouter.get(
+    '/:id',
+    validate(AUTHOR_PARAMS),
+    sendFacet(
+        authorRepository,
+        'author',
+        'No author with this id was found',
+        false
+    )
+);
+
+/**
+ * @api {get} /authors/:id/books Request to retrieve an author's bibliography
+ *
+ * @apiDescription Request to retrieve every book the author with the given <code>id</code> is
+ * credited on, oldest first, together with the aggregate rating of those books
+ *
+ * @apiName GetAuthorBooks
+ * @apiGroup Authors
+ *
+ * @apiParam {number} id the id of the author
+ * @apiUse BookFields
+ *
+ * @apiSuccess {Object} author the author
+ * @apiUse AuthorSummary
+ * @apiUse Books
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing author id - please refer to documentation"
+ * @apiError (404: Author Not Found) {String} error.message "No author with this id was found"
+ * @apiUse ValidationErrors
+ */
+authorsRouter.get(
+    '/:id/books',
+    validate(AUTHOR_BOOKS),
+    sendFacet(
+        authorRepository,
+        'author',
+        'No author with this id was found',
+        true
+    )
+);
+
+// "return" the router
+export { authorsRouter };
@@ -0,0 +1,120 @@
+import { Response } from 'express';
+
+import {
+    schemaFunctions,
+    bookFunctions,
+    paginationFunctions,
+} from '../../core/utilities';
+import { FacetRepository } from '../../core/repositories/facetRepository';
+import { asyncHandler } from '../../core/middleware';
+import {
+    IFacetRow,
+    ISort,
+    IValidRequest,
+    NotFoundError,
+} from '../../core/models';
+
+// The routes authors and series share, each facet of the books mounts them on its own router
+
+const { string, id, optional } = schemaFunctions;
+
+// facets are always listed alphabetically
+const FACET_SORT: ISort = { column: 'name', direction: 'ASC' };
+
+const FACET_QUERY = {
+    query: { name: optional(string()), ...paginationFunctions.PAGE_QUERY },
+    checks: [paginationFunctions.cursorCheck(() => FACET_SORT)],
+};
+
+/**
+ * @param {string} label the name of the facet in messages, e.g. "author"
+ * @returns the schema of the id of a row of the facet in the route
+ */
+const facetParams = (label: string) => ({
+    params: { id: id(`${label} id`) },
+});
+
+/**
+ * @param {string} label the name of the facet in messages, e.g. "author"
+ * @returns the schema of the id of a row of the facet and the fields of its books
+ */
+const facetBooks = (label: string) => ({
+    ...facetParams(label),
+    query: bookFunctions.FIELDS_QUERY,
+});
+
+/**
+ * @param {FacetRepository<T>} repository the queries of the facet
+ * @param {string} notFound the message when no row matches
+ * @returns the handler sending a page of the facet, validated with FACET_QUERY
+ */
+const listFacets = <T extends IFacetRow>(
+    repository: FacetRepository<T>,
+    notFound: string
+) =>
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof FACET_QUERY>,
+            response: Response
+        ) => {
+            const page = paginationFunctions.toPageRequest(request.valid.query);
+            const rows = await repository.findPage(
+                request.valid.query.name,
+                FACET_SORT,
+                page
+            );
+            const { entries, pagination } = paginationFunctions.toPage(
+                rows,
+                FACET_SORT,
+                page
+            );
+            if (entries.length > 0) {
+                response.send({
+                    entries,
+                    pagination,
+                });
+            } else {
+                throw new NotFoundError(notFound);
+            }
+        }
+    );
+
+/**
+ * @param {FacetRepository<T>} repository the queries of the facet
+ * @param {string} key the property the row is sent in, e.g. "author"
+ * @param {string} notFound the message when there is no row with the id
+ * @param {boolean} withBooks whether the books of the row are sent as entries, the request is
+ * then validated with facetBooks instead of facetParams
+ * @returns the handler sending one row of the facet
+ */
+const sendFacet = <T extends IFacetRow>(
+    repository: FacetRepository<T>,
+    key: string,
+    notFound: string,
+    withBooks: boolean
+) =>
+    asyncHandler(
+        async (
+            request: IValidRequest<ReturnType<typeof facetBooks>>,
+            response: Response
+        ) => {
+            const facetId = request.valid.params.id;
+            const row = await repository.findById(facetId);
+            if (row === undefined) {
+                throw new NotFoundError(notFound);
+            }
+            if (!withBooks) {
+                response.send({ [key]: row });
+                return;
+            }
+            const books = await repository.findBooks(facetId);
+            response.send({
+                [key]: row,
+                entries: books.map((book) =>
+                    bookFunctions.toBook(book, request.valid.query.fields)
+                ),
+            });
+        }
+    );
+
+export { FACET_QUERY, facetParams, facetBooks, listFacets, sendFacet };
@@ -1,10 +1,18 @@
 import express, { Router } from 'express';
 
 import { libraryRouter } from './library';
+import { authorsRouter } from './authors';
+import { seriesRouter } from './series';
+import { bookReviewsRouter, reviewsRouter } from './reviews';
+import { userShelvesRouter } from './userShelves';
 
 const openRoutes: Router = express.Router();
 
 openRoutes.use('/library', libraryRouter);
-
+openRoutes.use('/authors', authorsRouter);
+openRoutes.use('/series', seriesRouter);
+openRoutes.use('/library/books/:isbn13/reviews', bookReviewsRouter);
+openRoutes.use('/reviews', reviewsRouter);
+openRoutes.use('/users/:id/shelves', userShelvesRouter);
 
 export { openRoutes };
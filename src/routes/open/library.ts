@@ -3,179 +3,275 @@
 //express is the framework we're going to use to handle requests
 import express, { NextFunction, Request, Response, Router } from 'express';
 //Access the connection to Postgres Database
-import { pool, validationFunctions } from '../../core/utilities';
+import {
+    validationFunctions,
+    schemaFunctions,
+    bookSearchFunctions,
+    bookFunctions,
+    paginationFunctions,
+    recommendationFunctions,
+    bookImportFunctions,
+    bookExportFunctions,
+} from '../../core/utilities';
+import {
+    bookRepository,
+    ratingRepository,
+    recommendationRepository,
+} from '../../core/repositories';
+import {
+    asyncHandler,
+    checkToken,
+    requireRole,
+    validate,
+    matchIsbn13,
+} from '../../core/middleware';
+import {
+    BadRequestError,
+    NotFoundError,
+    PreconditionFailedError,
+    UnsupportedMediaTypeError,
+    BookField,
+    IBookSearch,
+    IJwtRequest,
+    IPageRequest,
+    IValidRequest,
+    PERMISSIONS,
+    STAR_COLUMNS,
+} from '../../core/models';
 
 const libraryRouter: Router = express.Router();
 
 const isStringProvided = validationFunctions.isStringProvided;
+const { string, integer, boolean, isbn, satisfies, optional } = schemaFunctions;
 
-const format = (resultRow) =>
-    `{'ISBN: ' ${resultRow.isbn13}} - 'Title: '[${resultRow.title}]  ' author '[${resultRow.authors}] ' publication year: [${resultRow.publication_year}] ' rating count: [${resultRow.rating_count}] ' rating average: ' [${resultRow.rating_avg}]`;
+const { FIELDS_QUERY } = bookFunctions;
+const { PAGE_QUERY, cursorCheck } = paginationFunctions;
+const { SORT_QUERY, SEARCH_QUERY, SORT_CHECKS, SEARCH_CHECKS, toSort } =
+    bookSearchFunctions;
 
-// Section 2: Middleware Functions
+// The isbn13 route parameter. Its check digit is not verified, the books imported from
+// Goodreads lost theirs
+const BOOK_PARAMS = { params: { isbn13: isbn(false) } };
 
-function myValidAuthorQuery(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const author: string = request.query.authors as string;
-    if (validationFunctions.isStringProvided(author)) {
-        next();
-    } else {
-        response.status(400).send({
-            message:
-                'Invalid or missing author - please refer to documentation',
-        });
-    }
-}
-
-function mwValidAuthorDeleteQuery(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const Author: string = request.params.author as string;
-    if (validationFunctions.isStringProvided(Author)) {
-        next();
-    } else {
-        console.error('Invalid or missing Author');
-        response.status(400).send({
-            message:
-                'Invalid or missing Author - please refer to documentation',
-        });
-    }
-}
-function myValidPublicationYearQuery(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const publishedYear: string = request.query.publication_year as string;
-    if (
-        validationFunctions.isNumberProvided(publishedYear) &&
-        publishedYear.length == 4
-    ) {
-        next();
-    } else {
-        response.status(400).send({
-            message:
-                'Invalid or missing publication_year - please refer to documentation',
-        });
-    }
-}
-
-function myValidIsbn13Param(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const ISBN: string = request.params.isbn13 as string;
-    if (validationFunctions.isNumberProvided(ISBN) && ISBN.length == 13) {
-        next();
-    } else {
-        console.error('Invalid or missing isbn13');
-        response.status(400).send({
-            message:
-                'Invalid or missing isbn13 - please refer to documentation',
-        });
-    }
-}
-
-function myValidTitleParam(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const title: string = request.params.title as string;
-    if (
-        validationFunctions.isStringProvided(title) &&
-        !validationFunctions.isNumber(title)
-    ) {
-        next();
-    } else {
-        console.error('Invalid or missing title');
-        response.status(400).send({
-            message: 'Invalid or missing Title - please refer to documentation',
-        });
-    }
-}
-
-function mwValidRatingAverageQuery(
-    request: Request,
-    response: Response,
-    next: NextFunction
-) {
-    const ratingAvg: string = request.query.rating_avg as string;
-    if (validationFunctions.isNumberProvided(ratingAvg)) {
-        next();
-    } else {
-        response.status(400).send({
-            message:
-                'Invalid or missing rating_avg - please refer to documentation',
-        });
-    }
-}
-
-const validateUpdateRequest = (req: Request) => {
-    const {
-        title,
-        rating_count,
-        rating_1_star,
-        rating_2_star,
-        rating_3_star,
-        rating_4_star,
-        rating_5_star,
-    } = req.body;
-    const ratings = {
-        rating_count,
-        rating_1_star,
-        rating_2_star,
-        rating_3_star,
-        rating_4_star,
-        rating_5_star,
-    };
+// A request for the book with the isbn13, with the fields of it to send
+const BOOK_REQUEST = { ...BOOK_PARAMS, query: FIELDS_QUERY };
 
-    // Check if title is provided and at least one rating count is present
-    if (
-        !title ||
-        (rating_1_star == null &&
-            rating_2_star == null &&
-            rating_3_star == null &&
-            rating_4_star == null &&
-            rating_5_star == null)
-    ) {
-        return {
-            valid: false,
-            message: 'At least one rating count must be provided',
-        };
-    }
+const BOOK_LIST = {
+    query: { ...SORT_QUERY, ...PAGE_QUERY, ...FIELDS_QUERY },
+    checks: [...SORT_CHECKS, cursorCheck(toSort)],
+};
 
-    for (const [key, value] of Object.entries(ratings)) {
-        if (value != null && (!Number.isInteger(value) || value < 0)) {
-            return {
-                valid: false,
-                message: 'Rating counts must be non-negative integers',
-            };
-        }
-    }
+const BOOK_SEARCH = {
+    query: { ...SEARCH_QUERY, ...PAGE_QUERY, ...FIELDS_QUERY },
+    checks: [...SEARCH_CHECKS, cursorCheck(toSort)],
+};
+
+const SIMILAR_BOOKS = {
+    ...BOOK_PARAMS,
+    query: {
+        ...recommendationFunctions.RECOMMENDATION_QUERY,
+        ...FIELDS_QUERY,
+    },
+};
+
+const { RATING_COUNT } = bookFunctions;
+
+const NEW_BOOK = { body: bookFunctions.NEW_BOOK_BODY };
+
+const TOTAL_RATINGS_MISMATCH =
+    'totalRatings must equal the sum of the star counts';
+
+const RATINGS_UPDATE = {
+    body: {
+        title: string(),
+        rating_1_star: RATING_COUNT,
+        rating_2_star: RATING_COUNT,
+        rating_3_star: RATING_COUNT,
+        rating_4_star: RATING_COUNT,
+        rating_5_star: RATING_COUNT,
+    },
+};
+
+const MY_RATING = {
+    ...BOOK_PARAMS,
+    body: { rating: integer({ min: 1, max: 5 }) },
+};
+
+// The columns of BOOKS that can be edited
+const BOOK_CHANGES = {
+    ...BOOK_PARAMS,
+    body: {
+        title: optional(string()),
+        authors: optional(
+            satisfies<string | string[]>(
+                (candidate) =>
+                    isStringProvided(candidate) ||
+                    (Array.isArray(candidate) &&
+                        candidate.length > 0 &&
+                        candidate.every(isStringProvided))
+            )
+        ),
+        publication_year: optional(integer({ min: -9999, max: 9999 })),
+        image_url: optional(satisfies(validationFunctions.isValidUrl)),
+        image_small_url: optional(satisfies(validationFunctions.isValidUrl)),
+    },
+};
+
+const EXPORT_OPTIONS = {
+    query: {
+        ...SEARCH_QUERY,
+        format: optional(
+            satisfies(
+                (candidate) =>
+                    typeof candidate === 'string' &&
+                    bookExportFunctions.exportFormat(candidate) !== undefined
+            ),
+            'csv'
+        ),
+    },
+    checks: SEARCH_CHECKS,
+};
+
+const AUTHOR_PARAMS = {
+    params: { author: string() },
+    query: FIELDS_QUERY,
+};
+
+const TITLE_PARAMS = { params: { title: string() }, query: FIELDS_QUERY };
+
+const IMPORT_OPTIONS = { query: { dryRun: optional(boolean(), false) } };
+
+/**
+ * Formats the version of a book as its ETag.
+ *
+ * @param {number} version the version of the book
+ * @returns the ETag
+ */
+const toEtag = (version: number): string => `"${version}"`;
 
-    return { valid: true };
+/**
+ * Reads the versions listed in an If-Match header. ETags that are not versions of a book can
+ * never match, so they are left out.
+ *
+ * @param {string} header the If-Match header
+ * @returns the versions, or null when the header is "*" and any version matches
+ */
+const parseIfMatch = (header: string): number[] | null => {
+    if (header.trim() === '*') return null;
+    return header
+        .split(',')
+        .map((etag) => /^\s*"(\d+)"\s*$/.exec(etag))
+        .filter((match) => match !== null)
+        .map((match) => Number(match[1]));
 };
 
-const checkBookExists = async (title: string) => {
-    const query = 'SELECT * FROM Books WHERE title = $1';
-    const values = [title];
+// Section 2: Middleware Functions
 
-    const result = await pool.query(query, values);
-    return result.rowCount > 0; // Returns true if the book exists
+const queryBookPage = async (
+    search: IBookSearch,
+    page: IPageRequest,
+    fields?: BookField[]
+) => {
+    const rows = await bookRepository.search(search, page);
+    const { entries, pagination } = paginationFunctions.toPage(
+        rows,
+        search.sort,
+        page
+    );
+    // the id is only needed for the cursors, the relevance of a search is sent next to the book
+    const result = {
+        entries: entries.map((row) =>
+            row.relevance === undefined
+                ? bookFunctions.toBook(row, fields)
+                : {
+                      ...bookFunctions.toBook(row, fields),
+                      relevance: row.relevance,
+                  }
+        ),
+        pagination,
+    };
+    if (page.includeTotal) {
+        result.pagination.estimatedTotal =
+            await bookRepository.estimateTotal(search);
+    }
+    return result;
 };
 
 // Section 3: API Endpoints
 
+/**
+ * @apiDefine Books
+ * @apiSuccess {Object[]} entries the books, with only the fields asked for with <code>fields</code>
+ * @apiSuccess {String} entries.isbn13 the isbn13 of the book
+ * @apiSuccess {String} entries.title the title of the book
+ * @apiSuccess {String[]} entries.authors the authors of the book, in the order they are credited
+ * @apiSuccess {number} entries.publicationYear the year the book was published
+ * @apiSuccess {Object} entries.ratings the ratings of the book
+ * @apiSuccess {number} entries.ratings.average the average rating, null when the book has no ratings
+ * @apiSuccess {number} entries.ratings.count the number of ratings
+ * @apiSuccess {number} entries.ratings.weighted the average rating weighted towards the library-wide
+ * mean when the book has few ratings
+ * @apiSuccess {Object} entries.ratings.distribution the number of ratings with each number of stars,
+ * keyed <code>1</code> to <code>5</code>
+ * @apiSuccess {Object} entries.images the cover of the book
+ * @apiSuccess {String} entries.images.large the url of the large image
+ * @apiSuccess {String} entries.images.small the url of the small image
+ * @apiSuccess {Object} entries.series the series of the book, null when it is not part of one
+ * @apiSuccess {number} entries.series.id the id of the series
+ * @apiSuccess {string} entries.series.name the name of the series
+ * @apiSuccess {number} entries.series.position the position of the book in the series, null for
+ * collections such as "#1-3"
+ */
+
+/**
+ * @apiDefine BookFields
+ * @apiQuery {String} [fields] the fields of each book to send, separated by commas, e.g.
+ * <code>isbn13,title</code>, out of <code>isbn13</code>, <code>title</code>, <code>authors</code>,
+ * <code>publicationYear</code>, <code>ratings</code>, <code>images</code> and <code>series</code>.
+ * Every field is sent when left out.
+ *
+ * @apiError (400: Invalid fields) {String} error.message "Invalid fields - please refer to documentation"
+ */
+
+/**
+ * @apiDefine Pagination
+ * @apiQuery {number{1-100}} [limit=20] the number of books per page
+ * @apiQuery {string} [cursor] the <code>nextCursor</code> or <code>prevCursor</code> of a previous page,
+ * which must be requested with the same <code>sort</code> and <code>order</code>
+ * @apiQuery {boolean} [include_total=false] when true, include an estimate of the total number of books
+ *
+ * @apiSuccess {Object} pagination metadata for the page
+ * @apiSuccess {number} pagination.limit the number of books per page
+ * @apiSuccess {String} pagination.nextCursor the cursor of the next page, or null on the last page
+ * @apiSuccess {String} pagination.prevCursor the cursor of the previous page, or null on the first page
+ * @apiSuccess {number} [pagination.estimatedTotal] the query planner's estimate of the total number of books
+ *
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} error.message "Invalid cursor - please refer to documentation"
+ */
+
+/**
+ * @apiDefine ValidationErrors
+ * @apiError (400: Invalid fields) {String="VALIDATION_FAILED"} error.code the code of the error
+ * @apiError (400: Invalid fields) {String} error.message the message of the first invalid field
+ * @apiError (400: Invalid fields) {Object[]} error.details every invalid field, each with its message
+ * @apiError (400: Invalid fields) {String="params","query","body"} error.details.location where the field was sent
+ * @apiError (400: Invalid fields) {String} error.details.field the name of the field
+ * @apiError (400: Invalid fields) {String} error.details.message what is wrong with the field
+ */
+
 /**
  * @apiDefine JSONError
- * @apiError (400: JSON Error) {String} message "malformed JSON in parameters"
+ * @apiError (400: JSON Error) {String="MALFORMED_JSON"} error.code the code of the error
+ * @apiError (400: JSON Error) {String} error.message "malformed JSON in parameters"
+ */
+
+/**
+ * @apiDefine RoleAuth
+ * @apiHeader {String} Authorization the JSON Web Token of the user, as "Bearer <code>token</code>"
+ * @apiError (401: Auth token is not supplied) {String} error.message "Auth token is not supplied"
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (403: Forbidden) {String} error.message "Your role does not permit this action"
  */
 
 /**
@@ -184,13 +280,14 @@ const checkBookExists = async (title: string) => {
  * @apiDescription Request to add a book to the DB
  *
  * @apiName PostBook
+ * @apiPermission Admin, Moderator, Editor, Contributor
  * @apiGroup Library
  *
- * @apiBody {number} isbn13 isbn13 *unique
+ * @apiBody {String} ISBN the ISBN-13 of the book, or its ISBN-10, with or without hyphens *unique
  * @apiBody {string} title Title of the book *unique
  * @apiBody {string} author Author of the book
  * @apiBody {number} publicationYear The publication year
- * @apiBody {number} [totalRatings] total number of ratings
+ * @apiBody {number} [totalRatings] total number of ratings, the sum of the star counts when they are all given
  * @apiBody {number} [oneStar] number of 1 star reviews
  * @apiBody {number} [twoStar] number of 2 star reviews
  * @apiBody {number} [threeStar] number of 3 star reviews
@@ -199,210 +296,132 @@ const checkBookExists = async (title: string) => {
  * @apiBody {string} imageSmallURL the url to the small image of the book
  * @apiBody {string} imageLargeURL the url to the large image of the book
  *
- * @apiSuccess (Success 201) {JSON} Book The entered book object
- *
- * @apiError (400: isbn13 exists) {String} message "isbn13 already exists"
- * @apiError (400: Title exists) {String} message "Title already exists"
- * @apiError (400: Invalid isbn13) {String} message "Invalid or Missing isbn13 - please refer to documentation"
- * @apiError (400: Invalid title) {String} message "Invalid or Missing book title - please refer to documentation"
- * @apiError (400: Invalid author) {String} message "Invalid or Missing book author - please refer to documentation"
- * @apiError (400: Invalid publication year) {String} message "Invalid or Missing publication year - please refer to documentation"
- * @apiError (400: Invalid small url) {String} message "Invalid or missing small image url - please refer to the documentation"
- * @apiError (400: Invalid large url) {String} message "Invalid or missing large image url - please refer to the documentation"
- * @apiError (400: Invalid Parameters) {String} message "Invalid or Missing required information - please refer to documentation"
+ * @apiSuccess (Success 201) {Object} book the entered book, like a book in the <code>entries</code>
+ * of <a href="#api-Library-SearchBooks">/library/search</a>
+ *
+ * @apiError (400: isbn13 exists) {String} error.message "isbn13 already exists"
+ * @apiError (400: Title exists) {String} error.message "Title already exists"
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Invalid check digit) {String} error.message "Invalid ISBN check digit - please refer to documentation"
+ * @apiError (400: Invalid title) {String} error.message "Invalid or missing book title - please refer to documentation"
+ * @apiError (400: Invalid author) {String} error.message "Invalid or missing book author - please refer to documentation"
+ * @apiError (400: Invalid publication year) {String} error.message "Invalid or missing publication year - please refer to documentation"
+ * @apiError (400: Invalid small url) {String} error.message "Invalid or missing small image url - please refer to documentation"
+ * @apiError (400: Invalid large url) {String} error.message "Invalid or missing large image url - please refer to documentation"
+ * @apiError (400: Invalid Rating Count) {String} error.message "Rating counts must be non-negative integers"
+ * @apiError (400: Wrong total) {String} error.message "totalRatings must equal the sum of the star counts" when every star count is given
+ * @apiUse ValidationErrors
  * @apiUse JSONError
+ * @apiUse RoleAuth
  */
 //mwValidNameMessageBody,
 libraryRouter.post(
     '/add',
-    (request: Request, response: Response, next: NextFunction) => {
-        const ISBN: number = request.body.ISBN as number;
-
+    checkToken,
+    requireRole(...PERMISSIONS.addBook),
+    validate(NEW_BOOK),
+    (
+        request: IValidRequest<typeof NEW_BOOK>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const book = request.valid.body;
+        const starCount = bookFunctions.starCount(book);
         if (
-            String(ISBN).length == 13 &&
-            validationFunctions.isNumberProvided(ISBN)
+            starCount !== null &&
+            book.totalRatings != null &&
+            book.totalRatings != starCount
         ) {
-            //next();
-        } else {
-            console.error('Invalid isbn13');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing isbn13 - please refer to documentation',
-            });
-        }
-        const Title: string = request.body.title as string;
-        if (validationFunctions.isStringProvided(Title)) {
-            //next();
-        } else {
-            console.error('Invalid book title');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing book title - please refer to documentation',
-            });
-        }
-        const Author: string = request.body.author as string;
-        if (validationFunctions.isStringProvided(Author)) {
-            //next();
-        } else {
-            console.error('Invalid book Author');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing book author - please refer to documentation',
-            });
-        }
-        const Date: string = request.body.publicationYear as string;
-        if (validationFunctions.isNumberProvided(Date)) {
-            //next();
-        } else {
-            console.error('Invalid publiciation year');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing publication year - please refer to documentation',
-            });
-        }
-        const imageSmallURL: string = request.body.imageSmallURL as string;
-        if (validationFunctions.isStringProvided(imageSmallURL)) {
-            //next();
-        } else {
-            console.error('Invalid small url');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing small image url - please refer to the documentation',
-            });
-        }
-        const imageLargeURL: string = request.body.imageLargeURL as string;
-        if (validationFunctions.isStringProvided(imageLargeURL)) {
-            //next();
-        } else {
-            console.error('Invalid large url');
-            return response.status(400).send({
-                message:
-                    'Invalid or missing large image url - please refer to the documentation',
-            });
+            return next(new BadRequestError(TOTAL_RATINGS_MISMATCH));
         }
-        next();
-    },
-    //Method to calculate average rating.
-    (request: Request, response: Response, next: NextFunction) => {
-        //generate average
-        const totalRatings: number = request.body?.totalRatings as number;
-        const oneStar: number = request.body?.oneStar as number;
-        const twoStar: number = request.body?.twoStar as number;
-        const threeStar: number = request.body?.threeStar as number;
-        const fourStar: number = request.body?.fourStar as number;
-        const fiveStar: number = request.body?.fiveStar as number;
-
-        let averageRating: number;
-        if (
-            validationFunctions.isNumberProvided(totalRatings) &&
-            validationFunctions.isNumberProvided(oneStar) &&
-            validationFunctions.isNumberProvided(twoStar) &&
-            validationFunctions.isNumberProvided(threeStar) &&
-            validationFunctions.isNumberProvided(fourStar) &&
-            validationFunctions.isNumberProvided(fiveStar)
-        ) {
-            if (
-                totalRatings < 0 ||
-                oneStar < 0 ||
-                twoStar < 0 ||
-                threeStar < 0 ||
-                fourStar < 0 ||
-                fiveStar < 0
+
+        bookRepository
+            .create(bookFunctions.toNewBook(book))
+            .then((created) =>
+                response.status(201).send({
+                    book: bookFunctions.toBook(created),
+                })
+            )
+            .catch(next);
+    }
+);
+
+/**
+ * @api {post} /library/import Request to import books
+ *
+ * @apiDescription Adds or updates many books at once from CSV or newline delimited JSON, sent
+ * as the body of the request. The columns are those of BOOKS or of the Goodreads
+ * <code>books.csv</code> in <code>data/</code>, e.g. <code>rating_avg</code> or
+ * <code>average_rating</code>; other columns are ignored. Each row is checked like a book sent
+ * to <code>/library/add</code> and saved by <code>isbn13</code>: a new isbn13 adds a book, an
+ * existing one updates it. A row of a book already in the catalog may, as in an export, leave
+ * out a value BOOKS holds NULL in, such as the title, or have a wrong check digit; it can then
+ * update the book but not add a new one. Rows with errors are skipped and reported, the other
+ * rows are saved together or not at all.
+ *
+ * @apiName ImportBooks
+ * @apiPermission Admin
+ * @apiGroup Library
+ *
+ * @apiHeader {String="text/csv","application/x-ndjson"} Content-Type the format of the body
+ * @apiQuery {boolean} [dryRun=false] when true, check the rows and report what would happen
+ * without saving anything
+ *
+ * @apiSuccess {boolean} dryRun whether the import was a dry run
+ * @apiSuccess {number} inserted the number of books added
+ * @apiSuccess {number} updated the number of books changed
+ * @apiSuccess {number} skipped the number of rows not saved, because of an error or because the
+ * book already was exactly like the row
+ * @apiSuccess {Object[]} errors the rows with errors, at most 100
+ * @apiSuccess {number} errors.line the line of the body the row starts on
+ * @apiSuccess {String} errors.isbn13 the isbn13 of the row, null when it could not be read
+ * @apiSuccess {String} errors.message what is wrong with the row
+ * @apiSuccess {boolean} errorsTruncated true when there were more errors than reported
+ *
+ * @apiError (400: Invalid dryRun) {String} error.message "Invalid dryRun - please refer to documentation"
+ * @apiUse ValidationErrors
+ * @apiError (415: Unsupported format) {String} error.message "Send the books as text/csv or application/x-ndjson"
+ * @apiUse RoleAuth
+ */
+libraryRouter.post(
+    '/import',
+    checkToken,
+    requireRole(...PERMISSIONS.importBooks),
+    validate(IMPORT_OPTIONS),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof IMPORT_OPTIONS>,
+            response: Response
+        ) => {
+            let rows;
+            if (request.is('text/csv')) {
+                rows = bookImportFunctions.parseCsv(request);
+            } else if (
+                request.is(['application/x-ndjson', 'application/ndjson'])
             ) {
-                console.error('Rating counts must be non-negative integers');
-                return response.status(400).send({
-                    message: 'Rating counts must be non-negative integers',
-                });
+                rows = bookImportFunctions.parseNdjson(request);
             } else {
-                averageRating =
-                    (fiveStar * 5 +
-                        fourStar * 4 +
-                        threeStar * 3 +
-                        twoStar * 2 +
-                        oneStar) /
-                    totalRatings;
+                throw new UnsupportedMediaTypeError(
+                    'Send the books as text/csv or application/x-ndjson'
+                );
             }
-        } else {
-            averageRating = null;
-        }
-        request.body.averageRating = averageRating;
-        next();
-    },
-    (request: Request, response: Response) => {
-        const theQuery =
-            'INSERT INTO BOOKS(isbn13, authors, publication_year, title, rating_avg, rating_count, rating_1_star, rating_2_star, rating_3_star, rating_4_star, rating_5_star, image_url, image_small_url) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *';
-        const values = [
-            request.body.ISBN,
-            request.body.author,
-            request.body.publicationYear,
-            request.body.title,
-            request.body.averageRating,
-            request.body.totalRatings,
-            request.body.oneStar,
-            request.body.twoStar,
-            request.body.threeStar,
-            request.body.fourStar,
-            request.body.fiveStar,
-            request.body.imageBigURL,
-            request.body.imageSmallURL,
-        ];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                const Book = {
-                    ISBN: request.body.ISBN,
-                    author: request.body.author,
-                    date: request.body.publicationYear,
-                    title: request.body.title,
-                    AverageRating: request.body.averageRating,
-                    totalRatings: request.body.totalRatings,
-                    oneStar: request.body.oneStar,
-                    twoStar: request.body.twoStar,
-                    threeStar: request.body.threeStar,
-                    fourStar: request.body.fourStar,
-                    fiveStar: request.body.fiveStar,
-                    imageBigURL: request.body.imageBigURL,
-                    imageSmallURL: request.body.imageSmallURL,
-                };
-                return response.status(201).send({
-                    Book,
-                });
-            })
 
-            .catch((error) => {
-                if (
-                    error.detail != undefined &&
-                    error.detail.includes('already exists') &&
-                    error.detail.includes('title')
-                ) {
-                    console.error('Title exists');
-                    return response.status(400).send({
-                        message: 'Title already exists',
-                    });
-                } else if (
-                    error.detail != undefined &&
-                    error.detail.includes('already exists') &&
-                    error.detail.includes('isbn')
-                ) {
-                    console.error('isbn13 exists');
-                    return response.status(400).send({
-                        message: 'isbn13 already exists',
-                    });
-                } else {
-                    console.error('DB Query error on POST');
-                    console.error(error);
-                    return response.status(500).send({
-                        message: 'server error - contact support',
-                    });
-                }
-            });
-    }
+            response.send(
+                await bookImportFunctions.importBooks(
+                    rows,
+                    request.valid.query.dryRun
+                )
+            );
+        }
+    )
 );
 
 /**
  * @api {put} /library/update/ratings Request to update book rating
- * @apiDescription Updates the count of star ratings for a book by title
+ * @apiDescription Overwrites the count of star ratings for a book by title. The rating count and
+ * average of the book are recomputed from the new star counts.
  * @apiName UpdateRating
+ * @apiPermission Admin, Moderator, Editor
  * @apiGroup Library
  *
  * @apiBody {String} title The title of the book to update.
@@ -414,72 +433,236 @@ libraryRouter.post(
  *
  * @apiSuccess {String} message Confirmation that the book's ratings have been updated.
  *
- * @apiError (404: Book Not Found) {String} message "Book title not found"
- * @apiError (400: Missing Parameters) {String} message "At least one rating count must be provided"
- * @apiError (400: Invalid Rating Count) {String} message "Rating counts must be non-negative integers"
+ * @apiError (404: Book Not Found) {String} error.message "Book title not found"
+ * @apiError (400: Invalid title) {String} error.message "Invalid or missing title - please refer to documentation"
+ * @apiError (400: Missing Parameters) {String} error.message "At least one rating count must be provided"
+ * @apiError (400: Invalid Rating Count) {String} error.message "Rating counts must be non-negative integers"
+ * @apiUse ValidationErrors
  * @apiUse JSONError
+ * @apiUse RoleAuth
  */
-libraryRouter.put('/update/ratings', async (req: Request, res: Response) => {
-    const {
-        title,
-        rating_count,
-        rating_1_star,
-        rating_2_star,
-        rating_3_star,
-        rating_4_star,
-        rating_5_star,
-    } = req.body;
-
-    try {
-        // First, check if the book exists
-        const bookExists = await checkBookExists(title);
-        if (!bookExists) {
-            return res.status(404).send({ message: 'Book title not found' });
+libraryRouter.put(
+    '/update/ratings',
+    checkToken,
+    requireRole(...PERMISSIONS.editBook),
+    validate(RATINGS_UPDATE),
+    asyncHandler(
+        async (req: IValidRequest<typeof RATINGS_UPDATE>, res: Response) => {
+            const { title } = req.valid.body;
+
+            // First, check if the book exists
+            if ((await bookRepository.findByTitle(title)) === undefined) {
+                throw new NotFoundError('Book title not found');
+            }
+
+            // If the book exists, at least one rating count must be given
+            if (
+                STAR_COLUMNS.every((column) => req.valid.body[column] == null)
+            ) {
+                throw new BadRequestError(
+                    'At least one rating count must be provided'
+                );
+            }
+
+            // The rating count and average are recomputed from the new and current star counts
+            await bookRepository.updateRatings(title, req.valid.body);
+            res.status(200).send({
+                message: "Book's ratings have been updated",
+            });
         }
+    )
+);
+
+/**
+ * @apiDefine BookRatings
+ * @apiSuccess {Object} book the book after the change, like a book in the <code>entries</code> of
+ * <a href="#api-Library-SearchBooks">/library/search</a>
+ * @apiSuccess {Object} book.ratings the ratings of the book, including the change
+ */
 
-        // If the book exists, validate the rating counts
-        const validation = validateUpdateRequest(req);
-        if (!validation.valid) {
-            return res.status(400).send({ message: validation.message });
+/**
+ * @api {put} /library/books/:isbn13/my-rating Request to rate a book
+ *
+ * @apiDescription Gives the book with the given <code>isbn13</code> a rating from the signed in
+ * user, replacing the user's earlier rating of it. The rating counts and average of the book
+ * include every user's rating.
+ *
+ * @apiName PutMyRating
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Library
+ *
+ * @apiParam {number} isbn13 the isbn13 of the book
+ * @apiBody {number{1-5}} rating the number of stars
+ *
+ * @apiSuccess (Success 201) {number} rating the rating, when the user had not rated the book before
+ * @apiSuccess {number} rating the rating, when it replaced an earlier one
+ * @apiUse BookRatings
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Invalid rating) {String} error.message "Invalid or missing rating - please refer to documentation"
+ * @apiError (404: Book Not Found) {String} error.message "No book for isbn13 <code>isbn13</code> found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+libraryRouter.put(
+    '/books/:isbn13/my-rating',
+    checkToken,
+    requireRole(...PERMISSIONS.rateBook),
+    validate(MY_RATING),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof MY_RATING>,
+            response: Response
+        ) => {
+            const { isbn13 } = request.valid.params;
+            const rated = await ratingRepository.rate(
+                request.claims.id,
+                isbn13,
+                request.valid.body.rating
+            );
+            if (rated === undefined) {
+                throw new NotFoundError(`No book for isbn13 ${isbn13} found`);
+            }
+            const book = await bookRepository.findByIsbn13(isbn13);
+            response.status(rated.created ? 201 : 200).send({
+                rating: rated.rating,
+                book: bookFunctions.toBook(book),
+            });
         }
+    )
+);
 
-        // Construct the update query dynamically based on provided rating counts
-        const setClauses = [];
-        const values = [title];
-        let counter = 2;
-
-        const ratings = {
-            rating_count,
-            rating_1_star,
-            rating_2_star,
-            rating_3_star,
-            rating_4_star,
-            rating_5_star,
-        };
-        for (const [key, value] of Object.entries(ratings)) {
-            if (value != null) {
-                setClauses.push(`${key} = $${counter}`);
-                values.push(value);
-                counter++;
+/**
+ * @api {delete} /library/books/:isbn13/my-rating Request to remove a rating
+ *
+ * @apiDescription Removes the signed in user's rating of the book with the given
+ * <code>isbn13</code>, taking it out of the rating counts and average of the book.
+ *
+ * @apiName DeleteMyRating
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Library
+ *
+ * @apiParam {number} isbn13 the isbn13 of the book
+ *
+ * @apiSuccess {number} rating the rating that was removed
+ * @apiUse BookRatings
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (404: Rating Not Found) {String} error.message "You have not rated the book with isbn13 <code>isbn13</code>"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+libraryRouter.delete(
+    '/books/:isbn13/my-rating',
+    checkToken,
+    requireRole(...PERMISSIONS.rateBook),
+    validate(BOOK_PARAMS),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof BOOK_PARAMS>,
+            response: Response
+        ) => {
+            const { isbn13 } = request.valid.params;
+            const rating = await ratingRepository.remove(
+                request.claims.id,
+                isbn13
+            );
+            if (rating === undefined) {
+                throw new NotFoundError(
+                    `You have not rated the book with isbn13 ${isbn13}`
+                );
             }
+            const book = await bookRepository.findByIsbn13(isbn13);
+            response.send({
+                rating,
+                book: bookFunctions.toBook(book),
+            });
         }
+    )
+);
 
-        const updateQuery = `
-            UPDATE Books
-            SET ${setClauses.join(', ')}
-            WHERE title = $1
-                RETURNING *;
-        `;
-
-        await pool.query(updateQuery, values);
-        res.status(200).send({ message: "Book's ratings have been updated" });
-    } catch (error) {
-        console.error('Error updating book ratings:', error);
-        res.status(500).send({
-            message: 'Server error - please contact support',
-        });
-    }
-});
+/**
+ * @api {patch} /library/books/:isbn13 Request to edit a book
+ *
+ * @apiDescription Request to change some of the details of the book with the given
+ * <code>isbn13</code>. Fields left out of the body are not changed. Send the <code>ETag</code>
+ * of the book as <code>If-Match</code> so the edit is rejected when someone else changed the
+ * book since you read it.
+ *
+ * @apiName PatchBook
+ * @apiPermission Admin, Moderator, Editor
+ * @apiGroup Library
+ *
+ * @apiHeader {String} [If-Match] the <code>ETag</code> of the book as you last read it
+ * @apiParam {number} isbn13 the isbn13 of the book
+ * @apiBody {String} [title] the new title, which must not be in use
+ * @apiBody {String|String[]} [authors] the new authors, as a list or separated by commas
+ * @apiBody {number} [publication_year] the new publication year
+ * @apiBody {String} [image_url] the new url of the large image of the book
+ * @apiBody {String} [image_small_url] the new url of the small image of the book
+ *
+ * @apiSuccess {Object} book the book after the change, like a book in the <code>entries</code> of
+ * <a href="#api-Library-SearchBooks">/library/search</a>, with its new version in the <code>ETag</code> header
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Missing Parameters) {String} error.message "Missing required information" if none of the fields are given
+ * @apiError (400: Invalid field) {String} error.message "Invalid <code>field</code> - please refer to documentation"
+ * @apiError (400: Title exists) {String} error.message "Title already exists"
+ * @apiError (404: Book Not Found) {String} error.message "No book associated with this isbn13 was found"
+ * @apiError (412: Book changed) {String} error.message "The book has changed since it was read - please fetch it again"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+libraryRouter.patch(
+    '/books/:isbn13',
+    checkToken,
+    requireRole(...PERMISSIONS.editBook),
+    validate(BOOK_CHANGES),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof BOOK_CHANGES>,
+            response: Response
+        ) => {
+            const { authors, ...body } = request.valid.body;
+            // fields left out are not changed, the authors are stored as one list
+            const changes = Object.fromEntries(
+                Object.entries({
+                    ...body,
+                    authors: Array.isArray(authors)
+                        ? authors.join(', ')
+                        : authors,
+                }).filter(([, value]) => value !== undefined)
+            );
+            if (Object.keys(changes).length == 0) {
+                throw new BadRequestError('Missing required information');
+            }
+            const ifMatch = request.get('If-Match');
+            const { updated, book: stored } = await bookRepository.update(
+                request.valid.params.isbn13,
+                changes,
+                ifMatch === undefined ? null : parseIfMatch(ifMatch)
+            );
+            if (stored === undefined) {
+                throw new NotFoundError(
+                    'No book associated with this isbn13 was found'
+                );
+            }
+            const { version, ...book } = stored;
+            if (!updated) {
+                // the current version lets the client fetch the book again or retry with it
+                response.set('ETag', toEtag(version));
+                throw new PreconditionFailedError(
+                    'The book has changed since it was read - please fetch it again'
+                );
+            }
+            response.set('ETag', toEtag(version)).send({
+                book: bookFunctions.toBook(book),
+            });
+        }
+    )
+);
 
 /**
  * @api {delete} /library/remove/ISBN/:isbn13 Request to remove book entries by isbn13
@@ -487,184 +670,200 @@ libraryRouter.put('/update/ratings', async (req: Request, res: Response) => {
  * @apiDescription Request to remove all entries of <code>isbn13</code>
  *
  * @apiName Deleteisbn13
+ * @apiPermission Admin
  * @apiGroup Library
  *
  * @apiParam {number} isbn13 The isbn13 of the book to remove
  *
  *
- * @apiSuccess {String[]} entries The list of deleted entries, formatted as:
- *      "ISBN: <code>isbn</code>, Title: <code>title</code>"
+ * @apiUse BookFields
+ * @apiUse Books
  *
- * @apiError (400: Invalid or missing isbn13) {String} message "Invalid or missing isbn13 - please refer to documentation"
- * @apiError (404: No isbn13 found) {String} message "No book for isbn13 ${request.params.isbn13} found"
+ * @apiError (400: Invalid or missing isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (404: No isbn13 found) {String} error.message "No book for isbn13 ${request.params.isbn13} found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
  */
 libraryRouter.delete(
     '/remove/ISBN/:isbn13',
-    myValidIsbn13Param,
-    (request: Request, response: Response) => {
-        const theQuery = 'DELETE FROM BOOKS WHERE isbn13 = $1 RETURNING *'; //Remember to change table name!
-        const values = [request.params.isbn13];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount > 0) {
+    checkToken,
+    requireRole(...PERMISSIONS.deleteBook),
+    validate(BOOK_REQUEST),
+    (
+        request: IValidRequest<typeof BOOK_REQUEST>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const { isbn13 } = request.valid.params;
+
+        bookRepository
+            .deleteByIsbn13(isbn13)
+            .then((deleted) => {
+                if (deleted.length > 0) {
                     response.send({
-                        entries: result.rows.map(format),
+                        entries: deleted.map((row) =>
+                            bookFunctions.toBook(
+                                row,
+                                request.valid.query.fields
+                            )
+                        ),
                     });
                 } else {
-                    return response.status(404).send({
-                        message: `No book for isbn13 ${request.params.isbn13} found`,
-                    });
+                    throw new NotFoundError(
+                        `No book for isbn13 ${isbn13} found`
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE by isbn13');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch(next);
     }
 );
 
 /**
  * @api {delete} /library/remove/author/:author Request to remove a series by author
  *
- * @apiDescription Request to remove an entry associated with <code>author</code> in the DB
+ * @apiDescription Request to remove every book that credits <code>author</code>, including books
+ * written together with other authors. The name is matched regardless of case.
  *
  * @apiName DeleteAuthor
+ * @apiPermission Admin
  * @apiGroup Library
  *
- * @apiParam {String} author The author associated with the entries to delete
+ * @apiParam {String} author The name of one author associated with the entries to delete
  *
- * @apiSuccess {String} entries A string of the deleted book entry, formatted as:
- *     "Deleted: ISBN: <code>isbn</code>, Title: <code>title</code>"
+ * @apiUse BookFields
+ * @apiUse Books
  *
- * @apiError (404: Author Not Found) {String} message "No book associated with this author was found"
+ * @apiError (400: Invalid author) {String} error.message "Invalid or missing author - please refer to documentation"
+ * @apiError (404: Author Not Found) {String} error.message "No book associated with this author was found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
  */
 libraryRouter.delete(
     '/remove/author/:author',
-    mwValidAuthorDeleteQuery,
-    (request: Request, response: Response) => {
-        const theQuery = 'DELETE FROM BOOKS WHERE authors = $1 RETURNING *';
-        const values = [request.params.author];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount > 0) {
+    checkToken,
+    requireRole(...PERMISSIONS.deleteBook),
+    validate(AUTHOR_PARAMS),
+    (
+        request: IValidRequest<typeof AUTHOR_PARAMS>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        bookRepository
+            .deleteByAuthor(request.valid.params.author)
+            .then((deleted) => {
+                if (deleted.length > 0) {
                     response.send({
-                        entries: result.rows.map(format),
+                        entries: deleted.map((row) =>
+                            bookFunctions.toBook(
+                                row,
+                                request.valid.query.fields
+                            )
+                        ),
                     });
                 } else {
-                    response.status(404).send({
-                        message:
-                            'No book associated with this author was found',
-                    });
+                    throw new NotFoundError(
+                        'No book associated with this author was found'
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on DELETE by isbn13');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch(next);
     }
 );
 
 /**
  * @api {get} /library/retrieve Request to retrieve all books
  *
- * @apiDescription Request to retrieve the information about all books
+ * @apiDescription Request to retrieve the information about all books, one page at a time
  *
  * @apiName RetrieveAllBooks
  * @apiGroup Library
  *
- * @apiSuccess {String[]} entries the aggregate of all entries as the following string:
- *      "{<code>title</code>} by <code>authors</code> - ISBN: <code>isbn13</code>, published in <code>publication_year</code>, average rating: <code>rating_avg</code>"
+ * @apiQuery {string="rating_avg","rating_count","weighted_rating","publication_year","title"} [sort="title"] the column to sort by
+ * @apiQuery {string="asc","desc"} [order="asc"] the direction to sort in
  *
- * @apiError (404: Books Not Found) {string} message "Book not found"
+ * @apiUse BookFields
+ * @apiUse Books
  *
+ * @apiError (400: Invalid parameter) {String} error.message "Invalid <code>parameter</code> - please refer to documentation"
+ * @apiError (404: Books Not Found) {String} error.message "Book not found"
+ * @apiUse Pagination
  */
-libraryRouter.get('/retrieve', (request: Request, response: Response) => {
-    const theQuery =
-        'SELECT title, authors, isbn13, publication_year, rating_avg, rating_count FROM BOOKS';
-
-    pool.query(theQuery)
-        .then((result) => {
-            if (result.rowCount > 0) {
+libraryRouter.get(
+    '/retrieve',
+    validate(BOOK_LIST),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof BOOK_LIST>,
+            response: Response
+        ) => {
+            const { entries, pagination } = await queryBookPage(
+                { filters: {}, sort: toSort(request.valid.query) },
+                paginationFunctions.toPageRequest(request.valid.query),
+                request.valid.query.fields
+            );
+            if (entries.length > 0) {
                 response.send({
-                    entries: result.rows.map(format),
+                    entries,
+                    pagination,
                 });
             } else {
-                response.status(404).send({
-                    message: 'Book not found',
-                });
+                throw new NotFoundError('Book not found');
             }
-        })
-        .catch((error) => {
-            //log the error
-            console.error('DB Query error on GET retrieve');
-            console.error(error);
-            response.status(500).send({
-                message: 'server error - contact support',
-            });
-        });
-});
+        }
+    )
+);
 
 /**
  * @api {get} /library/isbn13/:isbn13 Request to retrieve a book by isbn13
  *
- * @apiDescription Request to retrieve a specific book by <code>isbn13</code>. 
+ * @apiDescription Request to retrieve a specific book by <code>isbn13</code>. Like every route
+ * taking an isbn13, it also takes the ISBN-10 of the book and ignores hyphens, e.g.
+ * <code>0-439-02348-3</code> for <code>9780439023481</code>. When no book has the isbn13, the
+ * book whose isbn13 has the same first 12 digits is used, as most books imported from Goodreads
+ * lost the last digit of theirs: <code>9780439023481</code> finds <code>9780439023480</code>.
  *
  * @apiName GetBookIsbn
  * @apiGroup Library
  *
- * @apiParam {number} isbn13 the isbn13 to look up the specific book.
- * 
- * @apiSuccess {Object} entry the message book object for <code>isbn13</code>
- * @apiSuccess {number} entry.isbn13 <code>isbn13</code>
- * @apiSuccess {string} entry.authors the author of the book associated with <code>isbn13</code>
- * @apiSuccess {number} entry.publication_year the published year of the book associated with <code>isbn13</code>
- * @apiSuccess {string} entry.title the book title associated with <code>isbn13</code>
- * @apiSuccess {number} entry.rating_avg The average rating of the book associated with <code>isbn13</code>
-
+ * @apiParam {String} isbn13 the isbn13 or ISBN-10 to look up the specific book.
  *
- * @apiError (400: Invalid isbn13) {String} message "Invalid or missing isbn13  - please refer to documentation"
- * @apiError (404: Book Not Found) {string} message "No book associated with this isbn13 was found"
+ * @apiUse BookFields
+ * @apiSuccess {Object} entry the book for <code>isbn13</code>, like a book in the <code>entries</code> of
+ * <a href="#api-Library-SearchBooks">/library/search</a>, with its version in the <code>ETag</code>
+ * header for <code>PATCH /library/books/:isbn13</code>
  *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (404: Book Not Found) {String} error.message "No book associated with this isbn13 was found"
+ *
+ * @apiUse ValidationErrors
  */
 libraryRouter.get(
     '/isbn13/:isbn13',
-    myValidIsbn13Param,
-    (request: Request, response: Response) => {
-        const theQuery =
-            'SELECT isbn13, authors, publication_year, title, rating_avg FROM BOOKS WHERE isbn13 = $1';
-        const values = [request.params.isbn13];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount == 1) {
-                    response.send({
-                        entry: result.rows[0],
+    validate(BOOK_REQUEST),
+    matchIsbn13,
+    (
+        request: IValidRequest<typeof BOOK_REQUEST>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        bookRepository
+            .findByIsbn13(request.valid.params.isbn13)
+            .then((stored) => {
+                if (stored !== undefined) {
+                    const { version, ...entry } = stored;
+                    response.set('ETag', toEtag(version)).send({
+                        entry: bookFunctions.toBook(
+                            entry,
+                            request.valid.query.fields
+                        ),
                     });
                 } else {
-                    response.status(404).send({
-                        message:
-                            'No book associated with this isbn13 was found',
-                    });
+                    throw new NotFoundError(
+                        'No book associated with this isbn13 was found'
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on GET /:isbn13');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch(next);
     }
 );
 /**
@@ -677,201 +876,299 @@ libraryRouter.get(
  *
  * @apiParam {string} title the title to look up the specific book.
  *
- * @apiSuccess {Object} entry the message book object for <code>title</code>
- * @apiSuccess {number} entry.isbn13 the ISBN of the book associated with <code>title</code>
- * @apiSuccess {string} entry.authors the author of the book associated with <code>title</code>
- * @apiSuccess {number} entry.publication_year the published year of the book associated with <code>title</code>
- * @apiSuccess {string} entry.title the book title associated with <code>title</code>
- * @apiSuccess {number} entry.rating_avg The average rating of the book associated with <code>title</code>
- *
+ * @apiUse BookFields
+ * @apiSuccess {Object} entry the book for <code>title</code>, like a book in the <code>entries</code> of
+ * <a href="#api-Library-SearchBooks">/library/search</a>
  *
- * @apiError (400: Invalid title) {String} message "Invalid or missing title  - please refer to documentation"
- * @apiError (404: Book Not Found) {string} message "No book associated with this title was found"
+ * @apiError (400: Invalid title) {String} error.message "Invalid or missing title - please refer to documentation"
+ * @apiError (404: Book Not Found) {String} error.message "No book associated with this title was found"
  *
+ * @apiUse ValidationErrors
  */
 libraryRouter.get(
     '/title/:title',
-    myValidTitleParam,
-    (request: Request, response: Response) => {
-        const theQuery =
-            'SELECT isbn13, authors, publication_year, title, rating_avg FROM BOOKS where title = $1';
-        const values = [request.params.title];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount == 1) {
+    validate(TITLE_PARAMS),
+    (
+        request: IValidRequest<typeof TITLE_PARAMS>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        bookRepository
+            .findByTitle(request.valid.params.title)
+            .then((book) => {
+                if (book !== undefined) {
                     response.send({
-                        entry: result.rows[0],
+                        entry: bookFunctions.toBook(
+                            book,
+                            request.valid.query.fields
+                        ),
                     });
                 } else {
-                    response.status(404).send({
-                        message: `No book associated with this title was found`,
-                    });
+                    throw new NotFoundError(
+                        `No book associated with this title was found`
+                    );
                 }
             })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on GET by title');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
-            });
+            .catch(next);
     }
 );
 
 /**
- * @api {get} /library?authors= Request to retrieve books by author's name
+ * @api {get} /library/search Request to search for books
  *
- * @apiDescription Request to retrieve the information about all books written by <code>author</code>.
+ * @apiDescription Request to retrieve the books matching every provided filter. All filters
+ * are optional and are combined with AND, so any mix of them may be used together.
+ * Providing <code>q</code> turns on relevance ranking: the words of <code>q</code> are matched
+ * against the title and authors regardless of case, and near misses such as typos still match.
  *
- * @apiName GetBookAuthor
+ * @apiName SearchBooks
  * @apiGroup Library
  *
- * @apiQuery {string} authors the author to look up.
- *
- * @apiSuccess {String[]} entries the aggregate of all entries as the following string:
- *      "{<code>title</code>} by <code>authors</code> - ISBN: <code>isbn13</code>, published in <code>publication_year</code>, average rating: <code>rating_avg</code>"
+ * @apiQuery {string} [q] full-text search over the title and authors
+ * @apiQuery {string} [author] case-insensitive substring of the authors
+ * @apiQuery {string} [title] case-insensitive substring of the title
+ * @apiQuery {number} [year_min] earliest publication year (inclusive)
+ * @apiQuery {number} [year_max] latest publication year (inclusive)
+ * @apiQuery {number{0-5}} [rating_min] lowest average rating (inclusive)
+ * @apiQuery {number{0-5}} [rating_max] highest average rating (inclusive)
+ * @apiQuery {number{0+}} [rating_count_min] fewest number of ratings (inclusive)
+ * @apiQuery {string} [isbn] leading digits of the isbn13
+ * @apiQuery {string="rating_avg","rating_count","weighted_rating","publication_year","title","relevance"} [sort="title"] the column
+ * to sort by, relevance requires <code>q</code> and is the default when <code>q</code> is provided
+ * @apiQuery {string="asc","desc"} [order="asc"] the direction to sort in, defaults to desc when sorting by relevance
  *
- * @apiError (400: Invalid author) {String} message "Invalid or missing author  - please refer to documentation"
- * @apiError (404: Book Not Found) {string} message "No book associated with this author was found"
+ * @apiUse BookFields
+ * @apiUse Books
+ * @apiSuccess {number} [entries.relevance] how well the book matched <code>q</code>, higher is better
  *
+ * @apiError (400: Invalid parameter) {String} error.message "Invalid <code>parameter</code> - please refer to documentation"
+ * @apiError (404: Book Not Found) {String} error.message "No book matching the search was found"
+ * @apiUse Pagination
  */
-
-libraryRouter.get('/', (request: Request, response: Response, next) => {
-    const publishedYear: string = request.query.publication_year as string;
-    const ratingAvg: string = request.query.rating_avg as string;
-    const author: string = request.query.authors as string;
-    if (author && !ratingAvg && !publishedYear) {
-        myValidAuthorQuery(request, response, () => {
-            const theQuery =
-                "SELECT isbn13, authors, publication_year, title, rating_avg FROM BOOKS WHERE authors LIKE '%' || $1 || '%'";
-            const values = [request.query.authors];
-            pool.query(theQuery, values)
-                .then((result) => {
-                    if (result.rowCount > 0) {
-                        return response.send({
-                            entries: result.rows, //.map(format),
-                        });
-                    } else {
-                        return response.status(404).send({
-                            message: `No book associated with this author was found`,
-                        });
-                    }
-                })
-                .catch((error) => {
-                    //log the error
-                    console.error('DB Query error on GET by author');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
-                    });
+libraryRouter.get(
+    '/search',
+    validate(BOOK_SEARCH),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof BOOK_SEARCH>,
+            response: Response
+        ) => {
+            const { entries, pagination } = await queryBookPage(
+                bookSearchFunctions.toSearch(request.valid.query),
+                paginationFunctions.toPageRequest(request.valid.query),
+                request.valid.query.fields
+            );
+            if (entries.length > 0) {
+                response.send({
+                    entries,
+                    pagination,
                 });
-        });
-    } else {
-        next();
-    }
-});
+            } else {
+                throw new NotFoundError(
+                    'No book matching the search was found'
+                );
+            }
+        }
+    )
+);
 
 /**
- * @api {get} /library?publication_year= Request to retrieve books by original publication year
+ * @api {get} /library/export Request to export books
  *
- * @apiDescription Request to retrieve the information about all books published in <code>publication_year</code>.
+ * @apiDescription Request to download every book matching the filters of
+ * <a href="#api-Library-SearchBooks">/library/search</a>, in the order of its sort parameters.
+ * The books are streamed as they are read, so a whole catalog can be exported at once. Each book
+ * has the columns of the books table with the authors as one comma separated string, which is what
+ * <a href="#api-Library-ImportBooks">/library/import</a> reads, so importing an export in CSV or
+ * NDJSON leaves the catalog as it was.
  *
- * @apiName GetBookPublicationYear
+ * @apiName ExportBooks
  * @apiGroup Library
  *
- * @apiQuery {number} publication_year the publication year to look up.
+ * @apiQuery {string="csv","ndjson","json"} [format="csv"] the format to export in: CSV with a header
+ * row, one JSON object per line, or a JSON array
+ * @apiQuery {string} [q] the filters and sort order of <a href="#api-Library-SearchBooks">/library/search</a>
  *
- * @apiSuccess {String[]} entries the aggregate of all entries as the following string:
- *      "{<code>title</code>} by <code>author</code> - ISBN: <code>isbn13</code>, published in <code>publication_year</code>, average rating: <code>rating_avg</code>"
- *
- * @apiError (400: Invalid publication year) {String} message "Invalid or missing publication_year  - please refer to documentation"
- * @apiError (404: Book Not Found) {string} message "No book associated with this publication year was found"
+ * @apiSuccess {File} books.csv the books, sent as an attachment named books.csv, books.ndjson or books.json
+ * with the columns <code>isbn13</code>, <code>authors</code>, <code>publication_year</code>,
+ * <code>title</code>, <code>rating_avg</code>, <code>rating_count</code>, <code>rating_1_star</code>
+ * to <code>rating_5_star</code>, <code>image_url</code> and <code>image_small_url</code>
  *
+ * @apiError (400: Invalid format) {String} error.message "Invalid format - please refer to documentation"
+ * @apiError (400: Invalid parameter) {String} error.message "Invalid <code>parameter</code> - please refer to documentation"
+ * @apiUse ValidationErrors
  */
-
-libraryRouter.get('/', (request: Request, response: Response, next) => {
-    const publishedYear: string = request.query.publication_year as string;
-    const ratingAvg: string = request.query.rating_avg as string;
-    const authors: string = request.query.authors as string;
-    if (publishedYear && !ratingAvg && !authors) {
-        myValidPublicationYearQuery(request, response, () => {
-            const theQuery =
-                'SELECT isbn13, authors, publication_year, title, rating_avg FROM BOOKS where publication_year = $1';
-            const values = [request.query.publication_year];
-            pool.query(theQuery, values)
-                .then((result) => {
-                    if (result.rowCount > 0) {
-                        response.send({
-                            entries: result.rows, //.map(format),
-                        });
-                    } else {
-                        response.status(404).send({
-                            message: `No book associated with this publication year was found`,
-                        });
-                    }
-                })
-                .catch((error) => {
-                    //log the error
-                    console.error('DB Query error on GET by publication_year');
-                    console.error(error);
-                    response.status(500).send({
-                        message: 'server error - contact support',
+libraryRouter.get(
+    '/export',
+    validate(EXPORT_OPTIONS),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof EXPORT_OPTIONS>,
+            response: Response
+        ) => {
+            const format = bookExportFunctions.exportFormat(
+                request.valid.query.format
+            );
+            const search = bookSearchFunctions.toSearch(request.valid.query);
+            // waits for the client to catch up before reading more books, resolves to false
+            // once the client has gone away. A response that is gone fires neither 'drain' nor
+            // 'close' again, so it is not written to at all.
+            const write = async (chunk: string): Promise<boolean> => {
+                if (response.destroyed) return false;
+                if (!response.headersSent) {
+                    response.attachment(`books.${format.extension}`);
+                    response.type(format.contentType);
+                    response.write(format.header);
+                }
+                if (!response.write(chunk) && !response.destroyed) {
+                    await new Promise<void>((resolve) => {
+                        const resume = () => {
+                            response.off('drain', resume);
+                            response.off('close', resume);
+                            resolve();
+                        };
+                        response.on('drain', resume);
+                        response.on('close', resume);
                     });
-                });
-        });
-    } else {
-        next();
-    }
-});
+                }
+                return !response.destroyed;
+            };
+
+            // an error once part of the export is sent makes the error handler cut it short
+            let index = 0;
+            const finished = await bookRepository.streamBooks(search, (books) =>
+                write(books.map((book) => format.row(book, index++)).join(''))
+            );
+            if (finished && (await write(format.footer))) {
+                response.end();
+            }
+        }
+    )
+);
 
 /**
- * @api {get} /library?rating_avg= Request to retrieve books by rating average
+ * @api {get} /library/stats Request to retrieve library statistics
  *
- * @apiDescription Request to retrieve the information about all books with the given <code>rating_avg</code>
+ * @apiDescription Request to retrieve statistics about the ratings and publication years of
+ * all books, computed from the rating columns of the books
  *
- * @apiName RetrieveByRatingAvg
+ * @apiName GetLibraryStats
  * @apiGroup Library
  *
- * @apiQuery {number} rating_avg the rating_avg to look up.
+ * @apiSuccess {Object} ratings the ratings of all books
+ * @apiSuccess {number} ratings.book_count the number of books
+ * @apiSuccess {number} ratings.rating_count the number of ratings
+ * @apiSuccess {number} ratings.rating_avg the average of all ratings
+ * @apiSuccess {number} ratings.rating_1_star the number of 1 star ratings, and so on up to <code>rating_5_star</code>
+ * @apiSuccess {Object[]} ratings.averages the number of books by average rating, in steps of half a star
+ * @apiSuccess {number} ratings.averages.from the lowest average rating of the step
+ * @apiSuccess {number} ratings.averages.to the highest average rating of the step, itself only included for 5
+ * @apiSuccess {number} ratings.averages.books the number of books with an average rating in the step
+ * @apiSuccess {Object[]} decades the best books of each decade, by weighted rating
+ * @apiSuccess {number} decades.decade the first year of the decade, e.g. 1990
+ * @apiSuccess {Object[]} decades.books the 5 books of the decade with the highest weighted rating, like
+ * the books in the <code>entries</code> of <a href="#api-Library-SearchBooks">/library/search</a>
+ * @apiSuccess {Object[]} authors the 20 authors with the most ratings
+ * @apiSuccess {number} authors.id the id of the author
+ * @apiSuccess {String} authors.name the name of the author
+ * @apiSuccess {number} authors.book_count the number of books by the author
+ * @apiSuccess {number} authors.rating_count the number of ratings of those books
+ * @apiSuccess {number} authors.rating_avg the average rating of those books, weighted by their number of ratings
+ * @apiSuccess {Object} publication_years the publication years of all books
+ * @apiSuccess {number} publication_years.min the earliest publication year
+ * @apiSuccess {number} publication_years.max the latest publication year
+ * @apiSuccess {number} publication_years.median the median publication year
+ * @apiSuccess {Object[]} publication_years.decades the number of books published in each decade
+ * @apiSuccess {number} publication_years.decades.decade the first year of the decade
+ * @apiSuccess {number} publication_years.decades.books the number of books published in the decade
+ */
+libraryRouter.get(
+    '/stats',
+    asyncHandler(async (request: Request, response: Response) => {
+        const { totals, averages, decades, authors, years, yearsByDecade } =
+            await bookRepository.statistics();
+        response.send({
+            ratings: {
+                ...totals,
+                averages,
+            },
+            decades: decades.map(({ decade, books }) => ({
+                decade,
+                books: books.map((book) => bookFunctions.toBook(book)),
+            })),
+            authors,
+            publication_years: {
+                ...years,
+                decades: yearsByDecade,
+            },
+        });
+    })
+);
+
+/**
+ * @apiDefine Recommendations
+ * @apiQuery {number{1-50}} [limit=10] the number of books to return
+ * @apiUse BookFields
+ *
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
  *
- * @apiSuccess {String[]} entries the aggregate of all entries as the following string:
- *      "{<code>title</code>} by <code>authors</code> - ISBN: <code>isbn13</code>, published in <code>publication_year</code>, average rating: <code>rating_avg</code>"
+ * @apiUse Books
+ * @apiSuccess {number} entries.score how strongly readers who liked the same books liked this one,
+ * 0 when it was picked for another reason
+ * @apiSuccess {string} entries.reason why the book was picked: "readers" when liked by readers who
+ * liked the same books, "series" or "author" when it shares one, "popular" when it is rated highly
+ */
+
+/**
+ * @api {get} /library/books/:isbn13/similar Request to retrieve similar books
  *
- * @apiError (400: Invalid rating_avg) {string} message "Invalid or missing rating_avg - please refer to documentation"
- * @apiError (404: Book Not Found) {string} message "No book associated with this rating_avg was found"
+ * @apiDescription Request to retrieve the books most like the book with the given
+ * <code>isbn13</code>. Books that readers who liked it also liked come first, then books in
+ * the same series or by the same author, then highly rated books. The readers' likes are
+ * refreshed offline, so new ratings and shelves show up with a delay.
  *
+ * @apiName GetSimilarBooks
+ * @apiGroup Library
+ *
+ * @apiParam {number} isbn13 the isbn13 of the book
+ * @apiUse Recommendations
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (404: Book Not Found) {String} error.message "No book associated with this isbn13 was found"
+ * @apiUse ValidationErrors
  */
 libraryRouter.get(
-    '/',
-    mwValidRatingAverageQuery,
-    (request: Request, response: Response) => {
-        const theQuery =
-            'SELECT isbn13, authors, publication_year, title, rating_avg FROM BOOKS where rating_avg = $1';
-        const values = [request.query.rating_avg];
-
-        pool.query(theQuery, values)
-            .then((result) => {
-                if (result.rowCount > 0) {
-                    response.send({
-                        entries: result.rows,
-                    });
-                } else {
-                    response.status(404).send({
-                        message: `No book associated with this rating_avg was found`,
-                    });
-                }
-            })
-            .catch((error) => {
-                //log the error
-                console.error('DB Query error on GET by rating_avg');
-                console.error(error);
-                response.status(500).send({
-                    message: 'server error - contact support',
-                });
+    '/books/:isbn13/similar',
+    validate(SIMILAR_BOOKS),
+    matchIsbn13,
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof SIMILAR_BOOKS>,
+            response: Response
+        ) => {
+            const book = await bookRepository.findByIsbn13(
+                request.valid.params.isbn13
+            );
+            if (book === undefined) {
+                throw new NotFoundError(
+                    'No book associated with this isbn13 was found'
+                );
+            }
+            const similar = await recommendationRepository.findSimilar(
+                book.id,
+                request.valid.query.limit
+            );
+            response.send({
+                entries: similar.map((row) =>
+                    recommendationFunctions.toRecommendation(
+                        row,
+                        request.valid.query.fields
+                    )
+                ),
             });
-    }
+        }
+    )
 );
+
 // "return" the router
 export { libraryRouter };
@@ -0,0 +1,605 @@
+//express is the framework we're going to use to handle requests
+import express, { NextFunction, Response, Router } from 'express';
+
+import { schemaFunctions, paginationFunctions } from '../../core/utilities';
+import { reviewRepository } from '../../core/repositories';
+import {
+    asyncHandler,
+    checkToken,
+    requireRole,
+    validate,
+    matchIsbn13,
+} from '../../core/middleware';
+import {
+    BadRequestError,
+    ForbiddenError,
+    NotFoundError,
+    IJwtRequest,
+    ISort,
+    IValidRequest,
+    PERMISSIONS,
+} from '../../core/models';
+
+// the reviews of one book, mounted below /library/books/:isbn13
+const bookReviewsRouter: Router = express.Router({ mergeParams: true });
+// single reviews, by their id
+const reviewsRouter: Router = express.Router();
+
+const { string, id, isbn, oneOf, optional } = schemaFunctions;
+const { PAGE_QUERY, cursorCheck } = paginationFunctions;
+
+const MAX_BODY_LENGTH = 10000;
+
+// newest first is by id, which grows with every review and, unlike a timestamp, is exact in a cursor
+const REVIEW_SORTS: Record<string, ISort> = {
+    newest: { column: 'id', direction: 'DESC' },
+    helpful: { column: 'helpful_count', direction: 'DESC' },
+};
+
+// reviews with the most reports come first in the moderation queue
+const REPORT_SORT: ISort = { column: 'report_count', direction: 'DESC' };
+
+// the isbn13 check digit is not verified, the books imported from Goodreads lost theirs
+const BOOK_PARAMS = { params: { isbn13: isbn(false) } };
+
+const BOOK_REVIEWS = {
+    ...BOOK_PARAMS,
+    query: {
+        sort: optional(oneOf(Object.keys(REVIEW_SORTS)), 'newest'),
+        ...PAGE_QUERY,
+    },
+    checks: [
+        cursorCheck((query: { sort: string }) => REVIEW_SORTS[query.sort]),
+    ],
+};
+
+const REPORTED_REVIEWS = {
+    query: PAGE_QUERY,
+    checks: [cursorCheck(() => REPORT_SORT)],
+};
+
+const REVIEW_TEXT = string({ trim: true, maxLength: MAX_BODY_LENGTH });
+
+const NEW_REVIEW = { ...BOOK_PARAMS, body: { body: REVIEW_TEXT } };
+
+const REVIEW_PARAMS = { params: { id: id('review id') } };
+
+const REVIEW_CHANGE = { ...REVIEW_PARAMS, body: { body: REVIEW_TEXT } };
+
+const REVIEW_REASON = {
+    ...REVIEW_PARAMS,
+    body: { reason: string({ trim: true }) },
+};
+
+// Only lets the author of the review continue, answering 404 when there is no such review.
+// Must run after validate(REVIEW_PARAMS)
+const mwReviewAuthorOnly = asyncHandler(
+    async (
+        request: IJwtRequest & IValidRequest<typeof REVIEW_PARAMS>,
+        response: Response,
+        next: NextFunction
+    ) => {
+        const authorId = await reviewRepository.findAuthorId(
+            request.valid.params.id,
+            true
+        );
+        if (authorId === undefined) {
+            throw new NotFoundError('No review with this id was found');
+        } else if (authorId !== Number(request.claims.id)) {
+            throw new ForbiddenError('You can only change your own review');
+        }
+        next();
+    }
+);
+
+/**
+ * @apiDefine Review
+ * @apiSuccess {Object} review the review
+ * @apiSuccess {number} review.id the id of the review
+ * @apiSuccess {String} review.isbn13 the isbn13 of the reviewed book, 13 digits with any leading zeros
+ * @apiSuccess {String} review.username the username of the reviewer
+ * @apiSuccess {String} review.body the text of the review
+ * @apiSuccess {number} review.helpful_count the number of users who found the review helpful
+ * @apiSuccess {String} review.created_at when the review was written
+ * @apiSuccess {String} review.updated_at when the review was last changed
+ */
+
+/**
+ * @apiDefine ReviewModeration
+ * @apiSuccess {boolean} review.is_hidden whether the review is hidden
+ * @apiSuccess {String} review.hidden_at when the review was last hidden, or null
+ * @apiSuccess {number} review.hidden_by the id of the moderator who last hid the review, or null
+ * @apiSuccess {String} review.hidden_reason why the review was last hidden, or null
+ * @apiSuccess {String} review.unhidden_at when the review was last shown again, or null
+ * @apiSuccess {number} review.unhidden_by the id of the moderator who last showed the review again, or null
+ */
+
+/**
+ * @api {get} /library/books/:isbn13/reviews Request to retrieve the reviews of a book
+ *
+ * @apiDescription Request to retrieve the reviews of the book with the given <code>isbn13</code>,
+ * one page at a time. Hidden reviews are left out.
+ *
+ * @apiName GetBookReviews
+ * @apiGroup Reviews
+ *
+ * @apiParam {String} isbn13 the isbn13 of the book
+ * @apiQuery {string="newest","helpful"} [sort="newest"] newest reviews first, or the reviews most
+ * users found helpful first
+ * @apiQuery {number{1-100}} [limit=20] the number of reviews per page
+ * @apiQuery {string} [cursor] the <code>nextCursor</code> or <code>prevCursor</code> of a previous page,
+ * which must be requested with the same <code>sort</code>
+ *
+ * @apiSuccess {Object[]} entries the reviews on the page, each as described for <code>review</code> below
+ * @apiUse Review
+ * @apiSuccess {Object} pagination metadata for the page
+ * @apiSuccess {number} pagination.limit the number of reviews per page
+ * @apiSuccess {String} pagination.nextCursor the cursor of the next page, or null on the last page
+ * @apiSuccess {String} pagination.prevCursor the cursor of the previous page, or null on the first page
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Invalid sort) {String} error.message "Invalid sort - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} error.message "Invalid cursor - please refer to documentation"
+ * @apiError (404: Review Not Found) {String} error.message "No review was found"
+ * @apiUse ValidationErrors
+ */
+bookReviewsRouter.get(
+    '/',
+    validate(BOOK_REVIEWS),
+    matchIsbn13,
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof BOOK_REVIEWS>,
+            response: Response
+        ) => {
+            const sort = REVIEW_SORTS[request.valid.query.sort];
+            const page = paginationFunctions.toPageRequest(request.valid.query);
+            const rows = await reviewRepository.findByBook(
+                request.valid.params.isbn13,
+                sort,
+                page
+            );
+            const { entries, pagination } = paginationFunctions.toPage(
+                rows,
+                sort,
+                page
+            );
+            if (entries.length > 0) {
+                response.send({
+                    entries,
+                    pagination,
+                });
+            } else {
+                throw new NotFoundError('No review was found');
+            }
+        }
+    )
+);
+
+/**
+ * @api {post} /library/books/:isbn13/reviews Request to review a book
+ *
+ * @apiDescription Adds a review of the book with the given <code>isbn13</code> by the signed in
+ * user. Each user can review a book once, and change the review later.
+ *
+ * @apiName PostBookReview
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Reviews
+ *
+ * @apiParam {String} isbn13 the isbn13 of the book
+ * @apiBody {String{1-10000}} body the text of the review
+ *
+ * @apiSuccess (Success 201) {Object} review the new review, as described for <code>review</code> below
+ * @apiUse Review
+ *
+ * @apiError (400: Invalid isbn13) {String} error.message "Invalid or missing isbn13 - please refer to documentation"
+ * @apiError (400: Invalid body) {String} error.message "Invalid or missing body - please refer to documentation"
+ * @apiError (400: Already reviewed) {String} error.message "You have already reviewed this book"
+ * @apiError (404: Book Not Found) {String} error.message "No book for isbn13 <code>isbn13</code> found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+bookReviewsRouter.post(
+    '/',
+    checkToken,
+    requireRole(...PERMISSIONS.writeReview),
+    validate(NEW_REVIEW),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof NEW_REVIEW>,
+            response: Response
+        ) => {
+            const review = await reviewRepository.create(
+                request.valid.params.isbn13,
+                request.claims.id,
+                request.valid.body.body
+            );
+            if (review === undefined) {
+                throw new NotFoundError(
+                    `No book for isbn13 ${request.valid.params.isbn13} found`
+                );
+            }
+            response.status(201).send({
+                review,
+            });
+        }
+    )
+);
+
+/**
+ * @api {get} /reviews/reports Request to retrieve reported reviews
+ *
+ * @apiDescription Request to retrieve the reviews that were reported and are not hidden, the
+ * most reported first, one page at a time
+ *
+ * @apiName GetReviewReports
+ * @apiPermission Admin, Moderator
+ * @apiGroup Reviews
+ *
+ * @apiQuery {number{1-100}} [limit=20] the number of reviews per page
+ * @apiQuery {string} [cursor] the <code>nextCursor</code> or <code>prevCursor</code> of a previous page
+ *
+ * @apiSuccess {Object[]} entries the reviews on the page, each as described for <code>review</code> below
+ * @apiUse Review
+ * @apiSuccess {number} review.report_count the number of users who reported the review
+ * @apiSuccess {String[]} review.reasons the reasons given in the reports
+ * @apiSuccess {Object} pagination metadata for the page
+ * @apiSuccess {number} pagination.limit the number of reviews per page
+ * @apiSuccess {String} pagination.nextCursor the cursor of the next page, or null on the last page
+ * @apiSuccess {String} pagination.prevCursor the cursor of the previous page, or null on the first page
+ *
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} error.message "Invalid cursor - please refer to documentation"
+ * @apiError (404: Review Not Found) {String} error.message "No review was found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+reviewsRouter.get(
+    '/reports',
+    checkToken,
+    requireRole(...PERMISSIONS.moderateReviews),
+    validate(REPORTED_REVIEWS),
+    asyncHandler(
+        async (
+            request: IValidRequest<typeof REPORTED_REVIEWS>,
+            response: Response
+        ) => {
+            const page = paginationFunctions.toPageRequest(request.valid.query);
+            const rows = await reviewRepository.findReported(REPORT_SORT, page);
+            const { entries, pagination } = paginationFunctions.toPage(
+                rows,
+                REPORT_SORT,
+                page
+            );
+            if (entries.length > 0) {
+                response.send({
+                    entries,
+                    pagination,
+                });
+            } else {
+                throw new NotFoundError('No review was found');
+            }
+        }
+    )
+);
+
+/**
+ * @api {patch} /reviews/:id Request to change a review
+ *
+ * @apiDescription Changes the text of a review. Only the user who wrote the review can change it.
+ *
+ * @apiName PatchReview
+ * @apiPermission the author of the review
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ * @apiBody {String{1-10000}} body the new text of the review
+ *
+ * @apiUse Review
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (400: Invalid body) {String} error.message "Invalid or missing body - please refer to documentation"
+ * @apiError (403: Not the author) {String} error.message "You can only change your own review"
+ * @apiError (404: Review Not Found) {String} error.message "No review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+reviewsRouter.patch(
+    '/:id',
+    checkToken,
+    validate(REVIEW_CHANGE),
+    mwReviewAuthorOnly,
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_CHANGE>,
+            response: Response
+        ) => {
+            const review = await reviewRepository.update(
+                request.valid.params.id,
+                request.valid.body.body
+            );
+            response.send({
+                review,
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /reviews/:id Request to delete a review
+ *
+ * @apiDescription Deletes a review together with its votes and reports. Only the user who
+ * wrote the review can delete it.
+ *
+ * @apiName DeleteReview
+ * @apiPermission the author of the review
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ *
+ * @apiSuccess {String} message "Review deleted"
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (403: Not the author) {String} error.message "You can only change your own review"
+ * @apiError (404: Review Not Found) {String} error.message "No review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+reviewsRouter.delete(
+    '/:id',
+    checkToken,
+    validate(REVIEW_PARAMS),
+    mwReviewAuthorOnly,
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_PARAMS>,
+            response: Response
+        ) => {
+            await reviewRepository.remove(request.valid.params.id);
+            response.send({
+                message: 'Review deleted',
+            });
+        }
+    )
+);
+
+/**
+ * @api {put} /reviews/:id/helpful Request to mark a review as helpful
+ *
+ * @apiDescription Records that the signed in user found the review helpful. Voting again has no
+ * further effect, and users cannot vote for their own reviews.
+ *
+ * @apiName PutReviewHelpful
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ *
+ * @apiSuccess {number} helpful_count the number of users who found the review helpful
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (400: Own review) {String} error.message "You cannot vote for your own review"
+ * @apiError (404: Review Not Found) {String} error.message "No review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+reviewsRouter.put(
+    '/:id/helpful',
+    checkToken,
+    requireRole(...PERMISSIONS.writeReview),
+    validate(REVIEW_PARAMS),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_PARAMS>,
+            response: Response
+        ) => {
+            const authorId = await reviewRepository.findAuthorId(
+                request.valid.params.id,
+                false
+            );
+            if (authorId === undefined) {
+                throw new NotFoundError('No review with this id was found');
+            }
+            if (authorId === Number(request.claims.id)) {
+                throw new BadRequestError(
+                    'You cannot vote for your own review'
+                );
+            }
+            response.send({
+                helpful_count: await reviewRepository.vote(
+                    request.valid.params.id,
+                    request.claims.id
+                ),
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /reviews/:id/helpful Request to take back a helpful vote
+ *
+ * @apiDescription Removes the signed in user's helpful vote from the review
+ *
+ * @apiName DeleteReviewHelpful
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ *
+ * @apiSuccess {number} helpful_count the number of users who found the review helpful
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (404: Vote Not Found) {String} error.message "You have not voted for this review"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+reviewsRouter.delete(
+    '/:id/helpful',
+    checkToken,
+    requireRole(...PERMISSIONS.writeReview),
+    validate(REVIEW_PARAMS),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_PARAMS>,
+            response: Response
+        ) => {
+            const helpfulCount = await reviewRepository.removeVote(
+                request.valid.params.id,
+                request.claims.id
+            );
+            if (helpfulCount === undefined) {
+                throw new NotFoundError('You have not voted for this review');
+            }
+            response.send({
+                helpful_count: helpfulCount,
+            });
+        }
+    )
+);
+
+/**
+ * @api {post} /reviews/:id/report Request to report a review
+ *
+ * @apiDescription Reports a review to the moderators. Each user can report a review once.
+ *
+ * @apiName PostReviewReport
+ * @apiPermission Admin, Moderator, Editor, Contributor, Member
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ * @apiBody {String} reason why the review should be looked at
+ *
+ * @apiSuccess (Success 201) {String} message "Review reported"
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (400: Invalid reason) {String} error.message "Invalid or missing reason - please refer to documentation"
+ * @apiError (400: Already reported) {String} error.message "You have already reported this review"
+ * @apiError (404: Review Not Found) {String} error.message "No review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+reviewsRouter.post(
+    '/:id/report',
+    checkToken,
+    requireRole(...PERMISSIONS.writeReview),
+    validate(REVIEW_REASON),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_REASON>,
+            response: Response
+        ) => {
+            const reported = await reviewRepository.report(
+                request.valid.params.id,
+                request.claims.id,
+                request.valid.body.reason
+            );
+            if (!reported) {
+                throw new NotFoundError('No review with this id was found');
+            }
+            response.status(201).send({
+                message: 'Review reported',
+            });
+        }
+    )
+);
+
+/**
+ * @api {put} /reviews/:id/hidden Request to hide a review
+ *
+ * @apiDescription Hides a review from the book's reviews, recording the moderator and the reason.
+ * Hiding a hidden review replaces the reason.
+ *
+ * @apiName PutReviewHidden
+ * @apiPermission Admin, Moderator
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ * @apiBody {String} reason why the review is hidden
+ *
+ * @apiUse Review
+ * @apiUse ReviewModeration
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (400: Invalid reason) {String} error.message "Invalid or missing reason - please refer to documentation"
+ * @apiError (404: Review Not Found) {String} error.message "No review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse JSONError
+ * @apiUse RoleAuth
+ */
+reviewsRouter.put(
+    '/:id/hidden',
+    checkToken,
+    requireRole(...PERMISSIONS.moderateReviews),
+    validate(REVIEW_REASON),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_REASON>,
+            response: Response
+        ) => {
+            const review = await reviewRepository.hide(
+                request.valid.params.id,
+                request.claims.id,
+                request.valid.body.reason
+            );
+            if (review === undefined) {
+                throw new NotFoundError('No review with this id was found');
+            }
+            response.send({
+                review,
+            });
+        }
+    )
+);
+
+/**
+ * @api {delete} /reviews/:id/hidden Request to show a hidden review again
+ *
+ * @apiDescription Shows a hidden review again, recording the moderator. Who hid the review
+ * and why are kept.
+ *
+ * @apiName DeleteReviewHidden
+ * @apiPermission Admin, Moderator
+ * @apiGroup Reviews
+ *
+ * @apiParam {number} id the id of the review
+ *
+ * @apiUse Review
+ * @apiUse ReviewModeration
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing review id - please refer to documentation"
+ * @apiError (404: Review Not Found) {String} error.message "No hidden review with this id was found"
+ * @apiUse ValidationErrors
+ * @apiUse RoleAuth
+ */
+reviewsRouter.delete(
+    '/:id/hidden',
+    checkToken,
+    requireRole(...PERMISSIONS.moderateReviews),
+    validate(REVIEW_PARAMS),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof REVIEW_PARAMS>,
+            response: Response
+        ) => {
+            const review = await reviewRepository.unhide(
+                request.valid.params.id,
+                request.claims.id
+            );
+            if (review === undefined) {
+                throw new NotFoundError(
+                    'No hidden review with this id was found'
+                );
+            }
+            response.send({
+                review,
+            });
+        }
+    )
+);
+
+// "return" the routers
+export { bookReviewsRouter, reviewsRouter };
@@ -0,0 +1,79 @@
+//express is the framework we're going to use to handle requests
+import express, { Router } from 'express';
+
+import { seriesRepository } from '../../core/repositories';
+import { validate } from '../../core/middleware';
+import { FACET_QUERY, facetBooks, listFacets, sendFacet } from './facets';
+
+const seriesRouter: Router = express.Router();
+
+const SERIES_BOOKS = facetBooks('series');
+
+/**
+ * @api {get} /series Request to retrieve series
+ *
+ * @apiDescription Request to retrieve the book series in alphabetical order, one page at a time
+ *
+ * @apiName GetSeries
+ * @apiGroup Series
+ *
+ * @apiQuery {string} [name] case-insensitive substring of the series name
+ * @apiQuery {number{1-100}} [limit=20] the number of series per page
+ * @apiQuery {string} [cursor] the <code>nextCursor</code> or <code>prevCursor</code> of a previous page
+ *
+ * @apiSuccess {Object[]} entries the series on the page
+ * @apiSuccess {number} entries.id the id of the series
+ * @apiSuccess {string} entries.name the name of the series
+ * @apiSuccess {number} entries.book_count the number of books in the series
+ * @apiSuccess {Object} pagination metadata for the page
+ * @apiSuccess {number} pagination.limit the number of series per page
+ * @apiSuccess {String} pagination.nextCursor the cursor of the next page, or null on the last page
+ * @apiSuccess {String} pagination.prevCursor the cursor of the previous page, or null on the first page
+ *
+ * @apiError (400: Invalid name) {String} error.message "Invalid name - please refer to documentation"
+ * @apiError (400: Invalid limit) {String} error.message "Invalid limit - please refer to documentation"
+ * @apiError (400: Invalid cursor) {String} error.message "Invalid cursor - please refer to documentation"
+ * @apiError (404: Series Not Found) {String} error.message "No series was found"
+ * @apiUse ValidationErrors
+ */
+seriesRouter.get(
+    '/',
+    validate(FACET_QUERY),
+    listFacets(seriesRepository, 'No series was found')
+);
+
+/**
+ * @api {get} /series/:id Request to retrieve a series and its books
+ *
+ * @apiDescription Request to retrieve the series with the given <code>id</code> and its books in
+ * reading order. Books without a position, such as collections, come last.
+ *
+ * @apiName GetSeriesBooks
+ * @apiGroup Series
+ *
+ * @apiParam {number} id the id of the series
+ * @apiUse BookFields
+ *
+ * @apiSuccess {Object} series the series
+ * @apiSuccess {number} series.id the id of the series
+ * @apiSuccess {string} series.name the name of the series
+ * @apiSuccess {number} series.book_count the number of books in the series
+ * @apiUse Books
+ *
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing series id - please refer to documentation"
+ * @apiError (404: Series Not Found) {String} error.message "No series with this id was found"
+ * @apiUse ValidationErrors
+ */
+seriesRouter.get(
+    '/:id',
+    validate(SERIES_BOOKS),
+    sendFacet(
+        seriesRepository,
+        'series',
+        'No series with this id was found',
+        true
+    )
+);
+
+// "return" the router
+export { seriesRouter };
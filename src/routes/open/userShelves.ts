@@ -0,0 +1,104 @@
+//express is the framework we're going to use to handle requests
+import express, { Response, Router } from 'express';
+
+import {
+    schemaFunctions,
+    bookFunctions,
+    shelfFunctions,
+} from '../../core/utilities';
+import { accountRepository, shelfRepository } from '../../core/repositories';
+import {
+    asyncHandler,
+    checkOptionalToken,
+    validate,
+} from '../../core/middleware';
+import {
+    IJwtRequest,
+    IValidRequest,
+    NotFoundError,
+    Role,
+} from '../../core/models';
+
+// the shelves of one user, mounted below /users/:id
+const userShelvesRouter: Router = express.Router({ mergeParams: true });
+
+const { id } = schemaFunctions;
+
+const USER_SHELVES = {
+    params: { id: id('user id') },
+    query: bookFunctions.FIELDS_QUERY,
+};
+
+/**
+ * @api {get} /users/:id/shelves Request to retrieve a user's shelves
+ *
+ * @apiDescription Request to retrieve the shelves of the user with the given <code>id</code>
+ * together with their books. Anyone can see the public shelves, without a token. The user
+ * themselves and admins also see the private ones when they send their token.
+ *
+ * @apiName GetUserShelves
+ * @apiGroup Users
+ *
+ * @apiParam {number} id the id of the user
+ * @apiUse BookFields
+ *
+ * @apiSuccess {Object[]} entries the shelves, the default shelves first
+ * @apiSuccess {number} entries.id the id of the shelf
+ * @apiSuccess {String} entries.name the name of the shelf
+ * @apiSuccess {boolean} entries.is_default true for "Want to Read", "Currently Reading" and "Read"
+ * @apiSuccess {boolean} entries.is_public whether other users can see the shelf
+ * @apiSuccess {Object[]} entries.books the books on the shelf, the most recently added first
+ * @apiSuccess {Object} entries.books.book the book as <code>/library</code> sends it, with only the
+ * fields asked for with <code>fields</code>
+ * @apiSuccess {String} entries.books.added_at when the book was put on the shelf
+ * @apiSuccess {number} entries.books.current_page the page the reader is on, or null
+ * @apiSuccess {number} entries.books.progress_percent how much of the book the reader has read, or null
+ * @apiSuccess {String} entries.books.started_on the date the reader started the book as YYYY-MM-DD, or null
+ * @apiSuccess {String} entries.books.finished_on the date the reader finished the book as YYYY-MM-DD, or null
+ *
+ * @apiHeader {String} [authorization] the access token, as "Bearer <code>token</code>", to also
+ * see the private shelves
+ * @apiError (400: Invalid id) {String} error.message "Invalid or missing user id - please refer to documentation"
+ * @apiError (401: Token is not valid) {String} error.message "Token is not valid"
+ * @apiError (404: User Not Found) {String} error.message "No user with this id was found"
+ * @apiUse ValidationErrors
+ */
+userShelvesRouter.get(
+    '/',
+    checkOptionalToken,
+    validate(USER_SHELVES),
+    asyncHandler(
+        async (
+            request: IJwtRequest & IValidRequest<typeof USER_SHELVES>,
+            response: Response
+        ) => {
+            const userId = request.valid.params.id;
+            const seesAll =
+                request.claims !== undefined &&
+                (userId === Number(request.claims.id) ||
+                    Number(request.claims.role) === Role.Admin);
+
+            if ((await accountRepository.findUser(userId)) === undefined) {
+                throw new NotFoundError('No user with this id was found');
+            }
+            const shelves = await shelfRepository.findWithBooks(
+                userId,
+                seesAll
+            );
+            response.send({
+                entries: shelves.map((shelf) => ({
+                    ...shelf,
+                    books: shelf.books.map((book) =>
+                        shelfFunctions.toShelfBook(
+                            book,
+                            request.valid.query.fields
+                        )
+                    ),
+                })),
+            });
+        }
+    )
+);
+
+// "return" the router
+export { userShelvesRouter };
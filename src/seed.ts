@@ -0,0 +1,19 @@
+/*
+ * Seeds BOOKS of the database in PGHOST/DATABASE_URL with the books of data/books.csv, once
+ * the migrations have been applied:
+ *     npm run seed    does nothing when BOOKS already has books
+ */
+import { pool, seedFunctions } from './core/utilities';
+
+seedFunctions
+    .seedBooks()
+    .then((seeded) =>
+        console.log(
+            seeded == 0 ? 'BOOKS already has books' : `Seeded ${seeded} books`
+        )
+    )
+    .catch((error) => {
+        console.error(error.message);
+        process.exitCode = 1;
+    })
+    .finally(() => pool.end());
@@ -0,0 +1,198 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { Role } from '../src/core/models';
+import { PASSWORD, createAccount, newAccount } from './setup/accounts';
+
+describe('POST /register', () => {
+    it('registers an account and signs it in', async () => {
+        const account = newAccount();
+        const response = await request(app)
+            .post('/register')
+            .send(account)
+            .expect(201);
+
+        expect(response.body).toEqual({
+            accessToken: expect.any(String),
+            refreshToken: expect.any(String),
+            user: {
+                name: `${account.firstname} ${account.lastname}`,
+                email: account.email,
+                role: Role.Member,
+                id: expect.any(Number),
+            },
+        });
+    });
+
+    it('does not log the details of the account', async () => {
+        const dir = jest.spyOn(console, 'dir');
+        const account = newAccount();
+
+        await request(app).post('/register').send(account).expect(201);
+
+        expect(dir).not.toHaveBeenCalled();
+        dir.mockRestore();
+    });
+
+    it('makes every account a member, whatever role is sent', async () => {
+        const response = await request(app)
+            .post('/register')
+            .send({ ...newAccount(), role: Role.Admin })
+            .expect(201);
+
+        expect(response.body.user.role).toBe(Role.Member);
+    });
+
+    it.each([
+        ['firstname', { firstname: '' }, 'firstname'],
+        ['lastname', { lastname: undefined }, 'lastname'],
+        ['username', { username: 12 }, 'username'],
+        ['email', { email: 'not an email' }, 'email'],
+        ['password', { password: 'password' }, 'password'],
+        ['phone', { phone: '253-555-0100' }, 'phone number'],
+    ])('rejects an invalid %s', async (field, change, label) => {
+        const response = await request(app)
+            .post('/register')
+            .send({ ...newAccount(), ...change })
+            .expect(400);
+
+        expect(response.body.error).toMatchObject({
+            code: 'VALIDATION_FAILED',
+            message: `Invalid or missing ${label} - please refer to documentation`,
+            details: [{ location: 'body', field }],
+        });
+    });
+
+    it('reports every invalid field', async () => {
+        const response = await request(app)
+            .post('/register')
+            .send({ ...newAccount(), email: '', password: '' })
+            .expect(400);
+
+        expect(
+            response.body.error.details.map(
+                (detail: { field: string }) => detail.field
+            )
+        ).toEqual(['email', 'password']);
+    });
+
+    it.each([
+        ['email', 'Email exists'],
+        ['username', 'Username exists'],
+    ])('rejects an %s in use', async (field: 'email' | 'username', message) => {
+        const existing = newAccount();
+        await request(app).post('/register').send(existing).expect(201);
+
+        const response = await request(app)
+            .post('/register')
+            .send({ ...newAccount(), [field]: existing[field] })
+            .expect(400);
+
+        expect(response.body.error).toMatchObject({
+            code: 'ALREADY_EXISTS',
+            message,
+        });
+    });
+});
+
+describe('POST /login', () => {
+    const account = newAccount();
+
+    beforeAll(() => request(app).post('/register').send(account).expect(201));
+
+    it('signs in with the password of the account', async () => {
+        const response = await request(app)
+            .post('/login')
+            .send({ email: account.email, password: PASSWORD })
+            .expect(200);
+
+        expect(response.body).toEqual({
+            accessToken: expect.any(String),
+            refreshToken: expect.any(String),
+            user: {
+                id: expect.any(Number),
+                email: account.email,
+                name: `${account.firstname} ${account.lastname}`,
+                role: Role.Member,
+            },
+        });
+    });
+
+    it.each([
+        ['a wrong password', { password: 'Wr0ngPassword' }],
+        ['an unknown email', { email: 'nobody@test.com' }],
+    ])('rejects %s', async (_, change) => {
+        const response = await request(app)
+            .post('/login')
+            .send({ email: account.email, password: PASSWORD, ...change })
+            .expect(400);
+
+        expect(response.body.error.message).toBe('Invalid Credentials');
+    });
+
+    it('rejects a missing password', async () => {
+        const response = await request(app)
+            .post('/login')
+            .send({ email: account.email })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing password - please refer to documentation'
+        );
+    });
+
+    it('does not log a rejected sign in', async () => {
+        const log = jest.spyOn(console, 'error');
+
+        await request(app)
+            .post('/login')
+            .send({ email: account.email, password: 'Wr0ngPassword' })
+            .expect(400);
+
+        expect(log).not.toHaveBeenCalled();
+        log.mockRestore();
+    });
+
+    it('rejects malformed JSON', async () => {
+        const response = await request(app)
+            .post('/login')
+            .set('Content-Type', 'application/json')
+            .send('{"email": ')
+            .expect(400);
+
+        expect(response.body.error.code).toBe('MALFORMED_JSON');
+    });
+});
+
+describe('GET /jwt_test', () => {
+    it('accepts the token of a session', async () => {
+        const { accessToken } = await createAccount(Role.Contributor);
+
+        const response = await request(app)
+            .get('/jwt_test')
+            .set('Authorization', `Bearer ${accessToken}`)
+            .expect(200);
+
+        expect(response.body.message).toBe(
+            `Your token is valid and your role is: ${Role.Contributor}`
+        );
+    });
+
+    it('rejects a request without a token', async () => {
+        const response = await request(app).get('/jwt_test').expect(401);
+
+        expect(response.body.error).toMatchObject({
+            code: 'UNAUTHORIZED',
+            message: 'Auth token is not supplied',
+        });
+    });
+
+    it('rejects a token that is not valid', async () => {
+        const response = await request(app)
+            .get('/jwt_test')
+            .set('Authorization', 'Bearer not.a.token')
+            .expect(401);
+
+        expect(response.body.error.message).toBe('Token is not valid');
+    });
+});
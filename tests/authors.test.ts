@@ -0,0 +1,133 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { readBooksCsv } from './setup/books';
+
+/**
+ * Looks up the author with the name.
+ *
+ * @param {string} name the full name of the author
+ * @returns the author as /authors lists it
+ */
+const findAuthor = async (name: string) => {
+    const response = await request(app)
+        .get('/authors')
+        .query({ name })
+        .expect(200);
+    return response.body.entries.find(
+        (author: { name: string }) => author.name === name
+    );
+};
+
+describe('GET /authors', () => {
+    it('pages through the authors in the order of a single page', async () => {
+        const first = await request(app).get('/authors?limit=3').expect(200);
+        const next = await request(app)
+            .get('/authors')
+            .query({ limit: 3, cursor: first.body.pagination.nextCursor })
+            .expect(200);
+
+        const whole = await request(app).get('/authors?limit=6').expect(200);
+        expect([...first.body.entries, ...next.body.entries]).toEqual(
+            whole.body.entries
+        );
+        expect(next.body.pagination.prevCursor).not.toBeNull();
+    });
+
+    it('finds authors by part of their name', async () => {
+        const response = await request(app)
+            .get('/authors?name=collins')
+            .expect(200);
+
+        expect(response.body.entries).toContainEqual({
+            id: expect.any(Number),
+            name: 'Suzanne Collins',
+            book_count: expect.any(Number),
+            rating_count: expect.any(Number),
+            rating_avg: expect.any(Number),
+        });
+    });
+
+    it('answers 404 when no author matches', async () => {
+        const response = await request(app)
+            .get('/authors?name=Gabe Nobody')
+            .expect(404);
+
+        expect(response.body.error.message).toBe('No author was found');
+    });
+
+    it('rejects a cursor that is not valid', async () => {
+        const response = await request(app)
+            .get('/authors?cursor=nonsense')
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid cursor - please refer to documentation'
+        );
+    });
+});
+
+describe('GET /authors/:id', () => {
+    it('sends the author with the number of their books', async () => {
+        const author = await findAuthor('Suzanne Collins');
+        const books = (await readBooksCsv()).filter((record) =>
+            record.authors.split(', ').includes('Suzanne Collins')
+        );
+
+        const response = await request(app)
+            .get(`/authors/${author.id}`)
+            .expect(200);
+
+        expect(response.body.author).toEqual(author);
+        expect(response.body.author.book_count).toBe(books.length);
+    });
+
+    it('rejects an id that is not a number', async () => {
+        const response = await request(app).get('/authors/tolkien').expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing author id - please refer to documentation'
+        );
+    });
+
+    it('answers 404 for an unknown author', async () => {
+        const response = await request(app)
+            .get('/authors/2147483647')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No author with this id was found'
+        );
+    });
+});
+
+describe('GET /authors/:id/books', () => {
+    it('sends the books of the author, oldest first', async () => {
+        const author = await findAuthor('Suzanne Collins');
+
+        const response = await request(app)
+            .get(`/authors/${author.id}/books?fields=title,publicationYear`)
+            .expect(200);
+
+        expect(response.body.author).toEqual(author);
+        expect(response.body.entries).toHaveLength(author.book_count);
+        const years = response.body.entries.map(
+            (book: { publicationYear: number }) => book.publicationYear
+        );
+        expect([...years].sort((a, b) => a - b)).toEqual(years);
+        expect(Object.keys(response.body.entries[0]).sort()).toEqual([
+            'publicationYear',
+            'title',
+        ]);
+    });
+
+    it('answers 404 for an unknown author', async () => {
+        const response = await request(app)
+            .get('/authors/2147483647/books')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No author with this id was found'
+        );
+    });
+});
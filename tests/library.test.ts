@@ -0,0 +1,1098 @@
+import { ServerResponse, get } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+
+import { app } from '../src';
+import { Role } from '../src/core/models';
+import { bookRepository } from '../src/core/repositories';
+import { pool } from '../src/core/utilities';
+import { signUp } from './setup/accounts';
+import { readBooksCsv } from './setup/books';
+
+// Books of data/books.csv. Most lost the last digit of their isbn13 to rounding
+const HOBBIT = '9780618260300';
+const SORCERERS_STONE = '9780439554930';
+const HUNGER_GAMES = '9780439023480';
+
+let books: Record<string, string>[];
+let admin: string;
+let editor: string;
+let member: string;
+
+beforeAll(async () => {
+    books = await readBooksCsv();
+    [admin, editor, member] = await Promise.all([
+        signUp(Role.Admin),
+        signUp(Role.Editor),
+        signUp(Role.Member),
+    ]);
+});
+
+/**
+ * @param {string} isbn13 the isbn13 of a book of data/books.csv
+ * @returns the record of the book in data/books.csv
+ */
+const fixture = (isbn13: string) =>
+    books.find((record) => record.isbn13 === isbn13);
+
+/**
+ * The body of /library/add for a book that is not in the library yet.
+ *
+ * @param {string} isbn13 an isbn13 with a valid check digit, not used by another test
+ * @returns the book
+ */
+const newBook = (isbn13: string) => ({
+    ISBN: isbn13,
+    title: `The Great Book ${isbn13}`,
+    author: 'John Doe',
+    publicationYear: 2021,
+    imageSmallURL: 'www.NotARealSmall.com',
+    imageLargeURL: 'www.NotARealLarge.com',
+});
+
+/**
+ * Adds a book as the admin.
+ *
+ * @param {object} book the body of /library/add
+ * @returns the added book
+ */
+const addBook = async (book: object) =>
+    (
+        await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send(book)
+            .expect(201)
+    ).body.book;
+
+describe('GET /library/isbn13/:isbn13', () => {
+    it('retrieves a book of books.csv with its ETag', async () => {
+        const record = fixture(SORCERERS_STONE);
+        const response = await request(app)
+            .get(`/library/isbn13/${SORCERERS_STONE}`)
+            .expect(200);
+
+        expect(response.headers.etag).toMatch(/^"\d+"$/);
+        expect(response.body.entry).toMatchObject({
+            isbn13: SORCERERS_STONE,
+            title: record.title,
+            authors: record.authors.split(', '),
+            publicationYear: Number(record.original_publication_year),
+            ratings: {
+                average: Number(record.average_rating),
+                count: Number(record.ratings_count),
+                distribution: {
+                    1: Number(record.ratings_1),
+                    5: Number(record.ratings_5),
+                },
+            },
+            images: {
+                large: record.image_url,
+                small: record.small_image_url,
+            },
+        });
+    });
+
+    it('sends only the fields asked for', async () => {
+        const response = await request(app)
+            .get(`/library/isbn13/${HOBBIT}?fields=title,publicationYear`)
+            .expect(200);
+
+        expect(response.body.entry).toEqual({
+            title: 'The Hobbit',
+            publicationYear: 1937,
+        });
+    });
+
+    // the Hunger Games is kept as 9780439023480, its isbn13 being 9780439023481
+    it.each([
+        ['ISBN-10', '0-439-02348-3'],
+        ['full isbn13', '9780439023481'],
+    ])(
+        'finds a book of books.csv that lost its last digit by its %s',
+        async (_, isbn) => {
+            const response = await request(app)
+                .get(`/library/isbn13/${isbn}`)
+                .expect(200);
+
+            expect(response.body.entry).toMatchObject({
+                isbn13: HUNGER_GAMES,
+                title: fixture(HUNGER_GAMES).title,
+            });
+        }
+    );
+
+    it('rejects an isbn13 that is too short', async () => {
+        const response = await request(app)
+            .get('/library/isbn13/61532')
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing isbn13 - please refer to documentation'
+        );
+    });
+
+    it('answers 404 for an isbn13 that is not in the library', async () => {
+        const response = await request(app)
+            .get('/library/isbn13/5261723678293')
+            .expect(404);
+
+        expect(response.body.error).toMatchObject({
+            code: 'NOT_FOUND',
+            message: 'No book associated with this isbn13 was found',
+        });
+    });
+});
+
+describe('GET /library/title/:title', () => {
+    it('retrieves a book by its title', async () => {
+        const response = await request(app)
+            .get('/library/title/The Fault in Our Stars')
+            .expect(200);
+
+        expect(response.body.entry).toMatchObject({
+            title: 'The Fault in Our Stars',
+            authors: ['John Green'],
+            publicationYear: 2012,
+        });
+    });
+
+    it('answers 404 for a title that is not in the library', async () => {
+        const response = await request(app)
+            .get('/library/title/lord of the ring')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book associated with this title was found'
+        );
+    });
+});
+
+describe('GET /library/retrieve', () => {
+    it('retrieves the books one page at a time', async () => {
+        const first = await request(app)
+            .get('/library/retrieve?limit=5')
+            .expect(200);
+        expect(first.body.entries).toHaveLength(5);
+        expect(first.body.pagination).toMatchObject({
+            limit: 5,
+            nextCursor: expect.any(String),
+            prevCursor: null,
+        });
+
+        const second = await request(app)
+            .get('/library/retrieve')
+            .query({ limit: 5, cursor: first.body.pagination.nextCursor })
+            .expect(200);
+        const titles = (page: request.Response) =>
+            page.body.entries.map((book: { title: string }) => book.title);
+        expect(titles(second)).toHaveLength(5);
+        expect(titles(second)).not.toContain(titles(first)[4]);
+    });
+
+    it('sorts by the column asked for', async () => {
+        const response = await request(app)
+            .get('/library/retrieve?sort=rating_count&order=desc&limit=3')
+            .expect(200);
+
+        const counts = response.body.entries.map(
+            (book: { ratings: { count: number } }) => book.ratings.count
+        );
+        expect(counts).toEqual([...counts].sort((a, b) => b - a));
+        expect(response.body.entries[0].isbn13).toBe('9780439023480');
+    });
+
+    it('includes an estimate of the total when asked', async () => {
+        const response = await request(app)
+            .get('/library/retrieve?include_total=true')
+            .expect(200);
+
+        expect(response.body.pagination.estimatedTotal).toEqual(
+            expect.any(Number)
+        );
+    });
+
+    it.each([
+        ['sort', 'sort=authors'],
+        ['order', 'order=up'],
+        ['cursor', 'cursor=abc'],
+        ['limit', 'limit=101'],
+        ['fields', 'fields=title,pages'],
+    ])('rejects an invalid %s', async (param, query) => {
+        const response = await request(app)
+            .get(`/library/retrieve?${query}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            `Invalid ${param} - please refer to documentation`
+        );
+    });
+});
+
+describe('GET /library/search', () => {
+    it('finds the books of an author', async () => {
+        const response = await request(app)
+            .get('/library/search')
+            .query({ author: 'George R.R. Martin', limit: 100 })
+            .expect(200);
+
+        const expected = books.filter((record) =>
+            record.authors.includes('George R.R. Martin')
+        );
+        expect(response.body.entries).toHaveLength(expected.length);
+        response.body.entries.forEach((book: { authors: string[] }) =>
+            expect(book.authors).toContain('George R.R. Martin')
+        );
+    });
+
+    it('finds the books published in a year', async () => {
+        const response = await request(app)
+            .get('/library/search?year_min=2002&year_max=2002&limit=100')
+            .expect(200);
+
+        expect(response.body.entries).not.toHaveLength(0);
+        response.body.entries.forEach((book: { publicationYear: number }) =>
+            expect(book.publicationYear).toBe(2002)
+        );
+    });
+
+    it('finds the books with an average rating', async () => {
+        const response = await request(app)
+            .get('/library/search?rating_min=4.2&rating_max=4.2&limit=100')
+            .expect(200);
+
+        expect(response.body.entries).not.toHaveLength(0);
+        response.body.entries.forEach(
+            (book: { ratings: { average: number } }) =>
+                expect(book.ratings.average).toBe(4.2)
+        );
+    });
+
+    it('ranks the books by relevance to q', async () => {
+        const response = await request(app)
+            .get('/library/search?q=hobbit tolkien')
+            .expect(200);
+
+        expect(response.body.entries[0]).toMatchObject({
+            isbn13: HOBBIT,
+            relevance: expect.any(Number),
+        });
+    });
+
+    it.each([
+        ['author', 'author=Gabe Nobody'],
+        ['publication year', 'year_min=4200'],
+    ])('answers 404 for an unknown %s', async (_, query) => {
+        const response = await request(app)
+            .get(`/library/search?${query}`)
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book matching the search was found'
+        );
+    });
+
+    it.each([
+        ['year_min', 'year_min=abcf'],
+        ['rating_min', 'rating_min=abc'],
+        ['rating_max', 'rating_max=6'],
+    ])('rejects an invalid %s', async (param, query) => {
+        const response = await request(app)
+            .get(`/library/search?${query}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            `Invalid ${param} - please refer to documentation`
+        );
+    });
+
+    it('reports every invalid parameter', async () => {
+        const response = await request(app)
+            .get('/library/search?year_min=abcf&rating_max=6&limit=0')
+            .expect(400);
+
+        expect(response.body.error).toMatchObject({
+            code: 'VALIDATION_FAILED',
+            message: 'Invalid year_min - please refer to documentation',
+        });
+        expect(
+            response.body.error.details.map(
+                (detail: { field: string }) => detail.field
+            )
+        ).toEqual(['year_min', 'rating_max', 'limit']);
+    });
+
+    it.each([
+        ['year range', 'year_min=2002&year_max=2001'],
+        ['rating range', 'rating_min=4&rating_max=3'],
+        ['sort', 'sort=relevance'],
+    ])('rejects an invalid %s', async (param, query) => {
+        const response = await request(app)
+            .get(`/library/search?${query}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            `Invalid ${param} - please refer to documentation`
+        );
+    });
+
+    it('rejects the cursor of another sort order', async () => {
+        const first = await request(app)
+            .get('/library/search?author=Tolkien&limit=1')
+            .expect(200);
+
+        const response = await request(app)
+            .get('/library/search')
+            .query({
+                author: 'Tolkien',
+                sort: 'rating_count',
+                cursor: first.body.pagination.nextCursor,
+            })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid cursor - please refer to documentation'
+        );
+    });
+});
+
+describe('GET /library/export', () => {
+    it('exports the books found as CSV', async () => {
+        const response = await request(app)
+            .get('/library/export?author=George R.R. Martin')
+            .expect(200)
+            .expect('Content-Type', /text\/csv/)
+            .expect('Content-Disposition', /books\.csv/);
+
+        const lines = response.text.trim().split('\n');
+        expect(lines[0]).toMatch(/^isbn13,/);
+        expect(lines).toHaveLength(
+            books.filter((record) =>
+                record.authors.includes('George R.R. Martin')
+            ).length + 1
+        );
+    });
+
+    it('exports newline delimited JSON', async () => {
+        const response = await request(app)
+            .get(`/library/export?format=ndjson&isbn=${HOBBIT}`)
+            .expect(200)
+            .expect('Content-Disposition', /books\.ndjson/);
+
+        expect(JSON.parse(response.text.trim())).toMatchObject({
+            isbn13: HOBBIT,
+            title: 'The Hobbit',
+        });
+    });
+
+    it('stops reading and writing once the client goes away', async () => {
+        const streamBooks = jest.spyOn(bookRepository, 'streamBooks');
+        const write = ServerResponse.prototype.write;
+        let writesAfterClose = 0;
+        const writeSpy = jest
+            .spyOn(ServerResponse.prototype, 'write')
+            .mockImplementation(function (
+                this: ServerResponse,
+                ...args: Parameters<ServerResponse['write']>
+            ) {
+                if (this.destroyed) writesAfterClose++;
+                return write.apply(this, args);
+            });
+        const server = app.listen(0);
+
+        try {
+            const { port } = server.address() as AddressInfo;
+            await new Promise<void>((resolve) => {
+                const exporting = get(
+                    `http://127.0.0.1:${port}/library/export?format=ndjson`,
+                    (response) =>
+                        response.once('data', () => {
+                            exporting.destroy();
+                            resolve();
+                        })
+                );
+            });
+
+            expect(await streamBooks.mock.results[0].value).toBe(false);
+            expect(writesAfterClose).toBe(0);
+        } finally {
+            writeSpy.mockRestore();
+            streamBooks.mockRestore();
+            server.close();
+        }
+    });
+
+    it('rejects an unknown format', async () => {
+        const response = await request(app)
+            .get('/library/export?format=xml')
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid format - please refer to documentation'
+        );
+    });
+});
+
+describe('GET /library/stats', () => {
+    it('sums up the library', async () => {
+        const { rows } = await pool.query(
+            'SELECT count(*)::int AS count, min(publication_year) AS min, max(publication_year) AS max FROM BOOKS'
+        );
+        const response = await request(app).get('/library/stats').expect(200);
+
+        expect(response.body.ratings.book_count).toBe(rows[0].count);
+        expect(response.body.publication_years).toMatchObject({
+            min: rows[0].min,
+            max: rows[0].max,
+        });
+        expect(response.body.authors).toHaveLength(20);
+        expect(response.body.decades[0].books.length).toBeLessThanOrEqual(5);
+    });
+});
+
+describe('GET /library/books/:isbn13/similar', () => {
+    it('recommends books like the book', async () => {
+        const response = await request(app)
+            .get(`/library/books/${HOBBIT}/similar?limit=5`)
+            .expect(200);
+
+        expect(response.body.entries.length).toBeGreaterThan(0);
+        expect(response.body.entries.length).toBeLessThanOrEqual(5);
+        response.body.entries.forEach((book: { isbn13: string }) =>
+            expect(book.isbn13).not.toBe(HOBBIT)
+        );
+    });
+
+    it('answers 404 for an isbn13 that is not in the library', async () => {
+        const response = await request(app)
+            .get('/library/books/5261723678293/similar')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book associated with this isbn13 was found'
+        );
+    });
+});
+
+describe('POST /library/add', () => {
+    it('adds a book without ratings', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${editor}`)
+            .send(newBook('9781234567804'))
+            .expect(201);
+
+        expect(response.body.book).toMatchObject({
+            isbn13: '9781234567804',
+            title: 'The Great Book 9781234567804',
+            authors: ['John Doe'],
+            publicationYear: 2021,
+            ratings: { average: null, count: null },
+        });
+        await request(app).get('/library/isbn13/9781234567804').expect(200);
+    });
+
+    it('adds a book by its ISBN-10', async () => {
+        const book = await addBook({
+            ...newBook('0-306-40615-2'),
+            totalRatings: 4,
+            oneStar: 1,
+            twoStar: 0,
+            threeStar: 0,
+            fourStar: 0,
+            fiveStar: 3,
+        });
+
+        expect(book).toMatchObject({
+            isbn13: '9780306406157',
+            ratings: { average: 4, count: 4 },
+        });
+    });
+
+    it('counts the ratings from the stars when no total is given', async () => {
+        const book = await addBook({
+            ...newBook('9781861972767'),
+            oneStar: 0,
+            twoStar: 0,
+            threeStar: 2,
+            fourStar: 0,
+            fiveStar: 2,
+        });
+
+        expect(book.ratings).toMatchObject({ average: 4, count: 4 });
+    });
+
+    it('rejects a total that is not the sum of the star counts', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({
+                ...newBook('9781861972774'),
+                totalRatings: 10,
+                oneStar: 1,
+                twoStar: 0,
+                threeStar: 0,
+                fourStar: 0,
+                fiveStar: 3,
+            })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'totalRatings must equal the sum of the star counts'
+        );
+    });
+
+    it.each([
+        ['book title', { title: '' }],
+        ['book author', { author: '' }],
+        ['isbn13', { ISBN: null }],
+        ['publication year', { publicationYear: null }],
+        ['small image url', { imageSmallURL: undefined }],
+    ])('rejects a missing %s', async (label, change) => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({ ...newBook('9781234567897'), ...change })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            `Invalid or missing ${label} - please refer to documentation`
+        );
+    });
+
+    it('rejects a negative rating count', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({ ...newBook('9781234567811'), threeStar: -3 })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Rating counts must be non-negative integers'
+        );
+    });
+
+    it('rejects an ISBN with a wrong check digit', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send(newBook('9781234567898'))
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid ISBN check digit - please refer to documentation'
+        );
+    });
+
+    it('rejects an isbn13 in use', async () => {
+        await addBook(newBook('9781416524793'));
+
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({ ...newBook('9781416524793'), title: 'Another Book' })
+            .expect(400);
+
+        expect(response.body.error).toMatchObject({
+            code: 'ALREADY_EXISTS',
+            message: 'isbn13 already exists',
+        });
+    });
+
+    it('rejects a title in use', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({ ...newBook('9781416524724'), title: 'The Hobbit' })
+            .expect(400);
+
+        expect(response.body.error).toMatchObject({
+            code: 'ALREADY_EXISTS',
+            message: 'Title already exists',
+        });
+    });
+
+    it('rejects a request without a token', async () => {
+        await request(app)
+            .post('/library/add')
+            .send(newBook('9781234567897'))
+            .expect(401);
+    });
+
+    it('rejects a member', async () => {
+        const response = await request(app)
+            .post('/library/add')
+            .set('Authorization', `Bearer ${member}`)
+            .send(newBook('9781234567897'))
+            .expect(403);
+
+        expect(response.body.error).toMatchObject({
+            code: 'FORBIDDEN',
+            message: 'Your role does not permit this action',
+        });
+    });
+});
+
+describe('POST /library/import', () => {
+    const CSV = [
+        'isbn13,authors,original_publication_year,title,image_url,small_image_url',
+        '9781861972712,Jane Roe,2019,Imported Book,www.large.com,www.small.com',
+        '9781861972713,Jane Roe,2019,Wrong Check Digit,www.large.com,www.small.com',
+    ].join('\n');
+
+    it('checks the rows without saving them in a dry run', async () => {
+        const response = await request(app)
+            .post('/library/import?dryRun=true')
+            .set('Authorization', `Bearer ${admin}`)
+            .set('Content-Type', 'text/csv')
+            .send(CSV)
+            .expect(200);
+
+        expect(response.body).toMatchObject({
+            dryRun: true,
+            inserted: 1,
+            skipped: 1,
+            errors: [{ line: 3, isbn13: '9781861972713' }],
+        });
+        await request(app).get('/library/isbn13/9781861972712').expect(404);
+    });
+
+    it('saves the valid rows', async () => {
+        const response = await request(app)
+            .post('/library/import')
+            .set('Authorization', `Bearer ${admin}`)
+            .set('Content-Type', 'text/csv')
+            .send(CSV)
+            .expect(200);
+
+        expect(response.body).toMatchObject({ dryRun: false, inserted: 1 });
+        await request(app).get('/library/isbn13/9781861972712').expect(200);
+    });
+
+    // the columns of an import and the fields of /library/add they are checked as
+    it.each([
+        ['title', 'title', ''],
+        ['authors', 'author', 42],
+        ['publication_year', 'publicationYear', 'soon'],
+        ['small_image_url', 'imageSmallURL', undefined],
+        ['ratings_1', 'oneStar', -1],
+    ])(
+        'rejects a row with an invalid %s as /library/add does',
+        async (column, field, value) => {
+            const row = {
+                isbn13: '9781861972781',
+                authors: 'Jane Roe',
+                original_publication_year: 2019,
+                title: 'Rejected Book',
+                image_url: 'www.large.com',
+                small_image_url: 'www.small.com',
+                [column]: value,
+            };
+            const imported = await request(app)
+                .post('/library/import?dryRun=true')
+                .set('Authorization', `Bearer ${admin}`)
+                .set('Content-Type', 'application/x-ndjson')
+                .send(JSON.stringify(row))
+                .expect(200);
+            const added = await request(app)
+                .post('/library/add')
+                .set('Authorization', `Bearer ${admin}`)
+                .send({ ...newBook('9781861972781'), [field]: value })
+                .expect(400);
+
+            expect(imported.body.errors).toEqual([
+                {
+                    line: 1,
+                    isbn13: '9781861972781',
+                    message: added.body.error.message,
+                },
+            ]);
+        }
+    );
+
+    it.each([
+        ['csv', 'text/csv'],
+        ['ndjson', 'application/x-ndjson'],
+    ])(
+        'imports an export of the whole catalog as %s, leaving the catalog as it was',
+        async (format, contentType) => {
+            const exportCatalog = async () =>
+                (
+                    await request(app)
+                        .get(`/library/export?format=${format}`)
+                        .expect(200)
+                ).text;
+            const exported = await exportCatalog();
+
+            const imported = await request(app)
+                .post('/library/import')
+                .set('Authorization', `Bearer ${admin}`)
+                .set('Content-Type', contentType)
+                .send(exported)
+                .expect(200);
+
+            // the books without a title or check digit of data/books.csv are imported too,
+            // and as none of them changes, each one is counted as skipped
+            expect(imported.body).toMatchObject({
+                inserted: 0,
+                updated: 0,
+                errors: [],
+            });
+            expect(await exportCatalog()).toBe(exported);
+        }
+    );
+
+    it('adds no book without a title, even if an export could have one', async () => {
+        const response = await request(app)
+            .post('/library/import?dryRun=true')
+            .set('Authorization', `Bearer ${admin}`)
+            .set('Content-Type', 'text/csv')
+            .send(
+                'isbn13,authors,publication_year,title,image_url,image_small_url\n' +
+                    '9781861972750,Jane Roe,2019,,www.large.com,www.small.com'
+            )
+            .expect(200);
+
+        expect(response.body).toMatchObject({
+            inserted: 0,
+            skipped: 1,
+            errors: [
+                {
+                    line: 2,
+                    isbn13: '9781861972750',
+                    message:
+                        'Invalid or missing book title - please refer to documentation',
+                },
+            ],
+        });
+    });
+
+    it('rejects a body that is not CSV or NDJSON', async () => {
+        const response = await request(app)
+            .post('/library/import')
+            .set('Authorization', `Bearer ${admin}`)
+            .send({ isbn13: '9781861972712' })
+            .expect(415);
+
+        expect(response.body.error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+    });
+
+    it('rejects an editor', async () => {
+        await request(app)
+            .post('/library/import')
+            .set('Authorization', `Bearer ${editor}`)
+            .set('Content-Type', 'text/csv')
+            .send(CSV)
+            .expect(403);
+    });
+});
+
+describe('PUT /library/update/ratings', () => {
+    const TITLE = 'The Great Book 9781416527442';
+
+    beforeAll(() => addBook(newBook('9781416527442')));
+
+    it('replaces the star counts of a book', async () => {
+        const response = await request(app)
+            .put('/library/update/ratings')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({
+                title: TITLE,
+                rating_1_star: 1,
+                rating_2_star: 0,
+                rating_3_star: 0,
+                rating_4_star: 0,
+                rating_5_star: 3,
+            })
+            .expect(200);
+        expect(response.body.message).toBe("Book's ratings have been updated");
+
+        const book = await request(app)
+            .get('/library/isbn13/9781416527442')
+            .expect(200);
+        expect(book.body.entry.ratings).toMatchObject({
+            average: 4,
+            count: 4,
+            distribution: { 1: 1, 5: 3 },
+        });
+    });
+
+    it('rejects a negative rating count', async () => {
+        const response = await request(app)
+            .put('/library/update/ratings')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ title: TITLE, rating_1_star: -129464 })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Rating counts must be non-negative integers'
+        );
+    });
+
+    it('rejects a request without rating counts', async () => {
+        const response = await request(app)
+            .put('/library/update/ratings')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ title: TITLE })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'At least one rating count must be provided'
+        );
+    });
+
+    it('answers 404 for a title that is not in the library', async () => {
+        const response = await request(app)
+            .put('/library/update/ratings')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ title: 'Another book', rating_1_star: 129464 })
+            .expect(404);
+
+        expect(response.body.error.message).toBe('Book title not found');
+    });
+});
+
+describe('PUT and DELETE /library/books/:isbn13/my-rating', () => {
+    const ISBN13 = '9781861972729';
+
+    beforeAll(() => addBook(newBook(ISBN13)));
+
+    it('rates a book, then changes the rating', async () => {
+        const created = await request(app)
+            .put(`/library/books/${ISBN13}/my-rating`)
+            .set('Authorization', `Bearer ${member}`)
+            .send({ rating: 2 })
+            .expect(201);
+        expect(created.body).toMatchObject({
+            rating: 2,
+            book: { ratings: { average: 2, count: 1 } },
+        });
+
+        const changed = await request(app)
+            .put(`/library/books/${ISBN13}/my-rating`)
+            .set('Authorization', `Bearer ${member}`)
+            .send({ rating: 4 })
+            .expect(200);
+        expect(changed.body).toMatchObject({
+            rating: 4,
+            book: { ratings: { average: 4, count: 1 } },
+        });
+    });
+
+    it('removes the rating', async () => {
+        const response = await request(app)
+            .delete(`/library/books/${ISBN13}/my-rating`)
+            .set('Authorization', `Bearer ${member}`)
+            .expect(200);
+        expect(response.body).toMatchObject({
+            rating: 4,
+            book: { ratings: { count: 0 } },
+        });
+
+        await request(app)
+            .delete(`/library/books/${ISBN13}/my-rating`)
+            .set('Authorization', `Bearer ${member}`)
+            .expect(404);
+    });
+
+    it('rejects a rating out of range', async () => {
+        const response = await request(app)
+            .put(`/library/books/${ISBN13}/my-rating`)
+            .set('Authorization', `Bearer ${member}`)
+            .send({ rating: 6 })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing rating - please refer to documentation'
+        );
+    });
+
+    it('answers 404 for a book that is not in the library', async () => {
+        const response = await request(app)
+            .put('/library/books/5261723678293/my-rating')
+            .set('Authorization', `Bearer ${member}`)
+            .send({ rating: 3 })
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book for isbn13 5261723678293 found'
+        );
+    });
+
+    it('rates only the book with the exact isbn13', async () => {
+        await request(app)
+            .put('/library/books/9780439023481/my-rating')
+            .set('Authorization', `Bearer ${member}`)
+            .send({ rating: 3 })
+            .expect(404);
+    });
+});
+
+describe('PATCH /library/books/:isbn13', () => {
+    const ISBN13 = '9781861972736';
+
+    beforeAll(() => addBook(newBook(ISBN13)));
+
+    it('edits a book that has not changed since it was read', async () => {
+        const read = await request(app)
+            .get(`/library/isbn13/${ISBN13}`)
+            .expect(200);
+
+        const response = await request(app)
+            .patch(`/library/books/${ISBN13}`)
+            .set('Authorization', `Bearer ${editor}`)
+            .set('If-Match', read.headers.etag)
+            .send({ authors: ['Jane Roe', 'John Doe'], publication_year: 1999 })
+            .expect(200);
+
+        expect(response.headers.etag).not.toBe(read.headers.etag);
+        expect(response.body.book).toMatchObject({
+            authors: ['Jane Roe', 'John Doe'],
+            publicationYear: 1999,
+        });
+    });
+
+    it('rejects an edit of a book that changed since it was read', async () => {
+        const response = await request(app)
+            .patch(`/library/books/${ISBN13}`)
+            .set('Authorization', `Bearer ${editor}`)
+            .set('If-Match', '"0"')
+            .send({ publication_year: 2000 })
+            .expect(412);
+
+        expect(response.headers.etag).toMatch(/^"\d+"$/);
+        expect(response.body.error.code).toBe('PRECONDITION_FAILED');
+    });
+
+    it('rejects an edit without changes', async () => {
+        const response = await request(app)
+            .patch(`/library/books/${ISBN13}`)
+            .set('Authorization', `Bearer ${editor}`)
+            .send({})
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Missing required information'
+        );
+    });
+
+    it('rejects a title in use', async () => {
+        const response = await request(app)
+            .patch(`/library/books/${ISBN13}`)
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ title: 'The Hobbit' })
+            .expect(400);
+
+        expect(response.body.error.message).toBe('Title already exists');
+    });
+
+    it('answers 404 for a book that is not in the library', async () => {
+        await request(app)
+            .patch('/library/books/5261723678293')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ publication_year: 2000 })
+            .expect(404);
+    });
+
+    it('edits only the book with the exact isbn13', async () => {
+        await request(app)
+            .patch('/library/books/9780439023481')
+            .set('Authorization', `Bearer ${editor}`)
+            .send({ publication_year: 2000 })
+            .expect(404);
+
+        const response = await request(app)
+            .get(`/library/isbn13/${HUNGER_GAMES}`)
+            .expect(200);
+        expect(response.body.entry.publicationYear).toBe(2008);
+    });
+});
+
+describe('DELETE /library/remove/ISBN/:isbn13', () => {
+    const ISBN13 = '9781416526445';
+
+    beforeAll(() => addBook(newBook(ISBN13)));
+
+    it('rejects an editor', async () => {
+        await request(app)
+            .delete(`/library/remove/ISBN/${ISBN13}`)
+            .set('Authorization', `Bearer ${editor}`)
+            .expect(403);
+    });
+
+    it('removes the book', async () => {
+        const response = await request(app)
+            .delete(`/library/remove/ISBN/${ISBN13}`)
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(200);
+
+        expect(response.body.entries).toEqual([
+            expect.objectContaining({ isbn13: ISBN13 }),
+        ]);
+        await request(app).get(`/library/isbn13/${ISBN13}`).expect(404);
+    });
+
+    it('answers 404 for an isbn13 that is not in the library', async () => {
+        const response = await request(app)
+            .delete('/library/remove/ISBN/9999999999999')
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book for isbn13 9999999999999 found'
+        );
+    });
+
+    it('removes only the book with the exact isbn13', async () => {
+        await request(app)
+            .delete('/library/remove/ISBN/9780439023481')
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(404);
+
+        await request(app).get(`/library/isbn13/${HUNGER_GAMES}`).expect(200);
+    });
+
+    it('rejects an isbn13 that is not a number', async () => {
+        const response = await request(app)
+            .delete('/library/remove/ISBN/badISBN')
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing isbn13 - please refer to documentation'
+        );
+    });
+});
+
+describe('DELETE /library/remove/author/:author', () => {
+    beforeAll(() =>
+        Promise.all([
+            addBook({ ...newBook('9781861972743'), author: 'XYZ' }),
+            addBook({ ...newBook('9781861972750'), author: 'ABC, xyz' }),
+        ])
+    );
+
+    it('removes every book crediting the author', async () => {
+        const response = await request(app)
+            .delete('/library/remove/author/XYZ')
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(200);
+
+        expect(
+            response.body.entries
+                .map((book: { isbn13: string }) => book.isbn13)
+                .sort()
+        ).toEqual(['9781861972743', '9781861972750']);
+    });
+
+    it('answers 404 for an author without books', async () => {
+        const response = await request(app)
+            .delete('/library/remove/author/Unknown Author')
+            .set('Authorization', `Bearer ${admin}`)
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book associated with this author was found'
+        );
+    });
+});
@@ -0,0 +1,91 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { ITestAccount, createAccount } from './setup/accounts';
+
+const HUNGER_GAMES = '9780439023480';
+const CATCHING_FIRE = '9780439023500';
+const MOCKINGJAY = '9780439023510';
+const HUNGER_GAMES_TRILOGY = '9780312283000';
+
+// the reasons in the order recommendations are listed by
+const REASONS = ['readers', 'series', 'author', 'popular'];
+
+const recommendations = (account: ITestAccount, query = '') =>
+    request(app)
+        .get(`/me/recommendations${query}`)
+        .set('Authorization', `Bearer ${account.accessToken}`);
+
+describe('GET /me/recommendations', () => {
+    it('recommends the highest rated books to a new reader', async () => {
+        const reader = await createAccount();
+
+        const response = await recommendations(reader).expect(200);
+
+        expect(response.body.entries).toHaveLength(10);
+        response.body.entries.forEach((book: { reason: string }) =>
+            expect(book.reason).toBe('popular')
+        );
+    });
+
+    it('recommends the rest of a series the reader shelved, leaving out what they read', async () => {
+        const reader = await createAccount();
+        const shelves = await request(app)
+            .get('/shelves')
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(200);
+        const [wantToRead, , read] = shelves.body.entries;
+        for (const [shelf, isbn13] of [
+            [wantToRead, CATCHING_FIRE],
+            [read, MOCKINGJAY],
+        ]) {
+            await request(app)
+                .put(`/shelves/${shelf.id}/books/${isbn13}`)
+                .set('Authorization', `Bearer ${reader.accessToken}`)
+                .expect(201);
+        }
+
+        const response = await recommendations(
+            reader,
+            '?limit=20&fields=isbn13,title'
+        ).expect(200);
+
+        const entries: { isbn13: string; reason: string }[] =
+            response.body.entries;
+        expect(entries).toHaveLength(20);
+        const series = entries.filter((book) => book.reason === 'series');
+        expect(series.map((book) => book.isbn13).sort()).toEqual([
+            HUNGER_GAMES_TRILOGY,
+            HUNGER_GAMES,
+        ]);
+        expect(series[0]).toEqual({
+            isbn13: expect.any(String),
+            title: expect.stringContaining('(The Hunger Games, #1'),
+            score: 0,
+            reason: 'series',
+        });
+        const isbns = entries.map((book) => book.isbn13);
+        expect(isbns).not.toContain(CATCHING_FIRE);
+        expect(isbns).not.toContain(MOCKINGJAY);
+        const ranks = entries.map((book) => REASONS.indexOf(book.reason));
+        expect([...ranks].sort((a, b) => a - b)).toEqual(ranks);
+    });
+
+    it('rejects a limit that is too large', async () => {
+        const reader = await createAccount();
+
+        const response = await recommendations(reader, '?limit=51').expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid limit - please refer to documentation'
+        );
+    });
+
+    it('requires a token', async () => {
+        const response = await request(app)
+            .get('/me/recommendations')
+            .expect(401);
+
+        expect(response.body.error.message).toBe('Auth token is not supplied');
+    });
+});
@@ -0,0 +1,127 @@
+import { Pool } from 'pg';
+
+import { migrationFunctions, pool, seedFunctions } from '../src/core/utilities';
+
+// A database of its own, so undoing the migrations leaves the one of the other tests alone
+const DATABASE = 'tcss460_migrations';
+
+/**
+ * @param {string} database the database to connect to
+ * @returns a pool of connections to the database of the tests' Postgres
+ */
+const connect = (database: string) =>
+    new Pool({
+        host: process.env.PGHOST,
+        port: Number(process.env.PGPORT),
+        user: process.env.PGUSER,
+        password: process.env.PGPASSWORD,
+        database,
+    });
+
+let migrated: Pool;
+
+beforeAll(async () => {
+    await pool.query(`CREATE DATABASE ${DATABASE}`);
+    migrated = connect(DATABASE);
+});
+
+// The pool of the app is ended by then, so the database is dropped from a pool of its own
+afterAll(async () => {
+    await migrated.end();
+    const admin = connect(process.env.PGDATABASE);
+    try {
+        await admin.query(`DROP DATABASE ${DATABASE}`);
+    } finally {
+        await admin.end();
+    }
+});
+
+const tableExists = async (table: string) => {
+    const { rows } = await migrated.query('SELECT to_regclass($1) AS oid', [
+        table,
+    ]);
+    return rows[0].oid !== null;
+};
+
+describe('migrationFunctions', () => {
+    it('applies, undoes and applies again every migration', async () => {
+        const migrations = migrationFunctions.readMigrations();
+
+        const applied = await migrationFunctions.up(migrated);
+        expect(applied).toEqual(migrations);
+        expect(await tableExists('books')).toBe(true);
+        expect(await migrationFunctions.up(migrated)).toEqual([]);
+
+        const undone = await migrationFunctions.down(
+            migrations.length,
+            migrated
+        );
+        expect(undone).toEqual([...migrations].reverse());
+        expect(await tableExists('books')).toBe(false);
+        expect(await migrationFunctions.status(migrated)).toEqual(
+            migrations.map(({ version, name }) => ({
+                version,
+                name,
+                appliedAt: null,
+            }))
+        );
+        expect(await migrationFunctions.down(1, migrated)).toEqual([]);
+
+        expect(await migrationFunctions.up(migrated)).toEqual(migrations);
+        const status = await migrationFunctions.status(migrated);
+        status.forEach((migration) =>
+            expect(migration.appliedAt).toBeInstanceOf(Date)
+        );
+    });
+
+    it('undoes only the latest migration by default', async () => {
+        const migrations = migrationFunctions.readMigrations();
+        const latest = migrations[migrations.length - 1];
+
+        expect(await migrationFunctions.down(undefined, migrated)).toEqual([
+            latest,
+        ]);
+        const status = await migrationFunctions.status(migrated);
+        expect(status[status.length - 1].appliedAt).toBeNull();
+        expect(await migrationFunctions.up(migrated)).toEqual([latest]);
+    });
+});
+
+describe('seedFunctions', () => {
+    it('seeds the books of data/books.csv as they are, an empty field as NULL', async () => {
+        const { rows } = await pool.query(
+            `SELECT isbn13::text, authors, publication_year, title, rating_count, rating_5_star
+             FROM BOOKS WHERE isbn13 = ANY($1::BIGINT[]) ORDER BY isbn13`,
+            [['9780060182980', '9780439023480']]
+        );
+
+        expect(rows).toEqual([
+            {
+                isbn13: '9780060182980',
+                authors: 'Karen Chance',
+                publication_year: 1940,
+                title: null,
+                rating_count: 18318,
+                rating_5_star: 6585,
+            },
+            {
+                isbn13: '9780439023480',
+                authors: 'Suzanne Collins',
+                publication_year: 2008,
+                title: 'The Hunger Games (The Hunger Games, #1)',
+                rating_count: 4780653,
+                rating_5_star: 2706317,
+            },
+        ]);
+    });
+
+    it('leaves a database that already has books as it is', async () => {
+        const count = () =>
+            pool.query('SELECT count(*)::int AS books FROM BOOKS');
+        const before = await count();
+
+        expect(await seedFunctions.seedBooks()).toBe(0);
+
+        expect((await count()).rows[0].books).toBe(before.rows[0].books);
+    });
+});
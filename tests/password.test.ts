@@ -0,0 +1,223 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { mailFunctions, pool } from '../src/core/utilities';
+import { PASSWORD, createAccount } from './setup/accounts';
+
+const NEW_PASSWORD = 'N3wPassword!';
+
+const mailer = mailFunctions.createOutboxMailer();
+
+beforeAll(() => mailFunctions.setMailer(mailer));
+
+afterAll(() => mailFunctions.setMailer(mailFunctions.consoleMailer));
+
+/**
+ * Asks for a password reset of the email and reads the token from the mail it was sent in.
+ *
+ * @param {string} email the email of the account
+ * @returns the reset token
+ */
+const forgotPassword = async (email: string) => {
+    await request(app)
+        .post('/auth/password/forgot')
+        .send({ email })
+        .expect(200);
+    const mail = mailer.outbox.filter((message) => message.to === email).pop();
+    return mail.text.match(/: (\S+)$/)[1];
+};
+
+const signIn = (email: string, password: string) =>
+    request(app).post('/login').send({ email, password });
+
+describe('POST /auth/password/forgot', () => {
+    it('mails a reset token to the account', async () => {
+        const { email } = await createAccount();
+
+        const response = await request(app)
+            .post('/auth/password/forgot')
+            .send({ email })
+            .expect(200);
+
+        expect(response.body.message).toBe(
+            'If the email is registered, a reset token has been sent to it'
+        );
+        expect(mailer.outbox[mailer.outbox.length - 1]).toMatchObject({
+            to: email,
+            subject: 'Reset your password',
+        });
+    });
+
+    it('answers the same for an unknown email without mailing', async () => {
+        const sent = mailer.outbox.length;
+
+        const response = await request(app)
+            .post('/auth/password/forgot')
+            .send({ email: 'nobody@test.com' })
+            .expect(200);
+
+        expect(response.body.message).toBe(
+            'If the email is registered, a reset token has been sent to it'
+        );
+        expect(mailer.outbox).toHaveLength(sent);
+    });
+});
+
+describe('POST /auth/password/reset', () => {
+    it('sets the password with the token once', async () => {
+        const { email, accessToken } = await createAccount();
+        const token = await forgotPassword(email);
+
+        await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: NEW_PASSWORD })
+            .expect(200);
+
+        await signIn(email, PASSWORD).expect(400);
+        await signIn(email, NEW_PASSWORD).expect(200);
+        await request(app)
+            .get('/jwt_test')
+            .set('Authorization', `Bearer ${accessToken}`)
+            .expect(401);
+        const reused = await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: PASSWORD })
+            .expect(400);
+        expect(reused.body.error.message).toBe(
+            'Invalid or expired reset token'
+        );
+    });
+
+    it('uses up the other tokens of the account', async () => {
+        const { email } = await createAccount();
+        const older = await forgotPassword(email);
+        const token = await forgotPassword(email);
+
+        await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: NEW_PASSWORD })
+            .expect(200);
+
+        const response = await request(app)
+            .post('/auth/password/reset')
+            .send({ token: older, password: PASSWORD })
+            .expect(400);
+        expect(response.body.error.message).toBe(
+            'Invalid or expired reset token'
+        );
+        await signIn(email, NEW_PASSWORD).expect(200);
+    });
+
+    it('rejects an expired token', async () => {
+        const { email } = await createAccount();
+        const token = await forgotPassword(email);
+        await pool.query(
+            `UPDATE Password_Reset SET expires_at = now() - interval '1 minute'
+                WHERE account_id = (SELECT account_id FROM Account WHERE email = $1)`,
+            [email]
+        );
+
+        const response = await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: NEW_PASSWORD })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or expired reset token'
+        );
+        await signIn(email, PASSWORD).expect(200);
+    });
+
+    it('rejects an unknown token', async () => {
+        const response = await request(app)
+            .post('/auth/password/reset')
+            .send({ token: 'not a token', password: NEW_PASSWORD })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or expired reset token'
+        );
+    });
+
+    it('rejects a password that does not follow the rules', async () => {
+        const { email } = await createAccount();
+        const token = await forgotPassword(email);
+
+        const response = await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: 'password' })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing password - please refer to documentation'
+        );
+    });
+});
+
+describe('PUT /auth/password', () => {
+    it('changes the password and signs out the other sessions', async () => {
+        const account = await createAccount();
+        const other = await signIn(account.email, PASSWORD).expect(200);
+
+        await request(app)
+            .put('/auth/password')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .send({ oldPassword: PASSWORD, newPassword: NEW_PASSWORD })
+            .expect(200);
+
+        await signIn(account.email, NEW_PASSWORD).expect(200);
+        await request(app)
+            .get('/jwt_test')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(200);
+        await request(app)
+            .get('/jwt_test')
+            .set('Authorization', `Bearer ${other.body.accessToken}`)
+            .expect(401);
+    });
+
+    it('uses up the reset tokens of the account', async () => {
+        const account = await createAccount();
+        const token = await forgotPassword(account.email);
+
+        await request(app)
+            .put('/auth/password')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .send({ oldPassword: PASSWORD, newPassword: NEW_PASSWORD })
+            .expect(200);
+
+        await request(app)
+            .post('/auth/password/reset')
+            .send({ token, password: PASSWORD })
+            .expect(400);
+        await signIn(account.email, NEW_PASSWORD).expect(200);
+    });
+
+    it('requires the old password', async () => {
+        const account = await createAccount();
+
+        const response = await request(app)
+            .put('/auth/password')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .send({ oldPassword: 'Wr0ngPassword', newPassword: NEW_PASSWORD })
+            .expect(400);
+
+        expect(response.body.error.message).toBe('Invalid Credentials');
+        await signIn(account.email, PASSWORD).expect(200);
+    });
+});
+
+describe('consoleMailer', () => {
+    it('does not log the text of a mail', async () => {
+        const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+        await mailFunctions.consoleMailer.send({
+            to: 'reader@test.com',
+            subject: 'Reset your password',
+            text: 'Use this token: secret',
+        });
+
+        expect(log.mock.calls.join('\n')).not.toContain('secret');
+        log.mockRestore();
+    });
+});
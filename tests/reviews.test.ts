@@ -0,0 +1,318 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { Role } from '../src/core/models';
+import { ITestAccount, createAccount } from './setup/accounts';
+
+// books no other test file reviews
+const GREAT_GATSBY = '9780743273560';
+const MOCKINGBIRD = '9780061120080';
+// a book of books.csv whose isbn13 starts with a zero
+const LEADING_ZERO_ISBN13 = '0635517080452';
+
+let moderator: ITestAccount;
+let reader: ITestAccount;
+
+beforeAll(async () => {
+    [moderator, reader] = await Promise.all([
+        createAccount(Role.Moderator),
+        createAccount(Role.Member),
+    ]);
+});
+
+/**
+ * Reviews a book as a new member.
+ *
+ * @param {string} isbn13 the isbn13 of the book
+ * @returns the review and the member who wrote it
+ */
+const writeReview = async (isbn13: string) => {
+    const author = await createAccount();
+    const response = await request(app)
+        .post(`/library/books/${isbn13}/reviews`)
+        .set('Authorization', `Bearer ${author.accessToken}`)
+        .send({ body: `A review by ${author.email}` })
+        .expect(201);
+    return { review: response.body.review, author };
+};
+
+describe('POST /library/books/:isbn13/reviews', () => {
+    it('adds a review of the book', async () => {
+        const author = await createAccount();
+
+        const response = await request(app)
+            .post(`/library/books/${GREAT_GATSBY}/reviews`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .send({ body: '  Old sport.  ' })
+            .expect(201);
+
+        expect(response.body.review).toEqual({
+            id: expect.any(Number),
+            isbn13: GREAT_GATSBY,
+            username: expect.any(String),
+            body: 'Old sport.',
+            helpful_count: 0,
+            created_at: expect.any(String),
+            updated_at: expect.any(String),
+        });
+    });
+
+    it('sends the isbn13 of the book with its leading zeros', async () => {
+        const { review } = await writeReview(LEADING_ZERO_ISBN13);
+
+        expect(review.isbn13).toBe(LEADING_ZERO_ISBN13);
+    });
+
+    it('rejects a second review of the same book', async () => {
+        const { author } = await writeReview(GREAT_GATSBY);
+
+        const response = await request(app)
+            .post(`/library/books/${GREAT_GATSBY}/reviews`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .send({ body: 'Again' })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'You have already reviewed this book'
+        );
+    });
+
+    it('rejects a book that does not exist', async () => {
+        const response = await request(app)
+            .post('/library/books/9781234567897/reviews')
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ body: 'Never read it' })
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No book for isbn13 9781234567897 found'
+        );
+    });
+
+    it('reviews only the book with the exact isbn13', async () => {
+        // the Great Gatsby is kept as 9780743273560
+        await request(app)
+            .post('/library/books/9780743273565/reviews')
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ body: 'Old sport.' })
+            .expect(404);
+    });
+
+    it('rejects a request without a token', async () => {
+        await request(app)
+            .post(`/library/books/${GREAT_GATSBY}/reviews`)
+            .send({ body: 'Anonymous' })
+            .expect(401);
+    });
+});
+
+describe('GET /library/books/:isbn13/reviews', () => {
+    it('pages through the reviews of the book, newest first', async () => {
+        const first = await writeReview(MOCKINGBIRD);
+        const second = await writeReview(MOCKINGBIRD);
+
+        const response = await request(app)
+            .get(`/library/books/${MOCKINGBIRD}/reviews?limit=1`)
+            .expect(200);
+
+        expect(
+            response.body.entries.map((review: { id: number }) => review.id)
+        ).toEqual([second.review.id]);
+        const next = await request(app)
+            .get(`/library/books/${MOCKINGBIRD}/reviews`)
+            .query({ limit: 1, cursor: response.body.pagination.nextCursor })
+            .expect(200);
+        expect(next.body.entries[0].id).toBe(first.review.id);
+    });
+
+    it('answers 404 for a book without reviews', async () => {
+        const response = await request(app)
+            .get('/library/books/9780316769170/reviews')
+            .expect(404);
+
+        expect(response.body.error.message).toBe('No review was found');
+    });
+});
+
+describe('PATCH and DELETE /reviews/:id', () => {
+    it('lets the author change and delete the review', async () => {
+        const { review, author } = await writeReview(GREAT_GATSBY);
+
+        const changed = await request(app)
+            .patch(`/reviews/${review.id}`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .send({ body: 'On second thought' })
+            .expect(200);
+        expect(changed.body.review).toMatchObject({
+            id: review.id,
+            body: 'On second thought',
+        });
+
+        await request(app)
+            .delete(`/reviews/${review.id}`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .expect(200);
+        await request(app)
+            .delete(`/reviews/${review.id}`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .expect(404);
+    });
+
+    it('rejects a user who did not write the review', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+
+        const response = await request(app)
+            .patch(`/reviews/${review.id}`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ body: 'Not mine' })
+            .expect(403);
+
+        expect(response.body.error.message).toBe(
+            'You can only change your own review'
+        );
+    });
+});
+
+describe('PUT and DELETE /reviews/:id/helpful', () => {
+    it('counts each vote once and takes it back', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+        const vote = () =>
+            request(app)
+                .put(`/reviews/${review.id}/helpful`)
+                .set('Authorization', `Bearer ${reader.accessToken}`)
+                .expect(200);
+
+        await vote();
+        const again = await vote();
+        expect(again.body.helpful_count).toBe(1);
+
+        const taken = await request(app)
+            .delete(`/reviews/${review.id}/helpful`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(200);
+        expect(taken.body.helpful_count).toBe(0);
+        await request(app)
+            .delete(`/reviews/${review.id}/helpful`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(404);
+    });
+
+    it('rejects a vote for your own review', async () => {
+        const { review, author } = await writeReview(GREAT_GATSBY);
+
+        const response = await request(app)
+            .put(`/reviews/${review.id}/helpful`)
+            .set('Authorization', `Bearer ${author.accessToken}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'You cannot vote for your own review'
+        );
+    });
+});
+
+describe('moderation', () => {
+    it('lists reported reviews for moderators only', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+        await request(app)
+            .post(`/reviews/${review.id}/report`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ reason: 'Spoilers' })
+            .expect(201);
+
+        const reports = await request(app)
+            .get('/reviews/reports')
+            .set('Authorization', `Bearer ${moderator.accessToken}`)
+            .expect(200);
+        expect(reports.body.entries).toContainEqual(
+            expect.objectContaining({
+                id: review.id,
+                report_count: 1,
+                reasons: ['Spoilers'],
+            })
+        );
+        await request(app)
+            .get('/reviews/reports')
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(403);
+    });
+
+    it('rejects a second report by the same user', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+        const report = () =>
+            request(app)
+                .post(`/reviews/${review.id}/report`)
+                .set('Authorization', `Bearer ${reader.accessToken}`)
+                .send({ reason: 'Rude' });
+
+        await report().expect(201);
+        const response = await report().expect(400);
+
+        expect(response.body.error.message).toBe(
+            'You have already reported this review'
+        );
+    });
+
+    it('hides a review and shows it again, keeping who hid it and why', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+
+        const hidden = await request(app)
+            .put(`/reviews/${review.id}/hidden`)
+            .set('Authorization', `Bearer ${moderator.accessToken}`)
+            .send({ reason: 'Off topic' })
+            .expect(200);
+        expect(hidden.body.review).toMatchObject({
+            id: review.id,
+            is_hidden: true,
+            hidden_by: moderator.id,
+            hidden_reason: 'Off topic',
+            unhidden_at: null,
+            unhidden_by: null,
+        });
+        await request(app)
+            .put(`/reviews/${review.id}/helpful`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(404);
+
+        const shown = await request(app)
+            .delete(`/reviews/${review.id}/hidden`)
+            .set('Authorization', `Bearer ${moderator.accessToken}`)
+            .expect(200);
+        expect(shown.body.review).toMatchObject({
+            id: review.id,
+            is_hidden: false,
+            hidden_at: hidden.body.review.hidden_at,
+            hidden_by: moderator.id,
+            hidden_reason: 'Off topic',
+            unhidden_at: expect.any(String),
+            unhidden_by: moderator.id,
+        });
+        await request(app)
+            .put(`/reviews/${review.id}/helpful`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(200);
+    });
+
+    it('answers 404 when showing a review that is not hidden', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+
+        const response = await request(app)
+            .delete(`/reviews/${review.id}/hidden`)
+            .set('Authorization', `Bearer ${moderator.accessToken}`)
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No hidden review with this id was found'
+        );
+    });
+
+    it('rejects a member hiding a review', async () => {
+        const { review } = await writeReview(GREAT_GATSBY);
+
+        await request(app)
+            .put(`/reviews/${review.id}/hidden`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ reason: 'I do not like it' })
+            .expect(403);
+    });
+});
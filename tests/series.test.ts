@@ -0,0 +1,95 @@
+import request from 'supertest';
+
+import { app } from '../src';
+
+const HUNGER_GAMES = '9780439023480';
+
+describe('GET /series', () => {
+    it('finds series by part of their name', async () => {
+        const response = await request(app)
+            .get('/series?name=hunger games')
+            .expect(200);
+
+        expect(response.body.entries).toEqual([
+            { id: expect.any(Number), name: 'The Hunger Games', book_count: 4 },
+        ]);
+        expect(response.body.pagination).toEqual({
+            limit: 20,
+            nextCursor: null,
+            prevCursor: null,
+        });
+    });
+
+    it('pages through the series in the order of a single page', async () => {
+        const first = await request(app).get('/series?limit=2').expect(200);
+        const next = await request(app)
+            .get('/series')
+            .query({ limit: 2, cursor: first.body.pagination.nextCursor })
+            .expect(200);
+
+        const whole = await request(app).get('/series?limit=4').expect(200);
+        expect([...first.body.entries, ...next.body.entries]).toEqual(
+            whole.body.entries
+        );
+    });
+
+    it('answers 404 when no series matches', async () => {
+        const response = await request(app)
+            .get('/series?name=Gabe Nobody')
+            .expect(404);
+
+        expect(response.body.error.message).toBe('No series was found');
+    });
+
+    it('rejects a limit that is too large', async () => {
+        const response = await request(app)
+            .get('/series?limit=101')
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid limit - please refer to documentation'
+        );
+    });
+});
+
+describe('GET /series/:id', () => {
+    it('sends the series and its books in reading order, collections last', async () => {
+        const listed = await request(app)
+            .get('/series?name=hunger games')
+            .expect(200);
+        const series = listed.body.entries[0];
+
+        const response = await request(app)
+            .get(`/series/${series.id}?fields=isbn13,title`)
+            .expect(200);
+
+        expect(response.body.series).toEqual(series);
+        expect(
+            response.body.entries.map((book: { title: string }) => book.title)
+        ).toEqual([
+            'The Hunger Games (The Hunger Games, #1)',
+            'Catching Fire (The Hunger Games, #2)',
+            'Mockingjay (The Hunger Games, #3)',
+            expect.stringContaining('(The Hunger Games, #1-3)'),
+        ]);
+        expect(response.body.entries[0].isbn13).toBe(HUNGER_GAMES);
+    });
+
+    it('rejects an id that is not a number', async () => {
+        const response = await request(app).get('/series/first').expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing series id - please refer to documentation'
+        );
+    });
+
+    it('answers 404 for an unknown series', async () => {
+        const response = await request(app)
+            .get('/series/2147483647')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No series with this id was found'
+        );
+    });
+});
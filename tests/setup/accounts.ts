@@ -0,0 +1,83 @@
+import { randomInt, randomUUID } from 'crypto';
+import request from 'supertest';
+
+import { app } from '../../src';
+import { Role } from '../../src/core/models';
+import { pool } from '../../src/core/utilities';
+
+export const PASSWORD = 'Passw0rd!';
+
+export interface ITestAccount {
+    id: number;
+    email: string;
+    accessToken: string;
+    refreshToken: string;
+}
+
+/**
+ * The body of /register for a new account, with an email, username and phone of its own so
+ * test files can register accounts without clashing.
+ *
+ * @returns the details of the account
+ */
+export const newAccount = () => {
+    const id = randomUUID();
+    return {
+        firstname: 'Test',
+        lastname: 'Reader',
+        email: `${id}@test.com`,
+        username: id,
+        phone: String(randomInt(1e9, 1e10)),
+        password: PASSWORD,
+    };
+};
+
+/**
+ * Registers a new account with the role. Registration only makes members, so any other role
+ * is given to the account in the database, as an admin would, before it signs in.
+ *
+ * @param {Role} role the role of the account
+ * @returns the account with the tokens of a session of it
+ */
+export const createAccount = async (
+    role: Role = Role.Member
+): Promise<ITestAccount> => {
+    const account = newAccount();
+    const registered = await request(app)
+        .post('/register')
+        .send(account)
+        .expect(201);
+    const { id } = registered.body.user;
+    if (role === Role.Member) {
+        return {
+            id,
+            email: account.email,
+            accessToken: registered.body.accessToken,
+            refreshToken: registered.body.refreshToken,
+        };
+    }
+
+    await pool.query(
+        'UPDATE Account SET account_role = $1 WHERE account_id = $2',
+        [role, id]
+    );
+    const signedIn = await request(app)
+        .post('/login')
+        .send({ email: account.email, password: PASSWORD })
+        .expect(200);
+    return {
+        id,
+        email: account.email,
+        accessToken: signedIn.body.accessToken,
+        refreshToken: signedIn.body.refreshToken,
+    };
+};
+
+/**
+ * Registers a new account with the role.
+ *
+ * @param {Role} role the role of the account
+ * @returns the access token of the account
+ */
+export const signUp = async (role: Role): Promise<string> =>
+    (await createAccount(role)).accessToken;
@@ -0,0 +1,18 @@
+import { createReadStream } from 'fs';
+
+import { bookImportFunctions, seedFunctions } from '../../src/core/utilities';
+
+/**
+ * Reads the books the database of the tests is seeded with.
+ *
+ * @returns the records of data/books.csv, keyed by the column names of its header
+ */
+export const readBooksCsv = async (): Promise<Record<string, string>[]> => {
+    const records: Record<string, string>[] = [];
+    for await (const row of bookImportFunctions.parseCsv(
+        createReadStream(seedFunctions.BOOKS_CSV)
+    )) {
+        if (row.valid) records.push(row.record as Record<string, string>);
+    }
+    return records;
+};
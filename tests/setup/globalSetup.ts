@@ -0,0 +1,61 @@
+import { tmpdir, userInfo } from 'os';
+import path from 'path';
+import { Pool } from 'pg';
+
+import { migrationFunctions, seedFunctions } from '../../src/core/utilities';
+
+declare global {
+    // The database of the tests, for globalTeardown to stop
+    // eslint-disable-next-line no-var
+    var testDatabase: { stop: () => Promise<void> };
+}
+
+const DATABASE = {
+    host: '127.0.0.1',
+    port: Number(process.env.TEST_PGPORT) || 54329,
+    user: 'tcss460',
+    password: 'tcss460',
+    database: 'tcss460_test',
+};
+
+/**
+ * Starts an empty Postgres of its own for the tests, points the app at it and migrates and
+ * seeds it as npm run migrate up and npm run seed would. BOOKS is seeded from data/books.csv,
+ * so the tests can rely on its books.
+ */
+export default async () => {
+    // embedded-postgres is an ES module, which only import() can load
+    const embeddedPostgres = await import('embedded-postgres');
+    const postgres = new embeddedPostgres.default({
+        databaseDir: path.join(tmpdir(), `tcss460-test-${process.pid}`),
+        port: DATABASE.port,
+        user: DATABASE.user,
+        password: DATABASE.password,
+        persistent: false,
+        // Postgres refuses to run as root, as it is in a container
+        createPostgresUser: userInfo().uid === 0,
+        onLog: () => undefined,
+    });
+    await postgres.initialise();
+    await postgres.start();
+    globalThis.testDatabase = postgres;
+    await postgres.createDatabase(DATABASE.database);
+
+    const pool = new Pool(DATABASE);
+    try {
+        await migrationFunctions.up(pool);
+        await seedFunctions.seedBooks(seedFunctions.BOOKS_CSV, pool);
+    } finally {
+        await pool.end();
+    }
+
+    // The test files run after this, each with the env as it is now
+    Object.assign(process.env, {
+        PGHOST: DATABASE.host,
+        PGPORT: String(DATABASE.port),
+        PGUSER: DATABASE.user,
+        PGPASSWORD: DATABASE.password,
+        PGDATABASE: DATABASE.database,
+        JSON_WEB_TOKEN: 'the secret of the tests',
+    });
+};
@@ -0,0 +1,6 @@
+/**
+ * Stops the Postgres of the tests, which deletes its data.
+ */
+export default async () => {
+    await globalThis.testDatabase?.stop();
+};
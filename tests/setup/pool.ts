@@ -0,0 +1,4 @@
+import { pool } from '../../src/core/utilities';
+
+// Every test file has a pool of its own, which would keep jest waiting if left open
+afterAll(() => pool.end());
@@ -0,0 +1,278 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { Role } from '../src/core/models';
+import { ITestAccount, createAccount } from './setup/accounts';
+
+const HOBBIT = '9780618260300';
+const CATCHER_IN_THE_RYE = '9780316769170';
+// kept as 9780439023480, as it lost the last digit of its isbn13
+const HUNGER_GAMES_ISBN13 = '9780439023481';
+
+let owner: ITestAccount;
+let reader: ITestAccount;
+
+beforeAll(async () => {
+    [owner, reader] = await Promise.all([createAccount(), createAccount()]);
+});
+
+/**
+ * Creates a shelf of the account.
+ *
+ * @param {ITestAccount} account the owner of the shelf
+ * @param {boolean} isPublic whether other users can see the shelf
+ * @returns the shelf
+ */
+const createShelf = async (account: ITestAccount, isPublic: boolean) => {
+    const response = await request(app)
+        .post('/shelves')
+        .set('Authorization', `Bearer ${account.accessToken}`)
+        .send({ name: `Shelf ${Math.random()}`, is_public: isPublic })
+        .expect(201);
+    return response.body.shelf;
+};
+
+describe('/shelves', () => {
+    it('lists the default shelves of a new account', async () => {
+        const account = await createAccount();
+
+        const response = await request(app)
+            .get('/shelves')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(200);
+
+        expect(
+            response.body.entries.map((shelf: { name: string }) => shelf.name)
+        ).toEqual(['Want to Read', 'Currently Reading', 'Read']);
+    });
+
+    it('rejects a second shelf with the same name', async () => {
+        const response = await request(app)
+            .post('/shelves')
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .send({ name: 'Read' })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'You already have a shelf with this name'
+        );
+    });
+
+    it('renames and deletes a shelf', async () => {
+        const shelf = await createShelf(owner, false);
+
+        const renamed = await request(app)
+            .patch(`/shelves/${shelf.id}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .send({ name: 'Summer reading' })
+            .expect(200);
+        expect(renamed.body.shelf).toMatchObject({
+            id: shelf.id,
+            name: 'Summer reading',
+        });
+
+        await request(app)
+            .delete(`/shelves/${shelf.id}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(200);
+        await request(app)
+            .get(`/shelves/${shelf.id}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(404);
+    });
+
+    it('does not delete a default shelf', async () => {
+        const shelves = await request(app)
+            .get('/shelves')
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(200);
+
+        const response = await request(app)
+            .delete(`/shelves/${shelves.body.entries[0].id}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Default shelves cannot be deleted'
+        );
+    });
+
+    it('hides a private shelf from other users and lets only the owner change a public one', async () => {
+        const hidden = await createShelf(owner, false);
+        const shown = await createShelf(owner, true);
+
+        await request(app)
+            .get(`/shelves/${hidden.id}`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(404);
+        await request(app)
+            .get(`/shelves/${shown.id}`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(200);
+        const response = await request(app)
+            .patch(`/shelves/${shown.id}`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .send({ name: 'Mine now' })
+            .expect(403);
+        expect(response.body.error.message).toBe(
+            'You can only change your own shelves'
+        );
+    });
+});
+
+describe('/shelves/:id/books/:isbn13', () => {
+    it('shelves a book, records progress and sends the book as the library does', async () => {
+        const shelf = await createShelf(owner, false);
+        const shelve = (progress: object) =>
+            request(app)
+                .put(`/shelves/${shelf.id}/books/${HOBBIT}`)
+                .set('Authorization', `Bearer ${owner.accessToken}`)
+                .send(progress);
+
+        await shelve({}).expect(201);
+        const response = await shelve({
+            current_page: 120,
+            started_on: '2026-01-02',
+        }).expect(200);
+
+        const book = await request(app)
+            .get(`/library/isbn13/${HOBBIT}`)
+            .expect(200);
+        expect(response.body.entry).toEqual({
+            book: book.body.entry,
+            added_at: expect.any(String),
+            current_page: 120,
+            progress_percent: null,
+            started_on: '2026-01-02',
+            finished_on: null,
+        });
+        const shelved = await request(app)
+            .get(`/shelves/${shelf.id}?fields=isbn13,title`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(200);
+        expect(shelved.body.entries[0].book).toEqual({
+            isbn13: HOBBIT,
+            title: 'The Hobbit',
+        });
+    });
+
+    it('rejects finishing a book before starting it', async () => {
+        const shelf = await createShelf(owner, false);
+
+        const response = await request(app)
+            .put(`/shelves/${shelf.id}/books/${HOBBIT}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .send({ started_on: '2026-02-01', finished_on: '2026-01-01' })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'finished_on must not be before started_on'
+        );
+    });
+
+    it('shelves only the book with the exact isbn13', async () => {
+        const shelf = await createShelf(owner, false);
+
+        const response = await request(app)
+            .put(`/shelves/${shelf.id}/books/${HUNGER_GAMES_ISBN13}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            `No book for isbn13 ${HUNGER_GAMES_ISBN13} found`
+        );
+    });
+
+    it('takes a book off the shelf', async () => {
+        const shelf = await createShelf(owner, false);
+        await request(app)
+            .put(`/shelves/${shelf.id}/books/${HOBBIT}`)
+            .set('Authorization', `Bearer ${owner.accessToken}`)
+            .expect(201);
+        const takeOff = () =>
+            request(app)
+                .delete(`/shelves/${shelf.id}/books/${HOBBIT}`)
+                .set('Authorization', `Bearer ${owner.accessToken}`);
+
+        await takeOff().expect(200);
+        const response = await takeOff().expect(404);
+
+        expect(response.body.error.message).toBe(
+            'The book is not on this shelf'
+        );
+    });
+});
+
+describe('GET /users/:id/shelves', () => {
+    let user: ITestAccount;
+    let hidden: { id: number };
+    let shown: { id: number };
+
+    beforeAll(async () => {
+        user = await createAccount();
+        [hidden, shown] = await Promise.all([
+            createShelf(user, false),
+            createShelf(user, true),
+        ]);
+        await request(app)
+            .put(`/shelves/${shown.id}/books/${CATCHER_IN_THE_RYE}`)
+            .set('Authorization', `Bearer ${user.accessToken}`)
+            .expect(201);
+    });
+
+    const shelfIds = (response: request.Response) =>
+        response.body.entries.map((shelf: { id: number }) => shelf.id);
+
+    it('sends the public shelves without a token', async () => {
+        const response = await request(app)
+            .get(`/users/${user.id}/shelves?fields=title`)
+            .expect(200);
+
+        expect(shelfIds(response)).toEqual([shown.id]);
+        expect(response.body.entries[0].books).toEqual([
+            expect.objectContaining({
+                book: { title: 'The Catcher in the Rye' },
+            }),
+        ]);
+    });
+
+    it('sends the public shelves to another user', async () => {
+        const response = await request(app)
+            .get(`/users/${user.id}/shelves`)
+            .set('Authorization', `Bearer ${reader.accessToken}`)
+            .expect(200);
+
+        expect(shelfIds(response)).toEqual([shown.id]);
+    });
+
+    it('sends every shelf to the user and to admins', async () => {
+        const admin = await createAccount(Role.Admin);
+
+        for (const account of [user, admin]) {
+            const response = await request(app)
+                .get(`/users/${user.id}/shelves`)
+                .set('Authorization', `Bearer ${account.accessToken}`)
+                .expect(200);
+
+            expect(shelfIds(response)).toHaveLength(5);
+            expect(shelfIds(response)).toContain(hidden.id);
+        }
+    });
+
+    it('rejects a token that is not valid', async () => {
+        await request(app)
+            .get(`/users/${user.id}/shelves`)
+            .set('Authorization', 'Bearer not.a.token')
+            .expect(401);
+    });
+
+    it('answers 404 for an unknown user', async () => {
+        const response = await request(app)
+            .get('/users/2147483647/shelves')
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No user with this id was found'
+        );
+    });
+});
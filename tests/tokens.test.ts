@@ -0,0 +1,142 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { credentialingFunctions, pool } from '../src/core/utilities';
+import { PASSWORD, createAccount } from './setup/accounts';
+
+const refresh = (refreshToken: string) =>
+    request(app).post('/auth/refresh').send({ refreshToken });
+
+const jwtTest = (accessToken: string) =>
+    request(app).get('/jwt_test').set('Authorization', `Bearer ${accessToken}`);
+
+describe('POST /auth/refresh', () => {
+    it('rotates the refresh token, each one working once', async () => {
+        const account = await createAccount();
+
+        const first = await refresh(account.refreshToken).expect(200);
+        expect(first.body).toEqual({
+            accessToken: expect.any(String),
+            refreshToken: expect.any(String),
+        });
+        expect(first.body.refreshToken).not.toBe(account.refreshToken);
+        await jwtTest(first.body.accessToken).expect(200);
+
+        const second = await refresh(first.body.refreshToken).expect(200);
+        await jwtTest(second.body.accessToken).expect(200);
+    });
+
+    it('revokes the session when a refresh token is used again', async () => {
+        const account = await createAccount();
+        const rotated = await refresh(account.refreshToken).expect(200);
+
+        const reused = await refresh(account.refreshToken).expect(401);
+
+        expect(reused.body.error.message).toBe(
+            'Refresh token was already used - the session has been revoked'
+        );
+        await jwtTest(account.accessToken).expect(401);
+        await jwtTest(rotated.body.accessToken).expect(401);
+        const revoked = await refresh(rotated.body.refreshToken).expect(401);
+        expect(revoked.body.error.message).toBe('Refresh token is not valid');
+    });
+
+    it('rejects an expired refresh token', async () => {
+        const account = await createAccount();
+        await pool.query(
+            `UPDATE Refresh_Token SET expires_at = now() - interval '1 minute'
+                WHERE token_hash = $1`,
+            [credentialingFunctions.hashToken(account.refreshToken)]
+        );
+
+        const response = await refresh(account.refreshToken).expect(401);
+
+        expect(response.body.error.message).toBe('Refresh token has expired');
+    });
+
+    it('rejects an unknown refresh token', async () => {
+        const response = await refresh('not a token').expect(401);
+
+        expect(response.body.error.message).toBe('Refresh token is not valid');
+    });
+
+    it('requires a refresh token', async () => {
+        const response = await request(app)
+            .post('/auth/refresh')
+            .send({})
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing refreshToken - please refer to documentation'
+        );
+    });
+});
+
+describe('POST /auth/logout', () => {
+    it('logs out only the session of the token', async () => {
+        const account = await createAccount();
+        const other = await request(app)
+            .post('/login')
+            .send({ email: account.email, password: PASSWORD })
+            .expect(200);
+
+        const response = await request(app)
+            .post('/auth/logout')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(200);
+
+        expect(response.body.message).toBe('Logged out');
+        await jwtTest(account.accessToken).expect(401);
+        await refresh(account.refreshToken).expect(401);
+        await jwtTest(other.body.accessToken).expect(200);
+    });
+
+    it('requires a token', async () => {
+        const response = await request(app).post('/auth/logout').expect(401);
+
+        expect(response.body.error.message).toBe('Auth token is not supplied');
+    });
+});
+
+describe('POST /auth/logout-all', () => {
+    it('logs out every session of the user', async () => {
+        const account = await createAccount();
+        const sessions = await Promise.all(
+            [1, 2].map(() =>
+                request(app)
+                    .post('/login')
+                    .send({ email: account.email, password: PASSWORD })
+                    .expect(200)
+            )
+        );
+        const stranger = await createAccount();
+
+        const response = await request(app)
+            .post('/auth/logout-all')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(200);
+
+        expect(response.body).toEqual({ message: 'Logged out', sessions: 3 });
+        await jwtTest(account.accessToken).expect(401);
+        for (const session of sessions) {
+            await jwtTest(session.body.accessToken).expect(401);
+            await refresh(session.body.refreshToken).expect(401);
+        }
+        await jwtTest(stranger.accessToken).expect(200);
+    });
+
+    it('rejects a token of a session that was logged out', async () => {
+        const account = await createAccount();
+        await request(app)
+            .post('/auth/logout')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(200);
+
+        const response = await request(app)
+            .post('/auth/logout-all')
+            .set('Authorization', `Bearer ${account.accessToken}`)
+            .expect(401);
+
+        expect(response.body.error.message).toBe('Token is not valid');
+    });
+});
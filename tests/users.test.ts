@@ -0,0 +1,71 @@
+import request from 'supertest';
+
+import { app } from '../src';
+import { Role } from '../src/core/models';
+import { ITestAccount, createAccount } from './setup/accounts';
+
+let admin: ITestAccount;
+let member: ITestAccount;
+
+beforeAll(async () => {
+    [admin, member] = await Promise.all([
+        createAccount(Role.Admin),
+        createAccount(Role.Member),
+    ]);
+});
+
+describe('PUT /users/:id/role', () => {
+    it('lets an admin change the role of a user and ends their sessions', async () => {
+        const user = await createAccount();
+
+        const response = await request(app)
+            .put(`/users/${user.id}/role`)
+            .set('Authorization', `Bearer ${admin.accessToken}`)
+            .send({ role: Role.Editor })
+            .expect(200);
+
+        expect(response.body.user).toMatchObject({
+            id: user.id,
+            email: user.email,
+            role: Role.Editor,
+        });
+        await request(app)
+            .get('/jwt_test')
+            .set('Authorization', `Bearer ${user.accessToken}`)
+            .expect(401);
+    });
+
+    it('rejects a user that is not an admin', async () => {
+        const response = await request(app)
+            .put(`/users/${member.id}/role`)
+            .set('Authorization', `Bearer ${member.accessToken}`)
+            .send({ role: Role.Admin })
+            .expect(403);
+
+        expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('rejects a role that does not exist', async () => {
+        const response = await request(app)
+            .put(`/users/${member.id}/role`)
+            .set('Authorization', `Bearer ${admin.accessToken}`)
+            .send({ role: 6 })
+            .expect(400);
+
+        expect(response.body.error.message).toBe(
+            'Invalid or missing role - please refer to documentation'
+        );
+    });
+
+    it('rejects an unknown user', async () => {
+        const response = await request(app)
+            .put('/users/2147483647/role')
+            .set('Authorization', `Bearer ${admin.accessToken}`)
+            .send({ role: Role.Editor })
+            .expect(404);
+
+        expect(response.body.error.message).toBe(
+            'No user with this id was found'
+        );
+    });
+});